@@ -3,6 +3,8 @@
 import { useEffect, useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
 import { supabase } from "@/lib/supabaseClient";
+import { FILTER_LABELS, isNeedsAttention, matchesFilter, type FilterKey } from "@/lib/userSegments";
+import { PROGRAM_WEEKS } from "@/lib/program";
 
 const BUILD_STAMP =
   process.env.NEXT_PUBLIC_BUILD_STAMP ||
@@ -38,7 +40,14 @@ type SortKey =
   | "email_paused"
   | "disabled";
 
-type FilterKey = "all" | "needs_attention" | "ready" | "paused" | "disabled";
+type BroadcastPreview = {
+  filter: FilterKey;
+  matched: number;
+  recipientCount: number;
+  skipped: { disabled: number; paused: number; noEmail: number };
+  sample: { id: string; email: string; preferred_name: string | null }[];
+  email: { subject: string; html: string; text: string };
+};
 
 function formatDateTime(d: string | null) {
   if (!d) return "-";
@@ -47,14 +56,6 @@ function formatDateTime(d: string | null) {
   return dt.toLocaleString();
 }
 
-function daysSince(d: string | null) {
-  if (!d) return null;
-  const t = new Date(d).getTime();
-  if (Number.isNaN(t)) return null;
-  const ms = Date.now() - t;
-  return Math.floor(ms / (1000 * 60 * 60 * 24));
-}
-
 async function safeReadJson(res: Response) {
   const ct = res.headers.get("content-type") || "";
   if (ct.includes("application/json")) return await res.json().catch(() => null);
@@ -74,6 +75,12 @@ export default function AdminClient() {
 
   const [filter, setFilter] = useState<FilterKey>("all");
 
+  const [broadcastOpen, setBroadcastOpen] = useState(false);
+  const [broadcastSubject, setBroadcastSubject] = useState("");
+  const [broadcastBody, setBroadcastBody] = useState("");
+  const [broadcastPreview, setBroadcastPreview] = useState<BroadcastPreview | null>(null);
+  const [broadcastBusy, setBroadcastBusy] = useState(false);
+
   async function fetchOverview() {
     setLoading(true);
     setMessage(null);
@@ -171,6 +178,64 @@ export default function AdminClient() {
     return { ok: true };
   }
 
+  async function broadcastRequest(mode: "preview" | "send") {
+    setMessage(null);
+
+    const { data: sessionRes } = await supabase.auth.getSession();
+    const token = sessionRes?.session?.access_token;
+
+    if (!token) {
+      setMessage("No session token. Please sign in again.");
+      return null;
+    }
+
+    const res = await fetch("/api/admin/broadcast", {
+      method: "POST",
+      headers: {
+        "content-type": "application/json",
+        Authorization: `Bearer ${token}`
+      },
+      body: JSON.stringify({ mode, filter, subject: broadcastSubject, body: broadcastBody })
+    });
+
+    const json = await safeReadJson(res);
+
+    if (!res.ok || !json?.ok) {
+      setMessage(`Broadcast ${mode} failed (HTTP ${res.status}): ${json?.error ?? "Unknown error"}`);
+      return null;
+    }
+
+    return json.result;
+  }
+
+  async function previewBroadcast() {
+    setBroadcastBusy(true);
+    const result = await broadcastRequest("preview");
+    setBroadcastPreview(result ? (result as BroadcastPreview) : null);
+    setBroadcastBusy(false);
+  }
+
+  async function sendBroadcast() {
+    if (!broadcastPreview || broadcastPreview.filter !== filter) return;
+
+    const n = broadcastPreview.recipientCount;
+    const ok = window.confirm(
+      `Send "${broadcastSubject.trim()}" to ${n} user${n === 1 ? "" : "s"} in "${FILTER_LABELS[filter]}"? This cannot be undone.`
+    );
+    if (!ok) return;
+
+    setBroadcastBusy(true);
+    const result = await broadcastRequest("send");
+    setBroadcastBusy(false);
+    if (!result) return;
+
+    setMessage(`Broadcast sent: ${result.sent} delivered, ${result.failed} failed.`);
+    setBroadcastPreview(null);
+    setBroadcastSubject("");
+    setBroadcastBody("");
+    setBroadcastOpen(false);
+  }
+
   useEffect(() => {
     void fetchOverview();
     // eslint-disable-next-line react-hooks/exhaustive-deps
@@ -189,28 +254,13 @@ export default function AdminClient() {
     const total = rows.length;
     const paused = rows.filter((r) => r.email_paused).length;
     const disabled = rows.filter((r) => r.disabled).length;
-    const ready = rows.filter((r) => r.complete_count >= 52).length;
-    const needsAttention = rows.filter((r) => {
-      const d = daysSince(r.last_activity);
-      return d !== null && d >= 14 && r.complete_count < 52 && !r.disabled;
-    }).length;
+    const ready = rows.filter((r) => r.complete_count >= PROGRAM_WEEKS).length;
+    const needsAttention = rows.filter((r) => isNeedsAttention(r)).length;
 
     return { total, paused, disabled, ready, needsAttention };
   }, [rows]);
 
-  const filteredRows = useMemo(() => {
-    const isNeedsAttention = (r: Row) => {
-      const d = daysSince(r.last_activity);
-      return d !== null && d >= 14 && r.complete_count < 52 && !r.disabled;
-    };
-
-    if (filter === "all") return rows;
-    if (filter === "needs_attention") return rows.filter(isNeedsAttention);
-    if (filter === "ready") return rows.filter((r) => r.complete_count >= 52);
-    if (filter === "paused") return rows.filter((r) => r.email_paused && !r.disabled);
-    if (filter === "disabled") return rows.filter((r) => r.disabled);
-    return rows;
-  }, [rows, filter]);
+  const filteredRows = useMemo(() => rows.filter((r) => matchesFilter(r, filter)), [rows, filter]);
 
   const sorted = useMemo(() => {
     const copy = [...filteredRows];
@@ -250,6 +300,9 @@ export default function AdminClient() {
     return copy;
   }, [filteredRows, sortKey, sortDir]);
 
+  // A preview only counts for the filter it was rendered for
+  const activePreview = broadcastPreview?.filter === filter ? broadcastPreview : null;
+
   // Dense table styling
   const th = "px-2 py-1 text-[11px] font-semibold border-b cursor-pointer select-none whitespace-nowrap";
   const td = "px-2 py-1 text-xs border-b align-top";
@@ -272,6 +325,9 @@ export default function AdminClient() {
           <button className={btn} onClick={fetchOverview}>
             Refresh
           </button>
+          <button className={btn} onClick={() => router.push("/admin/email-preview")}>
+            Email previews
+          </button>
           <button
             className={btn}
             onClick={async () => {
@@ -327,12 +383,99 @@ export default function AdminClient() {
           <button className={filterBtn("disabled")} onClick={() => setFilter("disabled")}>
             Disabled ({summary.disabled})
           </button>
-          <div className="ml-auto text-[11px] opacity-70">
-            Showing {sorted.length} of {rows.length}
+          <div className="ml-auto flex items-center gap-2">
+            <div className="text-[11px] opacity-70">
+              Showing {sorted.length} of {rows.length}
+            </div>
+            <button
+              className={btn}
+              onClick={() => {
+                setBroadcastOpen(!broadcastOpen);
+                setBroadcastPreview(null);
+              }}
+            >
+              {broadcastOpen ? "Close broadcast" : "Email this segment"}
+            </button>
           </div>
         </div>
       </div>
 
+      {broadcastOpen ? (
+        <div className="border rounded-xl p-2 space-y-2">
+          <div className="text-xs">
+            <span className="font-semibold">Broadcast to: {FILTER_LABELS[filter]}</span>
+            <span className="opacity-70"> (paused and disabled users are always skipped)</span>
+          </div>
+
+          <input
+            className="w-full border rounded-lg px-2 py-1 text-xs"
+            placeholder="Subject"
+            value={broadcastSubject}
+            onChange={(e) => {
+              setBroadcastSubject(e.target.value);
+              setBroadcastPreview(null);
+            }}
+            disabled={broadcastBusy}
+          />
+
+          <textarea
+            className="w-full border rounded-lg px-2 py-1 text-xs min-h-[140px]"
+            placeholder="Message. Leave a blank line between paragraphs."
+            value={broadcastBody}
+            onChange={(e) => {
+              setBroadcastBody(e.target.value);
+              setBroadcastPreview(null);
+            }}
+            disabled={broadcastBusy}
+          />
+
+          <div className="flex gap-2 items-center flex-wrap">
+            <button
+              className={btn}
+              onClick={previewBroadcast}
+              disabled={broadcastBusy || !broadcastSubject.trim() || !broadcastBody.trim()}
+            >
+              {broadcastBusy ? "Working..." : "Preview"}
+            </button>
+            {activePreview ? (
+              <button
+                className={btn}
+                onClick={sendBroadcast}
+                disabled={broadcastBusy || activePreview.recipientCount === 0}
+              >
+                Send to {activePreview.recipientCount} user{activePreview.recipientCount === 1 ? "" : "s"}
+              </button>
+            ) : null}
+          </div>
+
+          {activePreview ? (
+            <div className="space-y-2">
+              <div className="text-[11px] opacity-70">
+                {activePreview.matched} in segment, {activePreview.recipientCount} will receive it. Skipped:{" "}
+                {activePreview.skipped.paused} paused, {activePreview.skipped.disabled} disabled,{" "}
+                {activePreview.skipped.noEmail} without email.
+              </div>
+              {activePreview.sample.length ? (
+                <div className="text-[11px] opacity-70 break-words">
+                  Recipients include: {activePreview.sample.map((u) => u.email).join(", ")}
+                  {activePreview.recipientCount > activePreview.sample.length ? ", ..." : ""}
+                </div>
+              ) : null}
+              <div className="text-xs">
+                <span className="opacity-70">Subject: </span>
+                <span className="font-semibold">{activePreview.email.subject}</span>
+              </div>
+              <iframe
+                title="Broadcast preview"
+                className="w-full min-h-[360px] border rounded-lg bg-white"
+                sandbox=""
+                srcDoc={activePreview.email.html}
+              />
+            </div>
+          ) : null}
+        </div>
+      ) : null}
+
       {message ? <div className="border rounded-xl p-2 text-xs">{message}</div> : null}
 
       <div className="border rounded-xl overflow-hidden">
@@ -379,10 +522,8 @@ export default function AdminClient() {
 
             <tbody>
               {sorted.map((r) => {
-                const inactiveDays = daysSince(r.last_activity);
-                const needsAttention =
-                  inactiveDays !== null && inactiveDays >= 14 && r.complete_count < 52 && !r.disabled;
-                const isDone = r.complete_count >= 52;
+                const needsAttention = isNeedsAttention(r);
+                const isDone = r.complete_count >= PROGRAM_WEEKS;
 
                 return (
                   <tr key={r.id} className={r.disabled ? "opacity-60" : ""}>
@@ -407,7 +548,7 @@ export default function AdminClient() {
 
                     <td className={td}>
                       <div className="leading-tight">{r.percent_complete}%</div>
-                      <div className="text-[11px] opacity-70 leading-tight">{r.complete_count}/52</div>
+                      <div className="text-[11px] opacity-70 leading-tight">{r.complete_count}/{PROGRAM_WEEKS}</div>
                     </td>
 
                     <td className={td}>{r.current_week ?? "-"}</td>
@@ -0,0 +1,220 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { supabase } from "@/lib/supabaseClient";
+import { PROGRAM_WEEKS } from "@/lib/program";
+
+type TemplateName = "weekly_prompt" | "reminder" | "broadcast" | "sign_in_link" | "password_reset" | "test";
+
+type Preview = {
+  template: TemplateName;
+  subject: string;
+  html: string;
+  text: string;
+};
+
+const TEMPLATE_LABELS: Record<TemplateName, string> = {
+  weekly_prompt: "Weekly prompt",
+  reminder: "Inactivity reminder",
+  broadcast: "Admin broadcast",
+  sign_in_link: "Sign-in link",
+  password_reset: "Password reset",
+  test: "Test email"
+};
+
+export default function EmailPreviewClient() {
+  const router = useRouter();
+  const sp = useSearchParams();
+
+  const [checkingAdmin, setCheckingAdmin] = useState(true);
+  const [message, setMessage] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const [template, setTemplate] = useState<TemplateName>("weekly_prompt");
+  const [userId, setUserId] = useState<string>(sp.get("user_id") ?? "");
+  const [week, setWeek] = useState<string>("");
+  const [format, setFormat] = useState<"html" | "text">("html");
+
+  const [preview, setPreview] = useState<Preview | null>(null);
+
+  async function loadPreview() {
+    setBusy(true);
+    setMessage(null);
+
+    const { data: sessionRes } = await supabase.auth.getSession();
+    const token = sessionRes?.session?.access_token;
+
+    if (!token) {
+      setMessage("No session token. Please sign in again.");
+      setBusy(false);
+      return;
+    }
+
+    const qs = new URLSearchParams({ template });
+    if (userId.trim()) qs.set("user_id", userId.trim());
+    if (week) qs.set("week", week);
+
+    const res = await fetch(`/api/admin/email-preview?${qs.toString()}`, {
+      headers: { Authorization: `Bearer ${token}` }
+    });
+
+    const json = await res.json().catch(() => null);
+    if (!json?.ok) {
+      setMessage(json?.error ?? `Preview failed (HTTP ${res.status}).`);
+      setBusy(false);
+      return;
+    }
+
+    setPreview(json.result as Preview);
+    setBusy(false);
+  }
+
+  useEffect(() => {
+    async function boot() {
+      const { data: auth } = await supabase.auth.getUser();
+      if (!auth.user) {
+        router.replace("/login");
+        return;
+      }
+
+      const { data: isAdmin, error: adminErr } = await supabase.rpc("is_admin");
+      if (adminErr) {
+        setMessage(`Admin check error: ${adminErr.message}`);
+        setCheckingAdmin(false);
+        return;
+      }
+
+      if (!isAdmin) {
+        router.replace("/dashboard");
+        return;
+      }
+
+      setCheckingAdmin(false);
+      await loadPreview();
+    }
+
+    void boot();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [router]);
+
+  if (checkingAdmin) return <div className="p-6">Checking admin access...</div>;
+
+  const cardClass = "border rounded-xl p-4";
+  const buttonClass = "rounded-lg border px-3 py-2";
+  const inputClass = "border rounded-lg px-3 py-2";
+
+  return (
+    <div className="min-h-screen">
+      <div className="max-w-5xl mx-auto p-6 space-y-4">
+        <div className="flex items-center justify-between gap-3 flex-wrap">
+          <div>
+            <div className="text-sm opacity-80 cursor-pointer" onClick={() => router.push("/admin")}>
+              Admin
+            </div>
+            <h1 className="text-2xl font-semibold">Email previews</h1>
+          </div>
+
+          <button className={buttonClass} onClick={() => router.push("/admin")}>
+            Back to Admin
+          </button>
+        </div>
+
+        <div className={cardClass}>
+          <div className="flex items-end gap-3 flex-wrap">
+            <div>
+              <div className="text-xs opacity-70">Template</div>
+              <select
+                className={inputClass}
+                value={template}
+                onChange={(e) => setTemplate(e.target.value as TemplateName)}
+                disabled={busy}
+              >
+                {(Object.keys(TEMPLATE_LABELS) as TemplateName[]).map((t) => (
+                  <option key={t} value={t}>
+                    {TEMPLATE_LABELS[t]}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="grow">
+              <div className="text-xs opacity-70">User id (optional, uses sample data when blank)</div>
+              <input
+                className={`${inputClass} w-full font-mono text-sm`}
+                value={userId}
+                onChange={(e) => setUserId(e.target.value)}
+                disabled={busy || (template !== "weekly_prompt" && template !== "reminder")}
+                placeholder="00000000-0000-0000-0000-000000000000"
+              />
+            </div>
+
+            <div>
+              <div className="text-xs opacity-70">Week</div>
+              <select
+                className={inputClass}
+                value={week}
+                onChange={(e) => setWeek(e.target.value)}
+                disabled={busy || template !== "weekly_prompt"}
+              >
+                <option value="">Current</option>
+                {Array.from({ length: PROGRAM_WEEKS }, (_, i) => i + 1).map((w) => (
+                  <option key={w} value={String(w)}>
+                    Week {w}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <button className={buttonClass} onClick={loadPreview} disabled={busy}>
+              {busy ? "Rendering..." : "Render"}
+            </button>
+          </div>
+
+          <div className="mt-2 text-xs opacity-70">
+            Nothing is sent from this page. Sign-in and reset previews use a placeholder link.
+          </div>
+        </div>
+
+        {message ? <div className={cardClass}>{message}</div> : null}
+
+        {preview ? (
+          <div className={cardClass}>
+            <div className="flex items-center justify-between gap-3 flex-wrap">
+              <div>
+                <div className="text-xs opacity-70">Subject</div>
+                <div className="font-semibold">{preview.subject}</div>
+              </div>
+
+              <div className="flex gap-2">
+                <button
+                  className={`${buttonClass} ${format === "html" ? "font-semibold" : ""}`}
+                  onClick={() => setFormat("html")}
+                >
+                  HTML
+                </button>
+                <button
+                  className={`${buttonClass} ${format === "text" ? "font-semibold" : ""}`}
+                  onClick={() => setFormat("text")}
+                >
+                  Plain text
+                </button>
+              </div>
+            </div>
+
+            {format === "html" ? (
+              <iframe
+                title="Email HTML preview"
+                className="mt-3 w-full min-h-[520px] border rounded-lg bg-white"
+                sandbox=""
+                srcDoc={preview.html}
+              />
+            ) : (
+              <pre className="mt-3 whitespace-pre-wrap text-sm border rounded-lg p-3">{preview.text}</pre>
+            )}
+          </div>
+        ) : null}
+      </div>
+    </div>
+  );
+}
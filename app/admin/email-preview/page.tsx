@@ -0,0 +1,10 @@
+import { Suspense } from "react";
+import EmailPreviewClient from "./EmailPreviewClient";
+
+export default function EmailPreviewPage() {
+  return (
+    <Suspense fallback={<div className="p-6">Loading...</div>}>
+      <EmailPreviewClient />
+    </Suspense>
+  );
+}
@@ -3,13 +3,19 @@
 import { Fragment, useEffect, useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
 import { supabase } from "@/lib/supabaseClient";
+import { downloadFromApi } from "@/lib/download";
+import EntryHistory from "@/components/EntryHistory";
+import EntryPhotos from "@/components/EntryPhotos";
+import EntryRecordings from "@/components/EntryRecordings";
+import RichTextView from "@/components/RichTextView";
+import { PROGRAM_WEEKS, deriveDisplayStatus, type DisplayStatus } from "@/lib/program";
+import { bookBlocks, type RichTextBlock } from "@/lib/richText";
+import { isUuid } from "@/lib/uuid";
 
 type AnyRow = Record<string, any>;
 
-function isUuid(v: any): v is string {
-  if (typeof v !== "string") return false;
-  return /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i.test(v);
-}
+type ManuscriptFormat = "pdf" | "docx" | "epub" | "html" | "md";
+type PdfTrimSize = "6x9" | "5.5x8.5" | "a5";
 
 function isNonEmptyText(v: any) {
   return typeof v === "string" && v.trim().length > 0;
@@ -32,6 +38,7 @@ export default function UserClient({ userId }: { userId: string }) {
   const [profile, setProfile] = useState<AnyRow | null>(null);
   const [prompts, setPrompts] = useState<AnyRow[]>([]);
   const [entries, setEntries] = useState<AnyRow[]>([]);
+  const [deliveries, setDeliveries] = useState<AnyRow[]>([]);
 
   // Admin control state
   const [startDateDraft, setStartDateDraft] = useState<string>("");
@@ -39,8 +46,13 @@ export default function UserClient({ userId }: { userId: string }) {
   const [resetWeek, setResetWeek] = useState<number>(1);
   const [busy, setBusy] = useState<boolean>(false);
 
+  const [manuscriptFormat, setManuscriptFormat] = useState<ManuscriptFormat>("pdf");
+  const [pdfTrim, setPdfTrim] = useState<PdfTrimSize>("6x9");
+  const [dedication, setDedication] = useState("");
+
   // Inline expanded row state
   const [expandedWeek, setExpandedWeek] = useState<number | null>(null);
+  const [historyWeek, setHistoryWeek] = useState<number | null>(null);
 
   async function adminAction(payload: any) {
     setBusy(true);
@@ -129,11 +141,20 @@ export default function UserClient({ userId }: { userId: string }) {
 
     const entryRes = await supabase
       .from("entries")
-      .select("id, user_id, week, prompt_key, content, status, updated_at, created_at")
+      .select("id, user_id, week, prompt_key, content, content_doc, status, updated_at, created_at")
       .eq("user_id", userId)
       .order("week", { ascending: true });
     if (!entryRes.error) setEntries(entryRes.data ?? []);
 
+    const deliveryRes = await supabase
+      .from("email_deliveries")
+      .select(
+        "id, kind, week, prompt_key, provider, provider_message_id, status, error, attempts, created_at, updated_at"
+      )
+      .eq("user_id", userId)
+      .order("created_at", { ascending: false });
+    if (!deliveryRes.error) setDeliveries(deliveryRes.data ?? []);
+
     setLoading(false);
   }
 
@@ -181,7 +202,7 @@ export default function UserClient({ userId }: { userId: string }) {
     setEmailPausedDraft(Boolean(profile.email_paused));
   }, [profile]);
 
-  const promptCount = useMemo(() => (prompts.length > 0 ? prompts.length : 52), [prompts.length]);
+  const promptCount = useMemo(() => (prompts.length > 0 ? prompts.length : PROGRAM_WEEKS), [prompts.length]);
 
   const promptTitleByWeek = useMemo(() => {
     const m = new Map<number, string>();
@@ -206,18 +227,18 @@ export default function UserClient({ userId }: { userId: string }) {
     const out: Array<{
       week: number;
       title: string;
-      status: "Open" | "In Progress" | "Complete";
+      status: DisplayStatus;
       updated_at: string | null;
       content: string;
+      blocks: RichTextBlock[];
+      entry_id: string | null;
     }> = [];
 
     for (let w = 1; w <= promptCount; w++) {
       const e = entryByWeek.get(w);
       const title = promptTitleByWeek.get(w) ?? `Week ${w}`;
 
-      const hasText = e && isNonEmptyText(e.content);
-      const status =
-        !e || !hasText ? "Open" : String(e.status) === "complete" ? "Complete" : "In Progress";
+      const status = deriveDisplayStatus(e);
 
       const updated = (e?.updated_at as string | null) ?? (e?.created_at as string | null) ?? null;
 
@@ -226,7 +247,9 @@ export default function UserClient({ userId }: { userId: string }) {
         title,
         status,
         updated_at: updated,
-        content: (e?.content as string) ?? ""
+        content: (e?.content as string) ?? "",
+        blocks: e ? bookBlocks(e) : [],
+        entry_id: (e?.id as string | undefined) ?? null
       });
     }
 
@@ -336,6 +359,35 @@ export default function UserClient({ userId }: { userId: string }) {
     if (res.ok) setMessage("Password reset link requested.");
   }
 
+  async function downloadManuscript() {
+    setBusy(true);
+    setMessage(null);
+
+    const { data: sessionRes } = await supabase.auth.getSession();
+    const token = sessionRes?.session?.access_token;
+
+    if (!token) {
+      setMessage("No session token. Please sign in again.");
+      setBusy(false);
+      return;
+    }
+
+    const qs = new URLSearchParams({ user_id: userId, format: manuscriptFormat });
+    if (manuscriptFormat === "pdf") {
+      qs.set("trim", pdfTrim);
+      if (dedication.trim()) qs.set("dedication", dedication.trim());
+    }
+
+    const res = await downloadFromApi(
+      `/api/admin/manuscript?${qs.toString()}`,
+      token,
+      `autobiography.${manuscriptFormat}`
+    );
+
+    if (!res.ok) setMessage(`Manuscript download failed: ${res.error}`);
+    setBusy(false);
+  }
+
   if (checkingAdmin) return <div className="p-6">Checking admin access...</div>;
   if (loading) return <div className="p-6">Loading user...</div>;
 
@@ -356,6 +408,12 @@ export default function UserClient({ userId }: { userId: string }) {
     return "text-black";
   }
 
+  function deliveryColor(status: string) {
+    if (status === "sent") return "text-green-800";
+    if (status === "failed") return "text-red-700";
+    return "text-orange-700";
+  }
+
   return (
     <div className="min-h-screen">
       <div className="max-w-6xl mx-auto p-6 space-y-4">
@@ -371,6 +429,12 @@ export default function UserClient({ userId }: { userId: string }) {
           </div>
 
           <div className="flex gap-2 flex-wrap">
+            <button
+              className={buttonClass}
+              onClick={() => router.push(`/admin/email-preview?user_id=${userId}`)}
+            >
+              Preview weekly email
+            </button>
             <button className={buttonClass} onClick={() => router.push("/admin")}>
               Back to Admin
             </button>
@@ -416,7 +480,7 @@ export default function UserClient({ userId }: { userId: string }) {
                   onChange={(e) => setResetWeek(Number(e.target.value))}
                   disabled={busy}
                 >
-                  {Array.from({ length: 52 }, (_, i) => i + 1).map((w) => (
+                  {Array.from({ length: PROGRAM_WEEKS }, (_, i) => i + 1).map((w) => (
                     <option key={w} value={w}>
                       Week {w}
                     </option>
@@ -455,6 +519,64 @@ export default function UserClient({ userId }: { userId: string }) {
           </div>
         </div>
 
+        <div className={cardClass}>
+          <div className="font-semibold">Manuscript</div>
+          <div className="text-xs opacity-70">
+            Compiles every week with text or photos, in the order the user chose for their book (week order,
+            life stage or their own). The PDF is laid out as a book for printing.
+          </div>
+
+          <div className="mt-3 flex items-end gap-3 flex-wrap">
+            <div>
+              <div className="text-xs opacity-70">Format</div>
+              <select
+                className="border rounded-lg px-3 py-2"
+                value={manuscriptFormat}
+                onChange={(e) => setManuscriptFormat(e.target.value as ManuscriptFormat)}
+                disabled={busy}
+              >
+                <option value="pdf">Print-ready book (.pdf)</option>
+                <option value="docx">Word (.docx)</option>
+                <option value="epub">E-book (.epub)</option>
+                <option value="html">Web page (.html)</option>
+                <option value="md">Markdown (.md)</option>
+              </select>
+            </div>
+
+            {manuscriptFormat === "pdf" ? (
+              <>
+                <div>
+                  <div className="text-xs opacity-70">Trim size</div>
+                  <select
+                    className="border rounded-lg px-3 py-2"
+                    value={pdfTrim}
+                    onChange={(e) => setPdfTrim(e.target.value as PdfTrimSize)}
+                    disabled={busy}
+                  >
+                    <option value="6x9">6 × 9 in</option>
+                    <option value="5.5x8.5">5.5 × 8.5 in</option>
+                    <option value="a5">A5</option>
+                  </select>
+                </div>
+                <div className="grow">
+                  <div className="text-xs opacity-70">Dedication (optional)</div>
+                  <input
+                    className="w-full border rounded-lg px-3 py-2"
+                    maxLength={500}
+                    value={dedication}
+                    onChange={(e) => setDedication(e.target.value)}
+                    disabled={busy}
+                  />
+                </div>
+              </>
+            ) : null}
+
+            <button className={buttonClass} onClick={downloadManuscript} disabled={busy}>
+              {busy ? "Working..." : "Download"}
+            </button>
+          </div>
+        </div>
+
         <div className={cardClass}>
           <div className="flex items-center justify-between gap-3 flex-wrap">
             <div className="text-lg font-semibold">Weeks</div>
@@ -505,9 +627,45 @@ export default function UserClient({ userId }: { userId: string }) {
                                 <div className="text-sm opacity-80">
                                   Week {w.week} • {w.title}
                                 </div>
-                                <div className="mt-2 whitespace-pre-wrap text-sm">
-                                  {isNonEmptyText(w.content) ? w.content : "(No content)"}
-                                </div>
+                                {w.blocks.length ? (
+                                  <RichTextView blocks={w.blocks} className="mt-2 text-sm" />
+                                ) : (
+                                  <div className="mt-2 text-sm">(No content)</div>
+                                )}
+
+                                {w.entry_id ? (
+                                  <div className="mt-3">
+                                    <div className="text-sm font-semibold">Photos</div>
+                                    <div className="mt-2">
+                                      <EntryPhotos entryId={w.entry_id} />
+                                    </div>
+                                  </div>
+                                ) : null}
+
+                                {w.entry_id ? (
+                                  <div className="mt-3">
+                                    <div className="text-sm font-semibold">Recordings</div>
+                                    <div className="mt-2">
+                                      <EntryRecordings entryId={w.entry_id} />
+                                    </div>
+                                  </div>
+                                ) : null}
+
+                                {w.entry_id ? (
+                                  <div className="mt-3">
+                                    <button
+                                      className="rounded border px-2 py-1 text-xs"
+                                      onClick={() => setHistoryWeek(historyWeek === w.week ? null : w.week)}
+                                    >
+                                      {historyWeek === w.week ? "Hide history" : "History"}
+                                    </button>
+                                    {historyWeek === w.week ? (
+                                      <div className="mt-2">
+                                        <EntryHistory entryId={w.entry_id} reloadKey={w.updated_at} />
+                                      </div>
+                                    ) : null}
+                                  </div>
+                                ) : null}
                               </div>
                             </td>
                           </tr>
@@ -524,6 +682,51 @@ export default function UserClient({ userId }: { userId: string }) {
             Tip: click the same row again to collapse it.
           </div>
         </div>
+
+        <div className={cardClass}>
+          <div className="flex items-center justify-between gap-3 flex-wrap">
+            <div className="text-lg font-semibold">Email deliveries</div>
+            <div className="text-sm opacity-80">{deliveries.length} logged</div>
+          </div>
+
+          {deliveries.length === 0 ? (
+            <div className="mt-3 text-sm opacity-80">No emails have been sent to this user yet.</div>
+          ) : (
+            <div className="mt-3 border rounded-lg overflow-hidden">
+              <div className="max-h-[360px] overflow-auto">
+                <table className="w-full text-left">
+                  <thead className="sticky top-0 bg-white">
+                    <tr className="border-b">
+                      <th className={thClass}>Type</th>
+                      <th className={thClass}>Week</th>
+                      <th className={thClass}>Prompt</th>
+                      <th className={thClass}>Status</th>
+                      <th className={thClass}>Attempts</th>
+                      <th className={thClass}>Updated</th>
+                      <th className={thClass}>Message id / error</th>
+                    </tr>
+                  </thead>
+
+                  <tbody>
+                    {deliveries.map((d) => (
+                      <tr key={String(d.id)} className="border-b">
+                        <td className={tdClass}>{d.kind === "reminder" ? "Reminder" : d.kind === "broadcast" ? "Broadcast" : "Weekly"}</td>
+                        <td className={tdClass}>{d.week ?? "-"}</td>
+                        <td className={tdClass}>{d.prompt_key ?? "-"}</td>
+                        <td className={`${tdClass} ${deliveryColor(String(d.status))}`}>{d.status}</td>
+                        <td className={tdClass}>{d.attempts}</td>
+                        <td className={tdClass}>{formatDateTime(d.updated_at ?? d.created_at)}</td>
+                        <td className={`${tdClass} break-all`}>
+                          {d.status === "failed" ? d.error ?? "-" : d.provider_message_id ?? "-"}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </div>
       </div>
     </div>
   );
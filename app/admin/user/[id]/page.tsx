@@ -1,9 +1,5 @@
 import UserClient from "./UserClient";
-
-function isUuid(v: any): v is string {
-  if (typeof v !== "string") return false;
-  return /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i.test(v);
-}
+import { isUuid } from "@/lib/uuid";
 
 type ParamsMaybePromise = { id: string } | Promise<{ id: string }>;
 
@@ -1,7 +1,9 @@
 import { NextResponse } from "next/server";
 import { requireAdmin } from "@/lib/server/requireAdmin";
 import { getAdminClient } from "@/lib/server/supabaseAdmin";
-import { Resend } from "resend";
+import { renderEmail, type RenderedEmail } from "@/lib/server/emailTemplates";
+import { getMailTransport } from "@/lib/server/mailTransport";
+import { isUuid } from "@/lib/uuid";
 
 type Action =
   | "set_disabled"
@@ -15,11 +17,6 @@ type Body = {
   disabled?: boolean;
 };
 
-function isUuid(v: any): v is string {
-  if (typeof v !== "string") return false;
-  return /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i.test(v);
-}
-
 function mustEnv(name: string) {
   const v = process.env[name];
   if (!v) throw new Error(`Missing env var: ${name}`);
@@ -54,9 +51,7 @@ export async function POST(req: Request) {
 
     const adminClient = getAdminClient();
 
-    // Resend
-    const resend = new Resend(mustEnv("RESEND_API_KEY"));
-    const from = mustEnv("RESEND_FROM_EMAIL"); // ex: "MyAutobiography <noreply@autobiography.iconpublishingllc.com>"
+    const mail = getMailTransport();
     const appUrl = mustEnv("NEXT_PUBLIC_APP_URL"); // ex: "https://autobiography-app-omega.vercel.app"
 
     async function getUserEmail(userId: string) {
@@ -67,14 +62,8 @@ export async function POST(req: Request) {
       return email;
     }
 
-    async function sendResendEmail(to: string, subject: string, html: string) {
-      const { error } = await resend.emails.send({
-        from,
-        to,
-        subject,
-        html
-      });
-      if (error) throw new Error(error.message);
+    async function sendEmail(to: string, email: RenderedEmail) {
+      await mail.send({ to, ...email });
     }
 
     // ============================
@@ -121,17 +110,7 @@ export async function POST(req: Request) {
         );
       }
 
-      await sendResendEmail(
-        email,
-        "Your MyAutobiography sign-in link",
-        `
-          <div style="font-family: Arial, sans-serif; line-height:1.5">
-            <p>Here is your secure sign-in link to MyAutobiography.</p>
-            <p><a href="${actionLink}">Sign in</a></p>
-            <p>If you did not request this, you can ignore this email.</p>
-          </div>
-        `
-      );
+      await sendEmail(email, renderEmail("sign_in_link", { actionLink }));
 
       return NextResponse.json({
         ok: true,
@@ -165,17 +144,7 @@ export async function POST(req: Request) {
         );
       }
 
-      await sendResendEmail(
-        email,
-        "Reset your MyAutobiography password",
-        `
-          <div style="font-family: Arial, sans-serif; line-height:1.5">
-            <p>Use the link below to reset your password.</p>
-            <p><a href="${actionLink}">Reset password</a></p>
-            <p>If you did not request this, you can ignore this email.</p>
-          </div>
-        `
-      );
+      await sendEmail(email, renderEmail("password_reset", { actionLink }));
 
       return NextResponse.json({
         ok: true,
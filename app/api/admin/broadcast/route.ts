@@ -0,0 +1,253 @@
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/server/requireAdmin";
+import { getAdminClient } from "@/lib/server/supabaseAdmin";
+import { loadUserOverview, type UserOverviewRow } from "@/lib/server/userOverview";
+import { renderEmail } from "@/lib/server/emailTemplates";
+import { getMailTransport } from "@/lib/server/mailTransport";
+import { emailActionUrl, listUnsubscribeHeaders } from "@/lib/server/emailLinks";
+import {
+  claimBroadcastDelivery,
+  markDeliveryFailed,
+  markDeliverySent
+} from "@/lib/server/emailDeliveries";
+import { isFilterKey, matchesFilter, type FilterKey } from "@/lib/userSegments";
+
+type Mode = "preview" | "send";
+
+type Body = {
+  mode: Mode;
+  filter: FilterKey;
+  subject: string;
+  body: string;
+};
+
+const MAX_SUBJECT_LENGTH = 200;
+const MAX_BODY_LENGTH = 20000;
+const SAMPLE_SIZE = 10;
+
+function mustEnv(name: string) {
+  const v = process.env[name];
+  if (!v) throw new Error(`Missing env var: ${name}`);
+  return v;
+}
+
+function badRequest(error: string) {
+  return NextResponse.json({ ok: false, error }, { status: 400 });
+}
+
+/**
+ * Splits a segment into people we will email and people we skip. Paused and
+ * disabled users never receive a broadcast, whatever filter was picked.
+ */
+function splitRecipients(users: UserOverviewRow[], filter: FilterKey) {
+  const matched = users.filter((u) => matchesFilter(u, filter));
+
+  const recipients: (UserOverviewRow & { email: string })[] = [];
+  let skippedDisabled = 0;
+  let skippedPaused = 0;
+  let skippedNoEmail = 0;
+
+  for (const u of matched) {
+    if (u.disabled) skippedDisabled++;
+    else if (u.email_paused) skippedPaused++;
+    else if (!u.email) skippedNoEmail++;
+    else recipients.push({ ...u, email: u.email });
+  }
+
+  return {
+    matched: matched.length,
+    recipients,
+    skipped: { disabled: skippedDisabled, paused: skippedPaused, noEmail: skippedNoEmail }
+  };
+}
+
+export async function POST(req: Request) {
+  try {
+    const adminCheck = await requireAdmin(req);
+    if (!adminCheck.ok) {
+      return NextResponse.json(
+        { ok: false, error: adminCheck.error },
+        { status: adminCheck.status }
+      );
+    }
+
+    const body = (await req.json().catch(() => null)) as Body | null;
+
+    if (body?.mode !== "preview" && body?.mode !== "send") {
+      return badRequest("mode must be preview or send");
+    }
+
+    if (!isFilterKey(body.filter)) {
+      return badRequest("Unknown filter");
+    }
+
+    const subject = typeof body.subject === "string" ? body.subject.trim() : "";
+    const text = typeof body.body === "string" ? body.body.trim() : "";
+
+    if (!subject || !text) {
+      return badRequest("Subject and body are required");
+    }
+
+    if (subject.length > MAX_SUBJECT_LENGTH) {
+      return badRequest(`Subject must be at most ${MAX_SUBJECT_LENGTH} characters`);
+    }
+
+    if (text.length > MAX_BODY_LENGTH) {
+      return badRequest(`Body must be at most ${MAX_BODY_LENGTH} characters`);
+    }
+
+    const appUrl = mustEnv("NEXT_PUBLIC_APP_URL");
+    const adminClient = getAdminClient();
+
+    const users = await loadUserOverview(adminClient);
+    const { matched, recipients, skipped } = splitRecipients(users, body.filter);
+
+    const renderFor = (userId: string, preferredName: string | null) =>
+      renderEmail("broadcast", {
+        preferredName,
+        subject,
+        body: text,
+        link: `${appUrl}/dashboard`,
+        preferenceLinks: {
+          pause: emailActionUrl(appUrl, userId, "pause"),
+          unsubscribe: emailActionUrl(appUrl, userId, "unsubscribe")
+        }
+      });
+
+    // ============================
+    // MODE: preview (nothing is sent or recorded)
+    // ============================
+    if (body.mode === "preview") {
+      const first = recipients[0];
+      const email = first
+        ? renderFor(first.id, first.preferred_name)
+        : renderEmail("broadcast", {
+            preferredName: "Sam",
+            subject,
+            body: text,
+            link: `${appUrl}/dashboard`,
+            preferenceLinks: {
+              pause: `${appUrl}/api/email/preferences?token=preview`,
+              unsubscribe: `${appUrl}/api/email/preferences?token=preview`
+            }
+          });
+
+      return NextResponse.json({
+        ok: true,
+        result: {
+          filter: body.filter,
+          matched,
+          recipientCount: recipients.length,
+          skipped,
+          sample: recipients.slice(0, SAMPLE_SIZE).map((u) => ({
+            id: u.id,
+            email: u.email,
+            preferred_name: u.preferred_name
+          })),
+          email
+        }
+      });
+    }
+
+    // ============================
+    // MODE: send
+    // ============================
+    if (!recipients.length) {
+      return badRequest("No recipients in this segment");
+    }
+
+    const mail = getMailTransport();
+    const skippedCount = skipped.disabled + skipped.paused + skipped.noEmail;
+
+    const { data: broadcast, error: broadcastErr } = await adminClient
+      .from("broadcasts")
+      .insert({
+        created_by: adminCheck.userId,
+        filter: body.filter,
+        subject,
+        body: text,
+        recipient_count: recipients.length,
+        skipped_count: skippedCount
+      })
+      .select("id")
+      .single();
+
+    if (broadcastErr) {
+      return NextResponse.json({ ok: false, error: broadcastErr.message }, { status: 500 });
+    }
+
+    const broadcastId = String(broadcast.id);
+
+    let sent = 0;
+    let failed = 0;
+    let unlogged = 0;
+
+    for (const u of recipients) {
+      const deliveryId = await claimBroadcastDelivery(adminClient, {
+        broadcastId,
+        userId: u.id,
+        provider: mail.name
+      });
+
+      if (!deliveryId) continue;
+
+      const email = renderFor(u.id, u.preferred_name);
+
+      let messageId: string | null = null;
+      try {
+        const res = await mail.send({
+          to: u.email,
+          ...email,
+          headers: listUnsubscribeHeaders(emailActionUrl(appUrl, u.id, "unsubscribe")),
+          idempotencyKey: `broadcast/${deliveryId}`
+        });
+        messageId = res.id;
+      } catch (sendErr: unknown) {
+        await markDeliveryFailed(
+          adminClient,
+          deliveryId,
+          sendErr instanceof Error ? sendErr.message : "Send failed"
+        );
+        failed++;
+        continue;
+      }
+
+      sent++;
+
+      // The email is already out, so a failed log write mustn't mark it
+      // failed. The row stays pending and is never claimed again.
+      try {
+        await markDeliverySent(adminClient, deliveryId, messageId);
+      } catch {
+        unlogged++;
+      }
+    }
+
+    const { error: updateErr } = await adminClient
+      .from("broadcasts")
+      .update({ sent_count: sent, failed_count: failed })
+      .eq("id", broadcastId);
+
+    if (updateErr) {
+      return NextResponse.json({ ok: false, error: updateErr.message }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      ok: true,
+      result: {
+        broadcastId,
+        filter: body.filter,
+        recipientCount: recipients.length,
+        sent,
+        failed,
+        unlogged,
+        skipped
+      }
+    });
+  } catch (err: unknown) {
+    return NextResponse.json(
+      { ok: false, error: err instanceof Error ? err.message : "Server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,236 @@
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/server/requireAdmin";
+import { getAdminClient } from "@/lib/server/supabaseAdmin";
+import { currentProgramWeek } from "@/lib/server/weeklySchedule";
+import { splitUnfinishedWeeks } from "@/lib/server/reminders";
+import { PROGRAM_WEEKS, isProgramWeek, progressStats } from "@/lib/program";
+import {
+  renderEmail,
+  type EmailPrompt,
+  type EmailTemplateName,
+  type RenderedEmail
+} from "@/lib/server/emailTemplates";
+import { isUuid } from "@/lib/uuid";
+
+const TEMPLATE_NAMES: EmailTemplateName[] = [
+  "weekly_prompt",
+  "reminder",
+  "broadcast",
+  "sign_in_link",
+  "password_reset",
+  "test"
+];
+
+const SAMPLE_PROMPT: EmailPrompt = {
+  week: 1,
+  title: "Where it all began",
+  category: "Early childhood",
+  coaching: "Start with whatever you remember first. Small details are welcome.",
+  questions: ["Where and when were you born?", "What is your earliest memory?"],
+  helpful_followups: ["Who was there?", "What did your home look like?"]
+};
+
+// Stands in for what an admin writes on the broadcast form
+const SAMPLE_BROADCAST = {
+  subject: "New: add photos to your stories",
+  body:
+    "You can now add photos to any week. Open a story and choose Add photo to include a picture with a caption.\n\n" +
+    "Photos appear alongside your writing in the book downloads too."
+};
+
+function isTemplateName(v: unknown): v is EmailTemplateName {
+  return typeof v === "string" && (TEMPLATE_NAMES as string[]).includes(v);
+}
+
+function badRequest(error: string) {
+  return NextResponse.json({ ok: false, error }, { status: 400 });
+}
+
+/**
+ * Renders an email template without sending it. Weekly prompts use the given
+ * user's real name, week and progress when user_id is passed; a broadcast
+ * shows a sample message, since its text is written when it is sent. Sign-in, reset
+ * and pause/unsubscribe links are always placeholders, so no live link is ever
+ * generated here.
+ */
+export async function GET(req: Request) {
+  try {
+    const adminCheck = await requireAdmin(req);
+    if (!adminCheck.ok) {
+      return NextResponse.json(
+        { ok: false, error: adminCheck.error },
+        { status: adminCheck.status }
+      );
+    }
+
+    const url = new URL(req.url);
+    const template = url.searchParams.get("template") ?? "weekly_prompt";
+    const userId = url.searchParams.get("user_id") || null;
+    const weekParam = url.searchParams.get("week");
+
+    if (!isTemplateName(template)) {
+      return badRequest(`template must be one of: ${TEMPLATE_NAMES.join(", ")}`);
+    }
+
+    if (userId && !isUuid(userId)) {
+      return badRequest("user_id must be a valid UUID");
+    }
+
+    let week: number | null = null;
+    if (weekParam) {
+      week = Number(weekParam);
+      if (!isProgramWeek(week)) {
+        return badRequest(`week must be a whole number from 1 to ${PROGRAM_WEEKS}`);
+      }
+    }
+
+    const appUrl = process.env.NEXT_PUBLIC_APP_URL || url.origin;
+    const sampleLink = `${appUrl}/login#preview`;
+    const samplePreferenceLinks = {
+      pause: `${appUrl}/api/email/preferences?token=preview-pause`,
+      unsubscribe: `${appUrl}/api/email/preferences?token=preview-unsubscribe`
+    };
+
+    let email: RenderedEmail;
+
+    if (template === "weekly_prompt") {
+      const adminClient = getAdminClient();
+
+      let preferredName: string | null = "Sam";
+      let completed = 12;
+
+      if (userId) {
+        const { data: profile, error: profErr } = await adminClient
+          .from("profiles")
+          .select("preferred_name, start_date, timezone")
+          .eq("id", userId)
+          .maybeSingle();
+
+        if (profErr) {
+          return NextResponse.json({ ok: false, error: profErr.message }, { status: 500 });
+        }
+
+        if (!profile) {
+          return NextResponse.json({ ok: false, error: "Profile not found" }, { status: 404 });
+        }
+
+        preferredName = profile.preferred_name ?? null;
+        if (week === null && profile.start_date) {
+          week = currentProgramWeek(String(profile.start_date), profile.timezone ?? null);
+        }
+
+        const { data: entryRows, error: entryErr } = await adminClient
+          .from("entries")
+          .select("week, content, status")
+          .eq("user_id", userId);
+
+        if (entryErr) {
+          return NextResponse.json({ ok: false, error: entryErr.message }, { status: 500 });
+        }
+
+        completed = progressStats(entryRows ?? []).complete;
+      }
+
+      const { data: promptRow, error: promptErr } = await adminClient
+        .from("prompts")
+        .select("week, title, category, coaching, questions, helpful_followups")
+        .eq("week", week ?? 1)
+        .maybeSingle();
+
+      if (promptErr) {
+        return NextResponse.json({ ok: false, error: promptErr.message }, { status: 500 });
+      }
+
+      email = renderEmail("weekly_prompt", {
+        preferredName,
+        prompt: (promptRow as EmailPrompt | null) ?? { ...SAMPLE_PROMPT, week: week ?? 1 },
+        completed,
+        link: `${appUrl}/week?week=${week ?? 1}`,
+        preferenceLinks: samplePreferenceLinks
+      });
+    } else if (template === "reminder") {
+      const adminClient = getAdminClient();
+
+      let preferredName: string | null = "Sam";
+      let entries: Array<{ week: number; content: string | null; status: string | null }> = [
+        { week: 2, content: "I remember the porch...", status: "in_progress" },
+        { week: 1, content: "I was born in...", status: "complete" }
+      ];
+
+      if (userId) {
+        const { data: profile, error: profErr } = await adminClient
+          .from("profiles")
+          .select("preferred_name")
+          .eq("id", userId)
+          .maybeSingle();
+
+        if (profErr) {
+          return NextResponse.json({ ok: false, error: profErr.message }, { status: 500 });
+        }
+
+        if (!profile) {
+          return NextResponse.json({ ok: false, error: "Profile not found" }, { status: 404 });
+        }
+
+        const { data: entryRows, error: entryErr } = await adminClient
+          .from("entries")
+          .select("week, content, status")
+          .eq("user_id", userId);
+
+        if (entryErr) {
+          return NextResponse.json({ ok: false, error: entryErr.message }, { status: 500 });
+        }
+
+        preferredName = profile.preferred_name ?? null;
+        entries = entryRows ?? [];
+      }
+
+      const { data: promptRows, error: promptErr } = await adminClient
+        .from("prompts")
+        .select("week, title")
+        .eq("active", true);
+
+      if (promptErr) {
+        return NextResponse.json({ ok: false, error: promptErr.message }, { status: 500 });
+      }
+
+      const prompts = promptRows?.length
+        ? promptRows
+        : Array.from({ length: PROGRAM_WEEKS }, (_, i) => ({ week: i + 1, title: `Week ${i + 1}` }));
+
+      const { inProgress, open } = splitUnfinishedWeeks(prompts, entries, appUrl);
+
+      email = renderEmail("reminder", {
+        preferredName,
+        inProgress,
+        open,
+        completed: progressStats(entries).complete,
+        link: `${appUrl}/dashboard`,
+        preferenceLinks: samplePreferenceLinks
+      });
+    } else if (template === "broadcast") {
+      email = renderEmail("broadcast", {
+        preferredName: "Sam",
+        ...SAMPLE_BROADCAST,
+        link: `${appUrl}/dashboard`,
+        preferenceLinks: samplePreferenceLinks
+      });
+    } else if (template === "sign_in_link") {
+      email = renderEmail("sign_in_link", { actionLink: sampleLink });
+    } else if (template === "password_reset") {
+      email = renderEmail("password_reset", { actionLink: sampleLink });
+    } else {
+      email = renderEmail("test", { sentAt: new Date() });
+    }
+
+    return NextResponse.json({
+      ok: true,
+      result: { template, templates: TEMPLATE_NAMES, ...email }
+    });
+  } catch (err: unknown) {
+    return NextResponse.json(
+      { ok: false, error: err instanceof Error ? err.message : "Server error" },
+      { status: 500 }
+    );
+  }
+}
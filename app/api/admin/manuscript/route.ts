@@ -0,0 +1,59 @@
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/server/requireAdmin";
+import { getAdminClient } from "@/lib/server/supabaseAdmin";
+import { loadManuscript } from "@/lib/server/manuscript";
+import {
+  isManuscriptFormat,
+  MANUSCRIPT_FORMATS,
+  readRenderOptions,
+  renderManuscript
+} from "@/lib/server/manuscriptFormats";
+import { isUuid } from "@/lib/uuid";
+
+/**
+ * Downloads any user's manuscript for an admin.
+ * GET ?user_id=&format=md|html|docx|epub|pdf, plus &trim= and &dedication= for PDF
+ */
+export async function GET(req: Request) {
+  try {
+    const adminCheck = await requireAdmin(req);
+    if (!adminCheck.ok) {
+      return NextResponse.json(
+        { ok: false, error: adminCheck.error },
+        { status: adminCheck.status }
+      );
+    }
+
+    const url = new URL(req.url);
+    const userId = url.searchParams.get("user_id");
+    const format = url.searchParams.get("format") ?? "pdf";
+
+    if (!isUuid(userId)) {
+      return NextResponse.json({ ok: false, error: "user_id must be a valid UUID" }, { status: 400 });
+    }
+
+    if (!isManuscriptFormat(format)) {
+      return NextResponse.json(
+        { ok: false, error: `format must be one of: ${MANUSCRIPT_FORMATS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const adminClient = getAdminClient();
+    const manuscript = await loadManuscript(adminClient, userId);
+    const file = await renderManuscript(manuscript, format, readRenderOptions(url.searchParams));
+
+    return new Response(file.body, {
+      headers: {
+        "content-type": file.contentType,
+        "content-disposition": `attachment; filename="${file.fileName}"`,
+        "cache-control": "no-store"
+      }
+    });
+  } catch (err: unknown) {
+    return NextResponse.json(
+      { ok: false, error: err instanceof Error ? err.message : "Server error" },
+      { status: 500 }
+    );
+  }
+}
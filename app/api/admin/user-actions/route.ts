@@ -1,44 +1,32 @@
 import { NextResponse } from "next/server";
 import { requireAdmin } from "@/lib/server/requireAdmin";
 import { getAdminClient } from "@/lib/server/supabaseAdmin";
-
-type ProfileRow = {
-  id: string;
-  email: string | null;
-  preferred_name: string | null;
-  start_date: string | null;
-  email_paused: boolean | null;
-  disabled: boolean | null;
-};
-
-type EntryRow = {
-  user_id: string;
-  status: string | null;
-  updated_at: string | null;
+import { isProgramWeek, parseStartDate } from "@/lib/program";
+import { photoFilesForEntries, removePhotoFiles } from "@/lib/server/entryPhotos";
+import { recordingFilesForEntries, removeRecordingFiles } from "@/lib/server/entryRecordings";
+import { isUuid } from "@/lib/uuid";
+
+type Action = "set_start_date" | "set_email_paused" | "reset_week" | "reset_all";
+
+type Body = {
+  action: Action;
+  target_user_id: string;
+  start_date?: string;
+  email_paused?: boolean;
+  week?: number;
 };
 
-function clamp(n: number, min: number, max: number) {
-  return Math.max(min, Math.min(max, n));
+function isIsoDate(v: unknown): v is string {
+  if (typeof v !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(v)) return false;
+  const d = parseStartDate(v);
+  return d !== null && d.toISOString().slice(0, 10) === v;
 }
 
-function computeCurrentWeek(startDate: string | null) {
-  if (!startDate) return null;
-  const start = new Date(`${startDate}T00:00:00`);
-  if (Number.isNaN(start.getTime())) return null;
-  const now = new Date();
-  const diffDays = Math.floor((now.getTime() - start.getTime()) / (1000 * 60 * 60 * 24));
-  const week = Math.floor(diffDays / 7) + 1;
-  return clamp(week, 1, 52);
+function badRequest(error: string) {
+  return NextResponse.json({ ok: false, error }, { status: 400 });
 }
 
-function normalizeStatus(s: string | null) {
-  const v = String(s ?? "").toLowerCase().trim();
-  if (v === "complete" || v === "completed") return "complete";
-  if (v === "in_progress" || v === "in progress" || v === "progress") return "in_progress";
-  return "open";
-}
-
-export async function GET(req: Request) {
+export async function POST(req: Request) {
   try {
     const adminCheck = await requireAdmin(req);
     if (!adminCheck.ok) {
@@ -48,101 +36,132 @@ export async function GET(req: Request) {
       );
     }
 
-    const adminClient = getAdminClient();
+    const body = (await req.json().catch(() => null)) as Body | null;
 
-    // 1) Get admin user ids so we can exclude them from the admin list
-    const { data: adminUsers, error: adminUsersErr } = await adminClient
-      .from("admin_users")
-      .select("user_id");
+    if (!body?.action || !body?.target_user_id) {
+      return badRequest("Missing action or target_user_id");
+    }
 
-    if (adminUsersErr) {
-      return NextResponse.json({ ok: false, error: adminUsersErr.message }, { status: 500 });
+    if (!isUuid(body.target_user_id)) {
+      return badRequest("target_user_id must be a valid UUID");
     }
 
-    const adminIds = new Set<string>((adminUsers ?? []).map((r: any) => String(r.user_id)));
+    const adminClient = getAdminClient();
+
+    // ============================
+    // ACTION: set program start date
+    // ============================
+    if (body.action === "set_start_date") {
+      if (!isIsoDate(body.start_date)) {
+        return badRequest("start_date must be a valid YYYY-MM-DD date");
+      }
 
-    // 2) Load all profiles (single tenant, fine). Exclude admin accounts in memory.
-    const { data: profiles, error: profilesErr } = await adminClient
-      .from("profiles")
-      .select("id, email, preferred_name, start_date, email_paused, disabled");
+      // Weekly emails are logged per start date, so a new date restarts them
+      // from the week it lands on
+      const { data, error } = await adminClient
+        .from("profiles")
+        .update({ start_date: body.start_date })
+        .eq("id", body.target_user_id)
+        .select("id, start_date")
+        .maybeSingle();
+
+      if (error) {
+        return NextResponse.json({ ok: false, error: error.message }, { status: 500 });
+      }
 
-    if (profilesErr) {
-      return NextResponse.json({ ok: false, error: profilesErr.message }, { status: 500 });
+      if (!data) {
+        return NextResponse.json({ ok: false, error: "Profile not found" }, { status: 404 });
+      }
+
+      return NextResponse.json({ ok: true, result: data });
     }
 
-    const nonAdminProfiles: ProfileRow[] = (profiles ?? []).filter(
-      (p: any) => p?.id && !adminIds.has(String(p.id))
-    );
+    // ============================
+    // ACTION: pause/resume weekly emails
+    // ============================
+    if (body.action === "set_email_paused") {
+      if (typeof body.email_paused !== "boolean") {
+        return badRequest("email_paused must be true or false");
+      }
 
-    const userIds = nonAdminProfiles.map((p) => p.id);
+      const { data, error } = await adminClient
+        .from("profiles")
+        .update({ email_paused: body.email_paused })
+        .eq("id", body.target_user_id)
+        .select("id, email_paused")
+        .maybeSingle();
 
-    // 3) Load entries for those users and compute stats
-    let entries: EntryRow[] = [];
-    if (userIds.length) {
-      const { data: entriesData, error: entriesErr } = await adminClient
-        .from("entries")
-        .select("user_id, status, updated_at")
-        .in("user_id", userIds);
+      if (error) {
+        return NextResponse.json({ ok: false, error: error.message }, { status: 500 });
+      }
 
-      if (entriesErr) {
-        return NextResponse.json({ ok: false, error: entriesErr.message }, { status: 500 });
+      if (!data) {
+        return NextResponse.json({ ok: false, error: "Profile not found" }, { status: 404 });
       }
 
-      entries = (entriesData ?? []) as EntryRow[];
+      return NextResponse.json({ ok: true, result: data });
     }
 
-    const statsByUser = new Map<
-      string,
-      { open: number; in_progress: number; complete: number; last_activity: string | null }
-    >();
+    // ============================
+    // ACTION: reset a single week
+    // ============================
+    if (body.action === "reset_week") {
+      if (!isProgramWeek(body.week)) {
+        return badRequest("week must be a whole number from 1 to 52");
+      }
+
+      // Photo and recording rows go with the entry; their files have to be removed here
+      const photos = await photoFilesForEntries(adminClient, { userId: body.target_user_id, week: body.week });
+      const recordings = await recordingFilesForEntries(adminClient, { userId: body.target_user_id, week: body.week });
+
+      const { data, error } = await adminClient
+        .from("entries")
+        .delete()
+        .eq("user_id", body.target_user_id)
+        .eq("week", body.week)
+        .select("id");
+
+      if (error) {
+        return NextResponse.json({ ok: false, error: error.message }, { status: 500 });
+      }
+
+      await removePhotoFiles(photos);
+      await removeRecordingFiles(recordings);
 
-    for (const id of userIds) {
-      statsByUser.set(id, { open: 0, in_progress: 0, complete: 0, last_activity: null });
+      return NextResponse.json({
+        ok: true,
+        result: { week: body.week, deleted: (data ?? []).length }
+      });
     }
 
-    for (const e of entries) {
-      const uid = String(e.user_id);
-      const s = statsByUser.get(uid);
-      if (!s) continue;
+    // ============================
+    // ACTION: reset all entries
+    // ============================
+    if (body.action === "reset_all") {
+      const photos = await photoFilesForEntries(adminClient, { userId: body.target_user_id });
+      const recordings = await recordingFilesForEntries(adminClient, { userId: body.target_user_id });
 
-      const st = normalizeStatus(e.status);
-      if (st === "complete") s.complete += 1;
-      else if (st === "in_progress") s.in_progress += 1;
-      else s.open += 1;
+      const { data, error } = await adminClient
+        .from("entries")
+        .delete()
+        .eq("user_id", body.target_user_id)
+        .select("id");
 
-      const t = e.updated_at ? new Date(e.updated_at).getTime() : NaN;
-      if (!Number.isNaN(t)) {
-        const prev = s.last_activity ? new Date(s.last_activity).getTime() : NaN;
-        if (Number.isNaN(prev) || t > prev) s.last_activity = e.updated_at!;
+      if (error) {
+        return NextResponse.json({ ok: false, error: error.message }, { status: 500 });
       }
+
+      await removePhotoFiles(photos);
+      await removeRecordingFiles(recordings);
+
+      return NextResponse.json({ ok: true, result: { deleted: (data ?? []).length } });
     }
 
-    const result = nonAdminProfiles.map((p) => {
-      const s = statsByUser.get(p.id) ?? { open: 0, in_progress: 0, complete: 0, last_activity: null };
-      const currentWeek = computeCurrentWeek(p.start_date);
-      const percentComplete = Math.round((s.complete / 52) * 100);
-
-      return {
-        id: p.id,
-        email: p.email,
-        preferred_name: p.preferred_name,
-        start_date: p.start_date,
-        current_week: currentWeek,
-        email_paused: Boolean(p.email_paused),
-        disabled: Boolean(p.disabled),
-        open_count: s.open,
-        in_progress_count: s.in_progress,
-        complete_count: s.complete,
-        percent_complete: percentComplete,
-        last_activity: s.last_activity
-      };
-    });
-
-    return NextResponse.json({ ok: true, result });
-  } catch (err: any) {
+    return badRequest("Unknown action");
+  } catch (err: unknown) {
     return NextResponse.json(
-      { ok: false, error: err?.message ?? "Server error" },
+      { ok: false, error: err instanceof Error ? err.message : "Server error" },
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
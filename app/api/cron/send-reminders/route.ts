@@ -0,0 +1,183 @@
+import { NextResponse } from "next/server";
+import { getAdminClient } from "@/lib/server/supabaseAdmin";
+import { loadUserOverview, type UserOverviewRow } from "@/lib/server/userOverview";
+import { daysSince, isNeedsAttention } from "@/lib/userSegments";
+import { getReminderSettings, splitUnfinishedWeeks } from "@/lib/server/reminders";
+import { renderEmail } from "@/lib/server/emailTemplates";
+import { getMailTransport } from "@/lib/server/mailTransport";
+import { emailActionUrl, listUnsubscribeHeaders } from "@/lib/server/emailLinks";
+import {
+  claimReminderDelivery,
+  loadReminderHistory,
+  markDeliveryFailed,
+  markDeliverySent
+} from "@/lib/server/emailDeliveries";
+
+function mustEnv(name: string) {
+  const v = process.env[name];
+  if (!v) throw new Error(`Missing env var: ${name}`);
+  return v;
+}
+
+export async function GET(req: Request) {
+  try {
+    // Cron auth
+    const cronSecret = mustEnv("CRON_SECRET");
+    const authHeader = req.headers.get("authorization") || "";
+    if (authHeader !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+    }
+
+    const mail = getMailTransport();
+    const appUrl = mustEnv("NEXT_PUBLIC_APP_URL");
+    const settings = getReminderSettings();
+
+    const adminClient = getAdminClient();
+
+    const users = await loadUserOverview(adminClient);
+
+    const { data: promptRows, error: promptErr } = await adminClient
+      .from("prompts")
+      .select("week, title")
+      .eq("active", true);
+
+    if (promptErr) {
+      return NextResponse.json({ ok: false, error: promptErr.message }, { status: 500 });
+    }
+
+    const now = new Date();
+
+    let sent = 0;
+    let failed = 0;
+    let unlogged = 0;
+    let skippedActive = 0;
+    let skippedPaused = 0;
+    let skippedNoEmail = 0;
+    let skippedRecent = 0;
+    let skippedCapped = 0;
+
+    const candidates: Array<UserOverviewRow & { email: string }> = [];
+
+    for (const u of users) {
+      if (u.disabled || !isNeedsAttention(u, settings.inactiveDays, now)) {
+        skippedActive++;
+        continue;
+      }
+
+      if (u.email_paused) {
+        skippedPaused++;
+        continue;
+      }
+
+      if (!u.email) {
+        skippedNoEmail++;
+        continue;
+      }
+
+      candidates.push({ ...u, email: u.email });
+    }
+
+    // Only the people who might get a reminder today
+    const history = await loadReminderHistory(adminClient, candidates.map((u) => u.id));
+
+    for (const u of candidates) {
+      // Only reminders since the user last wrote count toward the cap
+      const lastActivity = new Date(u.last_activity ?? 0).getTime();
+      const reminders = (history.get(u.id) ?? []).filter((t) => new Date(t).getTime() > lastActivity);
+
+      if (reminders.length >= settings.maxPerUser) {
+        skippedCapped++;
+        continue;
+      }
+
+      const sinceLast = daysSince(reminders[0] ?? null, now);
+      if (sinceLast !== null && sinceLast < settings.intervalDays) {
+        skippedRecent++;
+        continue;
+      }
+
+      const { data: entryRows, error: entryErr } = await adminClient
+        .from("entries")
+        .select("week, content, status")
+        .eq("user_id", u.id);
+
+      if (entryErr) {
+        failed++;
+        continue;
+      }
+
+      const deliveryId = await claimReminderDelivery(adminClient, {
+        userId: u.id,
+        week: u.current_week,
+        provider: mail.name
+      });
+
+      if (!deliveryId) {
+        skippedRecent++;
+        continue;
+      }
+
+      const { inProgress, open } = splitUnfinishedWeeks(promptRows ?? [], entryRows ?? [], appUrl);
+      const unsubscribeUrl = emailActionUrl(appUrl, u.id, "unsubscribe");
+
+      const email = renderEmail("reminder", {
+        preferredName: u.preferred_name,
+        inProgress,
+        open,
+        completed: u.complete_count,
+        link: `${appUrl}/dashboard`,
+        preferenceLinks: {
+          pause: emailActionUrl(appUrl, u.id, "pause"),
+          unsubscribe: unsubscribeUrl
+        }
+      });
+
+      let messageId: string | null = null;
+      try {
+        const res = await mail.send({
+          to: u.email,
+          ...email,
+          headers: listUnsubscribeHeaders(unsubscribeUrl),
+          idempotencyKey: `reminder/${deliveryId}`
+        });
+        messageId = res.id;
+      } catch (sendErr: unknown) {
+        await markDeliveryFailed(
+          adminClient,
+          deliveryId,
+          sendErr instanceof Error ? sendErr.message : "Send failed"
+        );
+        failed++;
+        continue;
+      }
+
+      sent++;
+
+      // The reminder is already out, so a failed log write mustn't mark it
+      // failed. The row stays pending, which still counts as a reminder.
+      try {
+        await markDeliverySent(adminClient, deliveryId, messageId);
+      } catch {
+        unlogged++;
+      }
+    }
+
+    return NextResponse.json({
+      ok: true,
+      settings,
+      sent,
+      failed,
+      unlogged,
+      skippedActive,
+      skippedPaused,
+      skippedNoEmail,
+      skippedRecent,
+      skippedCapped
+    });
+  } catch (err: unknown) {
+    return NextResponse.json(
+      { ok: false, error: err instanceof Error ? err.message : "Server error" },
+      { status: 500 }
+    );
+  }
+}
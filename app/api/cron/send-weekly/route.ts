@@ -1,6 +1,32 @@
 import { NextResponse } from "next/server";
-import { Resend } from "resend";
 import { getAdminClient } from "@/lib/server/supabaseAdmin";
+import { decideWeeklySend } from "@/lib/server/weeklySchedule";
+import { progressStats } from "@/lib/program";
+import { renderEmail } from "@/lib/server/emailTemplates";
+import { getMailTransport } from "@/lib/server/mailTransport";
+import { emailActionUrl, listUnsubscribeHeaders } from "@/lib/server/emailLinks";
+import {
+  claimWeeklyDelivery,
+  loadLastSentWeeks,
+  markDeliveryFailed,
+  markDeliverySent
+} from "@/lib/server/emailDeliveries";
+
+type PromptRow = {
+  prompt_key: string;
+  week: number;
+  title: string;
+  category: string;
+  coaching: string;
+  questions: string[];
+  helpful_followups: string[];
+};
+
+type EntryRow = {
+  week: number;
+  content: string | null;
+  status: string | null;
+};
 
 function mustEnv(name: string) {
   const v = process.env[name];
@@ -17,8 +43,7 @@ export async function GET(req: Request) {
       return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
     }
 
-    const resend = new Resend(mustEnv("RESEND_API_KEY"));
-    const from = mustEnv("RESEND_FROM_EMAIL");
+    const mail = getMailTransport();
     const appUrl = mustEnv("NEXT_PUBLIC_APP_URL");
 
     const adminClient = getAdminClient();
@@ -26,19 +51,45 @@ export async function GET(req: Request) {
     // Get active, non-disabled users
     const { data: profiles, error: profErr } = await adminClient
       .from("profiles")
-      .select("id, email, preferred_name, start_date, email_day, email_paused, disabled")
+      .select(
+        "id, email, preferred_name, start_date, preferred_email_day, timezone, email_paused, disabled"
+      )
       .eq("disabled", false);
 
     if (profErr) {
       return NextResponse.json({ ok: false, error: profErr.message }, { status: 500 });
     }
 
+    const { data: promptRows, error: promptErr } = await adminClient
+      .from("prompts")
+      .select("prompt_key, week, title, category, coaching, questions, helpful_followups")
+      .eq("active", true);
+
+    if (promptErr) {
+      return NextResponse.json({ ok: false, error: promptErr.message }, { status: 500 });
+    }
+
+    const promptByWeek = new Map<number, PromptRow>();
+    for (const row of (promptRows ?? []) as PromptRow[]) promptByWeek.set(Number(row.week), row);
+
+    // Delivery log is the source of truth for what has already gone out
+    const lastSentWeeks = await loadLastSentWeeks(
+      adminClient,
+      (profiles ?? []).map((p) => String(p.id))
+    );
+
     const now = new Date();
 
     let sent = 0;
+    let caughtUp = 0;
+    let failed = 0;
     let skippedPaused = 0;
     let skippedNoStart = 0;
     let skippedNoEmail = 0;
+    let skippedNotDue = 0;
+    let skippedAlreadySent = 0;
+    let skippedInFlight = 0;
+    let skippedNoPrompt = 0;
 
     for (const p of profiles ?? []) {
       if (!p?.email) {
@@ -56,49 +107,106 @@ export async function GET(req: Request) {
         continue;
       }
 
-      // Compute current week from start_date
-      const start = new Date(String(p.start_date) + "T00:00:00");
-      const diffMs = now.getTime() - start.getTime();
-      const diffDays = Math.floor(diffMs / (1000 * 60 * 60 * 24));
-      const week = Math.max(1, Math.min(52, Math.floor(diffDays / 7) + 1));
+      // Only send on the user's chosen day (in their time zone), once per program week
+      const decision = decideWeeklySend({
+        startDate: String(p.start_date),
+        emailDay: p.preferred_email_day ?? null,
+        timeZone: p.timezone ?? null,
+        lastSentWeek: lastSentWeeks.get(String(p.id)) ?? null,
+        now
+      });
+
+      if (!decision.send) {
+        if (decision.reason === "already_sent") skippedAlreadySent++;
+        else if (decision.reason === "not_started") skippedNoStart++;
+        else skippedNotDue++;
+        continue;
+      }
 
-      // Get prompt for that week
-      const { data: prompt, error: promptErr } = await adminClient
-        .from("prompts")
-        .select("week, title, question, prompt_key")
-        .eq("week", week)
-        .single();
+      const week = decision.week;
 
-      if (promptErr || !prompt) {
+      const prompt = promptByWeek.get(week);
+      if (!prompt) {
+        skippedNoPrompt++;
+        continue;
+      }
+
+      const claim = await claimWeeklyDelivery(adminClient, {
+        userId: String(p.id),
+        programStart: String(p.start_date),
+        week,
+        promptKey: prompt.prompt_key ?? null,
+        provider: mail.name
+      });
+
+      if (!claim.claimed) {
+        if (claim.reason === "already_sent") skippedAlreadySent++;
+        else if (claim.reason === "in_flight") skippedInFlight++;
+        else failed++;
+        continue;
+      }
+
+      const { data: entryRows, error: entryErr } = await adminClient
+        .from("entries")
+        .select("week, content, status")
+        .eq("user_id", p.id);
+
+      if (entryErr) {
+        await markDeliveryFailed(adminClient, claim.deliveryId, entryErr.message);
+        failed++;
         continue;
       }
 
       const link = `${appUrl}/week?week=${week}`;
 
-      await resend.emails.send({
-        from,
-        to: p.email,
-        subject: `Week ${week}: ${prompt.title ?? "Your autobiography prompt"}`,
-        html: `
-          <div style="font-family: Arial, sans-serif; line-height:1.5">
-            <p>Hello${p.preferred_name ? " " + String(p.preferred_name) : ""},</p>
-            <p><strong>Week ${week}</strong></p>
-            <p>${prompt.question ? String(prompt.question) : ""}</p>
-            <p><a href="${link}">Open this week’s question</a></p>
-            <p style="opacity:0.7;font-size:12px">If you did not request these emails, you can ignore this message.</p>
-          </div>
-        `
+      const unsubscribeUrl = emailActionUrl(appUrl, String(p.id), "unsubscribe");
+
+      const email = renderEmail("weekly_prompt", {
+        preferredName: p.preferred_name ?? null,
+        prompt,
+        completed: progressStats((entryRows ?? []) as EntryRow[]).complete,
+        link,
+        preferenceLinks: {
+          pause: emailActionUrl(appUrl, String(p.id), "pause"),
+          unsubscribe: unsubscribeUrl
+        }
       });
 
+      let messageId: string | null = null;
+      try {
+        const res = await mail.send({
+          to: p.email,
+          ...email,
+          headers: listUnsubscribeHeaders(unsubscribeUrl),
+          // Guards against a duplicate if we crash between sending and logging
+          idempotencyKey: `weekly/${claim.deliveryId}/${claim.attempt}`
+        });
+        messageId = res.id;
+      } catch (sendErr: unknown) {
+        const msg = sendErr instanceof Error ? sendErr.message : "Send failed";
+        await markDeliveryFailed(adminClient, claim.deliveryId, msg);
+        failed++;
+        continue;
+      }
+
+      await markDeliverySent(adminClient, claim.deliveryId, messageId);
+
       sent++;
+      if (decision.catchUp) caughtUp++;
     }
 
     return NextResponse.json({
       ok: true,
       sent,
+      caughtUp,
+      failed,
       skippedPaused,
       skippedNoStart,
-      skippedNoEmail
+      skippedNoEmail,
+      skippedNotDue,
+      skippedAlreadySent,
+      skippedInFlight,
+      skippedNoPrompt
     });
   } catch (err: any) {
     return NextResponse.json(
@@ -0,0 +1,123 @@
+import { NextResponse } from "next/server";
+import { getAdminClient } from "@/lib/server/supabaseAdmin";
+import { escapeHtml } from "@/lib/escape";
+import {
+  emailActionUrl,
+  verifyEmailActionToken,
+  type EmailLinkAction
+} from "@/lib/server/emailLinks";
+
+export const runtime = "nodejs";
+
+const COPY: Record<EmailLinkAction, { ask: string; button: string; done: string }> = {
+  pause: {
+    ask: "Pause your weekly MyAutobiography emails?",
+    button: "Pause emails",
+    done: "Your weekly emails are paused. Your writing is safe, and you can resume at any time."
+  },
+  unsubscribe: {
+    ask: "Stop receiving weekly MyAutobiography emails?",
+    button: "Unsubscribe",
+    done: "You have been unsubscribed from weekly emails. You can still sign in and write whenever you like."
+  },
+  resume: {
+    ask: "Start receiving weekly MyAutobiography emails again?",
+    button: "Resume emails",
+    done: "Your weekly emails are back on. The next one arrives on your chosen day."
+  }
+};
+
+function page(body: string, status = 200) {
+  const html = `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>MyAutobiography email preferences</title>
+</head>
+<body style="font-family: Arial, sans-serif; line-height:1.5; max-width:520px; margin:48px auto; padding:0 16px">
+<h1 style="font-size:22px">MyAutobiography</h1>
+${body}
+</body>
+</html>`;
+
+  return new NextResponse(html, {
+    status,
+    headers: { "content-type": "text/html; charset=utf-8", "cache-control": "no-store" }
+  });
+}
+
+function linkError(error: "invalid" | "expired") {
+  return page(
+    error === "expired"
+      ? "<p>This link has expired. Use the link in your most recent email, or change email settings from your profile.</p>"
+      : "<p>This link is not valid. Use the link in your most recent email, or change email settings from your profile.</p>",
+    400
+  );
+}
+
+function appUrlFor(req: Request) {
+  return process.env.NEXT_PUBLIC_APP_URL || new URL(req.url).origin;
+}
+
+/**
+ * Shows a confirmation button rather than acting on GET, so link scanners and
+ * prefetchers cannot pause someone's emails by opening the link.
+ */
+export async function GET(req: Request) {
+  try {
+    const token = new URL(req.url).searchParams.get("token");
+    const check = verifyEmailActionToken(token);
+    if (!check.ok) return linkError(check.error);
+
+    const copy = COPY[check.action];
+    return page(`
+<p>${escapeHtml(copy.ask)}</p>
+<form method="post" action="?token=${escapeHtml(encodeURIComponent(token ?? ""))}">
+  <button type="submit" style="font-size:16px;padding:8px 16px;border:1px solid #333;border-radius:8px;background:#fff">
+    ${escapeHtml(copy.button)}
+  </button>
+</form>`);
+  } catch {
+    // The link can't be checked (e.g. no signing secret configured)
+    return linkError("invalid");
+  }
+}
+
+/**
+ * Applies the action. Also the target of mail clients' one-click unsubscribe
+ * (List-Unsubscribe-Post), which sends the token in the URL.
+ */
+export async function POST(req: Request) {
+  try {
+    const token = new URL(req.url).searchParams.get("token");
+    const check = verifyEmailActionToken(token);
+    if (!check.ok) return linkError(check.error);
+
+    const adminClient = getAdminClient();
+
+    const { data, error } = await adminClient
+      .from("profiles")
+      .update({ email_paused: check.action !== "resume" })
+      .eq("id", check.userId)
+      .select("id")
+      .maybeSingle();
+
+    if (error) {
+      return page("<p>Something went wrong updating your email settings. Please try again.</p>", 500);
+    }
+
+    if (!data) return linkError("invalid");
+
+    const undo =
+      check.action === "resume"
+        ? emailActionUrl(appUrlFor(req), check.userId, "pause")
+        : emailActionUrl(appUrlFor(req), check.userId, "resume");
+
+    return page(`
+<p>${escapeHtml(COPY[check.action].done)}</p>
+<p style="font-size:14px"><a href="${escapeHtml(undo)}">${check.action === "resume" ? "Pause again" : "Changed your mind? Resume emails"}</a></p>`);
+  } catch {
+    return page("<p>Something went wrong updating your email settings. Please try again.</p>", 500);
+  }
+}
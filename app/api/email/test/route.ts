@@ -1,23 +1,25 @@
 import { NextResponse } from "next/server";
-import { Resend } from "resend";
+import { renderEmail } from "@/lib/server/emailTemplates";
+import { getMailTransport } from "@/lib/server/mailTransport";
 
 export const runtime = "nodejs";
 
 export async function GET() {
-  const apiKey = process.env.RESEND_API_KEY;
   const to = process.env.TEST_EMAIL_TO;
 
-  if (!apiKey) return NextResponse.json({ error: "Missing RESEND_API_KEY" }, { status: 500 });
   if (!to) return NextResponse.json({ error: "Missing TEST_EMAIL_TO" }, { status: 500 });
 
-  const resend = new Resend(apiKey);
+  try {
+    const mail = getMailTransport();
+    const email = renderEmail("test", { sentAt: new Date() });
 
-  const result = await resend.emails.send({
-    from: "Autobiography <weekly@autobiography.iconpublishingllc.com>",
-    to,
-    subject: "Test email from Autobiography app",
-    html: "<p>This is a test email. If you received this, Resend is working.</p>"
-  });
+    const result = await mail.send({ to, ...email });
 
-  return NextResponse.json({ ok: true, result });
+    return NextResponse.json({ ok: true, result: { transport: mail.name, ...result } });
+  } catch (err: unknown) {
+    return NextResponse.json(
+      { ok: false, error: err instanceof Error ? err.message : "Send failed" },
+      { status: 500 }
+    );
+  }
 }
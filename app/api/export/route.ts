@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { requireUser } from "@/lib/server/requireUser";
+import { getAdminClient } from "@/lib/server/supabaseAdmin";
+import { loadDataExport, zipDataExport } from "@/lib/server/dataExport";
+
+/**
+ * Downloads everything stored for the signed-in user as a ZIP.
+ */
+export async function GET(req: Request) {
+  try {
+    const userCheck = await requireUser(req);
+    if (!userCheck.ok) {
+      return NextResponse.json(
+        { ok: false, error: userCheck.error },
+        { status: userCheck.status }
+      );
+    }
+
+    const adminClient = getAdminClient();
+    const bundle = await loadDataExport(adminClient, userCheck.userId);
+    const zip = zipDataExport(bundle);
+    const day = bundle.data.exported_at.slice(0, 10);
+
+    return new Response(zip, {
+      headers: {
+        "content-type": "application/zip",
+        "content-disposition": `attachment; filename="myautobiography-export-${day}.zip"`,
+        "cache-control": "no-store"
+      }
+    });
+  } catch (err: unknown) {
+    return NextResponse.json(
+      { ok: false, error: err instanceof Error ? err.message : "Server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+import { requireUser } from "@/lib/server/requireUser";
+import { getAdminClient } from "@/lib/server/supabaseAdmin";
+import { loadManuscript } from "@/lib/server/manuscript";
+import {
+  isManuscriptFormat,
+  MANUSCRIPT_FORMATS,
+  readRenderOptions,
+  renderManuscript
+} from "@/lib/server/manuscriptFormats";
+
+/**
+ * Downloads the signed-in user's manuscript.
+ * GET ?format=md|html|docx|epub|pdf, plus &trim= and &dedication= for PDF
+ */
+export async function GET(req: Request) {
+  try {
+    const userCheck = await requireUser(req);
+    if (!userCheck.ok) {
+      return NextResponse.json(
+        { ok: false, error: userCheck.error },
+        { status: userCheck.status }
+      );
+    }
+
+    const url = new URL(req.url);
+    const format = url.searchParams.get("format") ?? "md";
+
+    if (!isManuscriptFormat(format)) {
+      return NextResponse.json(
+        { ok: false, error: `format must be one of: ${MANUSCRIPT_FORMATS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const adminClient = getAdminClient();
+    const manuscript = await loadManuscript(adminClient, userCheck.userId);
+    const file = await renderManuscript(manuscript, format, readRenderOptions(url.searchParams));
+
+    return new Response(file.body, {
+      headers: {
+        "content-type": file.contentType,
+        "content-disposition": `attachment; filename="${file.fileName}"`,
+        "cache-control": "no-store"
+      }
+    });
+  } catch (err: unknown) {
+    return NextResponse.json(
+      { ok: false, error: err instanceof Error ? err.message : "Server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,68 @@
+import { NextResponse } from "next/server";
+import { requireUser } from "@/lib/server/requireUser";
+import { getAdminClient } from "@/lib/server/supabaseAdmin";
+import { getFileStorage } from "@/lib/server/fileStorage";
+import { isAdminUser } from "@/lib/server/requireAdmin";
+import { photoKey } from "@/lib/server/entryPhotos";
+import { isUuid } from "@/lib/uuid";
+
+/**
+ * Serves a photo image to its owner or an admin; the same rule as the
+ * entry_photos read policies, applied here because the files aren't behind RLS.
+ * GET ?id=&size=full|thumb
+ */
+export async function GET(req: Request) {
+  try {
+    const userCheck = await requireUser(req);
+    if (!userCheck.ok) {
+      return NextResponse.json(
+        { ok: false, error: userCheck.error },
+        { status: userCheck.status }
+      );
+    }
+
+    const url = new URL(req.url);
+    const id = url.searchParams.get("id");
+    const size = url.searchParams.get("size") === "thumb" ? "thumb" : "full";
+
+    if (!isUuid(id)) {
+      return NextResponse.json({ ok: false, error: "id must be a valid UUID" }, { status: 400 });
+    }
+
+    const adminClient = getAdminClient();
+    const { data: photo, error } = await adminClient
+      .from("entry_photos")
+      .select("id, user_id")
+      .eq("id", id)
+      .maybeSingle();
+
+    if (error) {
+      return NextResponse.json({ ok: false, error: error.message }, { status: 500 });
+    }
+
+    // Someone else's photo reads the same as a missing one
+    const allowed =
+      !!photo && (photo.user_id === userCheck.userId || (await isAdminUser(adminClient, userCheck.userId)));
+    if (!photo || !allowed) {
+      return NextResponse.json({ ok: false, error: "Photo not found" }, { status: 404 });
+    }
+
+    const key = photoKey({ id: String(photo.id), user_id: String(photo.user_id) }, size);
+    const body = await getFileStorage("entry-photos").get(key);
+    if (!body) {
+      return NextResponse.json({ ok: false, error: "Photo file is missing" }, { status: 404 });
+    }
+
+    return new Response(new Uint8Array(body), {
+      headers: {
+        "content-type": "image/jpeg",
+        "cache-control": "private, max-age=3600"
+      }
+    });
+  } catch (err: unknown) {
+    return NextResponse.json(
+      { ok: false, error: err instanceof Error ? err.message : "Server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,251 @@
+import { randomUUID } from "node:crypto";
+import { NextResponse } from "next/server";
+import { requireUser } from "@/lib/server/requireUser";
+import { getAdminClient } from "@/lib/server/supabaseAdmin";
+import { getFileStorage } from "@/lib/server/fileStorage";
+import { jpegSize, photoKey, removePhotoFiles } from "@/lib/server/entryPhotos";
+import {
+  MAX_CAPTION_LENGTH,
+  MAX_PHOTO_BYTES,
+  MAX_PHOTOS_PER_ENTRY,
+  MAX_THUMB_BYTES,
+  PHOTO_COLUMNS
+} from "@/lib/entryPhotos";
+import { isUuid } from "@/lib/uuid";
+
+type PatchBody = {
+  // Caption change for one photo
+  id?: string;
+  caption?: string | null;
+  // New order for all of an entry's photos
+  entry_id?: string;
+  order?: string[];
+};
+
+function badRequest(error: string) {
+  return NextResponse.json({ ok: false, error }, { status: 400 });
+}
+
+function notFound(error: string) {
+  return NextResponse.json({ ok: false, error }, { status: 404 });
+}
+
+function cleanCaption(v: unknown) {
+  const s = typeof v === "string" ? v.trim() : "";
+  return s ? s.slice(0, MAX_CAPTION_LENGTH) : null;
+}
+
+async function fileBytes(v: FormDataEntryValue | null) {
+  return v instanceof Blob ? new Uint8Array(await v.arrayBuffer()) : null;
+}
+
+/**
+ * Adds a photo to one of the signed-in user's entries.
+ * POST multipart: entry_id, caption, photo (JPEG), thumb (JPEG)
+ */
+export async function POST(req: Request) {
+  try {
+    const userCheck = await requireUser(req);
+    if (!userCheck.ok) {
+      return NextResponse.json(
+        { ok: false, error: userCheck.error },
+        { status: userCheck.status }
+      );
+    }
+
+    const form = await req.formData().catch(() => null);
+    if (!form) return badRequest("Expected a multipart form");
+
+    const entryId = form.get("entry_id");
+    if (!isUuid(entryId)) return badRequest("entry_id must be a valid UUID");
+
+    const photo = await fileBytes(form.get("photo"));
+    const thumb = await fileBytes(form.get("thumb"));
+    if (!photo || !thumb) return badRequest("photo and thumb files are required");
+    if (photo.length > MAX_PHOTO_BYTES || thumb.length > MAX_THUMB_BYTES) {
+      return badRequest("Photo is too large");
+    }
+
+    const size = jpegSize(photo);
+    if (!size || !jpegSize(thumb)) return badRequest("Photos must be JPEG images");
+
+    const adminClient = getAdminClient();
+
+    const { data: entry, error: entryErr } = await adminClient
+      .from("entries")
+      .select("id, user_id")
+      .eq("id", entryId)
+      .maybeSingle();
+
+    if (entryErr) {
+      return NextResponse.json({ ok: false, error: entryErr.message }, { status: 500 });
+    }
+
+    if (!entry || entry.user_id !== userCheck.userId) return notFound("Entry not found");
+
+    const { data: existing, error: existingErr } = await adminClient
+      .from("entry_photos")
+      .select("position")
+      .eq("entry_id", entryId)
+      .order("position", { ascending: false });
+
+    if (existingErr) {
+      return NextResponse.json({ ok: false, error: existingErr.message }, { status: 500 });
+    }
+
+    if ((existing ?? []).length >= MAX_PHOTOS_PER_ENTRY) {
+      return badRequest(`An entry can have at most ${MAX_PHOTOS_PER_ENTRY} photos`);
+    }
+
+    const row = {
+      id: randomUUID(),
+      entry_id: entryId,
+      user_id: userCheck.userId,
+      caption: cleanCaption(form.get("caption")),
+      position: existing?.length ? Number(existing[0].position) + 1 : 0,
+      width: size.width,
+      height: size.height,
+      byte_size: photo.length
+    };
+
+    // Files first, so a row never points at a photo that isn't there
+    const storage = getFileStorage("entry-photos");
+    await storage.put(photoKey(row, "full"), photo, "image/jpeg");
+    await storage.put(photoKey(row, "thumb"), thumb, "image/jpeg");
+
+    const { data, error } = await adminClient.from("entry_photos").insert(row).select(PHOTO_COLUMNS).single();
+
+    if (error) {
+      await removePhotoFiles([row]).catch(() => undefined);
+      return NextResponse.json({ ok: false, error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ ok: true, result: data });
+  } catch (err: unknown) {
+    return NextResponse.json(
+      { ok: false, error: err instanceof Error ? err.message : "Server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Edits a caption ({ id, caption }) or reorders an entry's photos
+ * ({ entry_id, order: [photo ids] }).
+ */
+export async function PATCH(req: Request) {
+  try {
+    const userCheck = await requireUser(req);
+    if (!userCheck.ok) {
+      return NextResponse.json(
+        { ok: false, error: userCheck.error },
+        { status: userCheck.status }
+      );
+    }
+
+    const body = (await req.json().catch(() => null)) as PatchBody | null;
+    const adminClient = getAdminClient();
+
+    if (body?.id !== undefined) {
+      if (!isUuid(body.id)) return badRequest("id must be a valid UUID");
+
+      const { data, error } = await adminClient
+        .from("entry_photos")
+        .update({ caption: cleanCaption(body.caption) })
+        .eq("id", body.id)
+        .eq("user_id", userCheck.userId)
+        .select(PHOTO_COLUMNS)
+        .maybeSingle();
+
+      if (error) {
+        return NextResponse.json({ ok: false, error: error.message }, { status: 500 });
+      }
+
+      if (!data) return notFound("Photo not found");
+      return NextResponse.json({ ok: true, result: data });
+    }
+
+    if (body?.entry_id !== undefined) {
+      if (!isUuid(body.entry_id)) return badRequest("entry_id must be a valid UUID");
+      if (!Array.isArray(body.order) || !body.order.every(isUuid)) {
+        return badRequest("order must be a list of photo ids");
+      }
+
+      const { data: current, error: currentErr } = await adminClient
+        .from("entry_photos")
+        .select("id")
+        .eq("entry_id", body.entry_id)
+        .eq("user_id", userCheck.userId);
+
+      if (currentErr) {
+        return NextResponse.json({ ok: false, error: currentErr.message }, { status: 500 });
+      }
+
+      // The order must name each of the entry's photos exactly once
+      const ids = new Set((current ?? []).map((p) => String(p.id)));
+      const complete =
+        body.order.length === ids.size &&
+        new Set(body.order).size === ids.size &&
+        body.order.every((id) => ids.has(id));
+      if (!complete) return badRequest("order must list every photo of the entry once");
+
+      for (const [position, id] of body.order.entries()) {
+        const { error } = await adminClient.from("entry_photos").update({ position }).eq("id", id);
+        if (error) {
+          return NextResponse.json({ ok: false, error: error.message }, { status: 500 });
+        }
+      }
+
+      return NextResponse.json({ ok: true, result: { entry_id: body.entry_id, order: body.order } });
+    }
+
+    return badRequest("Send { id, caption } or { entry_id, order }");
+  } catch (err: unknown) {
+    return NextResponse.json(
+      { ok: false, error: err instanceof Error ? err.message : "Server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Removes one of the signed-in user's photos.
+ * DELETE ?id=
+ */
+export async function DELETE(req: Request) {
+  try {
+    const userCheck = await requireUser(req);
+    if (!userCheck.ok) {
+      return NextResponse.json(
+        { ok: false, error: userCheck.error },
+        { status: userCheck.status }
+      );
+    }
+
+    const id = new URL(req.url).searchParams.get("id");
+    if (!isUuid(id)) return badRequest("id must be a valid UUID");
+
+    const adminClient = getAdminClient();
+    const { data, error } = await adminClient
+      .from("entry_photos")
+      .delete()
+      .eq("id", id)
+      .eq("user_id", userCheck.userId)
+      .select("id, user_id")
+      .maybeSingle();
+
+    if (error) {
+      return NextResponse.json({ ok: false, error: error.message }, { status: 500 });
+    }
+
+    if (!data) return notFound("Photo not found");
+
+    await removePhotoFiles([{ id: String(data.id), user_id: String(data.user_id) }]);
+    return NextResponse.json({ ok: true, result: { id } });
+  } catch (err: unknown) {
+    return NextResponse.json(
+      { ok: false, error: err instanceof Error ? err.message : "Server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,67 @@
+import { NextResponse } from "next/server";
+import { requireUser } from "@/lib/server/requireUser";
+import { getAdminClient } from "@/lib/server/supabaseAdmin";
+import { getFileStorage } from "@/lib/server/fileStorage";
+import { isAdminUser } from "@/lib/server/requireAdmin";
+import { recordingKey } from "@/lib/server/entryRecordings";
+import { isUuid } from "@/lib/uuid";
+
+/**
+ * Serves a recording's audio to its owner or an admin, matching the
+ * entry_recordings read policies.
+ * GET ?id=
+ */
+export async function GET(req: Request) {
+  try {
+    const userCheck = await requireUser(req);
+    if (!userCheck.ok) {
+      return NextResponse.json(
+        { ok: false, error: userCheck.error },
+        { status: userCheck.status }
+      );
+    }
+
+    const id = new URL(req.url).searchParams.get("id");
+    if (!isUuid(id)) {
+      return NextResponse.json({ ok: false, error: "id must be a valid UUID" }, { status: 400 });
+    }
+
+    const adminClient = getAdminClient();
+    const { data: recording, error } = await adminClient
+      .from("entry_recordings")
+      .select("id, user_id, content_type")
+      .eq("id", id)
+      .maybeSingle();
+
+    if (error) {
+      return NextResponse.json({ ok: false, error: error.message }, { status: 500 });
+    }
+
+    // Someone else's recording reads the same as a missing one
+    const allowed =
+      !!recording &&
+      (recording.user_id === userCheck.userId || (await isAdminUser(adminClient, userCheck.userId)));
+    if (!recording || !allowed) {
+      return NextResponse.json({ ok: false, error: "Recording not found" }, { status: 404 });
+    }
+
+    const contentType = String(recording.content_type);
+    const key = recordingKey({ id: String(recording.id), user_id: String(recording.user_id), content_type: contentType });
+    const body = await getFileStorage("entry-recordings").get(key);
+    if (!body) {
+      return NextResponse.json({ ok: false, error: "Recording file is missing" }, { status: 404 });
+    }
+
+    return new Response(new Uint8Array(body), {
+      headers: {
+        "content-type": contentType,
+        "cache-control": "private, max-age=3600"
+      }
+    });
+  } catch (err: unknown) {
+    return NextResponse.json(
+      { ok: false, error: err instanceof Error ? err.message : "Server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,162 @@
+import { randomUUID } from "node:crypto";
+import { NextResponse } from "next/server";
+import { requireUser } from "@/lib/server/requireUser";
+import { getAdminClient } from "@/lib/server/supabaseAdmin";
+import { getFileStorage } from "@/lib/server/fileStorage";
+import { recordingKey, removeRecordingFiles, transcribeRecording } from "@/lib/server/entryRecordings";
+import {
+  MAX_RECORDING_BYTES,
+  MAX_RECORDING_SECONDS,
+  MAX_RECORDINGS_PER_ENTRY,
+  baseContentType,
+  recordingExtension
+} from "@/lib/entryRecordings";
+import { isUuid } from "@/lib/uuid";
+
+export const runtime = "nodejs";
+// Transcription runs inside the upload request
+export const maxDuration = 120;
+
+function badRequest(error: string) {
+  return NextResponse.json({ ok: false, error }, { status: 400 });
+}
+
+function notFound(error: string) {
+  return NextResponse.json({ ok: false, error }, { status: 404 });
+}
+
+function cleanDuration(v: FormDataEntryValue | null) {
+  const n = Number(v);
+  if (!Number.isFinite(n) || n <= 0) return null;
+  return Math.min(Math.round(n), MAX_RECORDING_SECONDS * 1000);
+}
+
+/**
+ * Adds a spoken answer to one of the signed-in user's entries and transcribes
+ * it. The recording is kept even if transcription fails.
+ * POST multipart: entry_id, duration_ms, audio
+ */
+export async function POST(req: Request) {
+  try {
+    const userCheck = await requireUser(req);
+    if (!userCheck.ok) {
+      return NextResponse.json(
+        { ok: false, error: userCheck.error },
+        { status: userCheck.status }
+      );
+    }
+
+    const form = await req.formData().catch(() => null);
+    if (!form) return badRequest("Expected a multipart form");
+
+    const entryId = form.get("entry_id");
+    if (!isUuid(entryId)) return badRequest("entry_id must be a valid UUID");
+
+    const file = form.get("audio");
+    if (!(file instanceof Blob) || !file.size) return badRequest("audio file is required");
+    if (file.size > MAX_RECORDING_BYTES) return badRequest("Recording is too large");
+
+    const contentType = baseContentType(file.type);
+    if (!recordingExtension(contentType)) return badRequest(`Unsupported audio type: ${file.type || "unknown"}`);
+
+    const adminClient = getAdminClient();
+
+    const { data: entry, error: entryErr } = await adminClient
+      .from("entries")
+      .select("id, user_id")
+      .eq("id", entryId)
+      .maybeSingle();
+
+    if (entryErr) {
+      return NextResponse.json({ ok: false, error: entryErr.message }, { status: 500 });
+    }
+
+    if (!entry || entry.user_id !== userCheck.userId) return notFound("Entry not found");
+
+    const { count, error: countErr } = await adminClient
+      .from("entry_recordings")
+      .select("id", { count: "exact", head: true })
+      .eq("entry_id", entryId);
+
+    if (countErr) {
+      return NextResponse.json({ ok: false, error: countErr.message }, { status: 500 });
+    }
+
+    if ((count ?? 0) >= MAX_RECORDINGS_PER_ENTRY) {
+      return badRequest(`An entry can have at most ${MAX_RECORDINGS_PER_ENTRY} recordings`);
+    }
+
+    const audio = new Uint8Array(await file.arrayBuffer());
+    const row = {
+      id: randomUUID(),
+      entry_id: entryId,
+      user_id: userCheck.userId,
+      content_type: contentType,
+      duration_ms: cleanDuration(form.get("duration_ms")),
+      byte_size: audio.length
+    };
+
+    // File first, so a row never points at audio that isn't there
+    await getFileStorage("entry-recordings").put(recordingKey(row), audio, contentType);
+
+    const { error } = await adminClient.from("entry_recordings").insert(row);
+
+    if (error) {
+      await removeRecordingFiles([row]).catch(() => undefined);
+      return NextResponse.json({ ok: false, error: error.message }, { status: 500 });
+    }
+
+    const result = await transcribeRecording(adminClient, row, audio);
+    return NextResponse.json({ ok: true, result });
+  } catch (err: unknown) {
+    return NextResponse.json(
+      { ok: false, error: err instanceof Error ? err.message : "Server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Removes one of the signed-in user's recordings. Text already added to the
+ * entry stays.
+ * DELETE ?id=
+ */
+export async function DELETE(req: Request) {
+  try {
+    const userCheck = await requireUser(req);
+    if (!userCheck.ok) {
+      return NextResponse.json(
+        { ok: false, error: userCheck.error },
+        { status: userCheck.status }
+      );
+    }
+
+    const id = new URL(req.url).searchParams.get("id");
+    if (!isUuid(id)) return badRequest("id must be a valid UUID");
+
+    const adminClient = getAdminClient();
+    const { data, error } = await adminClient
+      .from("entry_recordings")
+      .delete()
+      .eq("id", id)
+      .eq("user_id", userCheck.userId)
+      .select("id, user_id, content_type")
+      .maybeSingle();
+
+    if (error) {
+      return NextResponse.json({ ok: false, error: error.message }, { status: 500 });
+    }
+
+    if (!data) return notFound("Recording not found");
+
+    await removeRecordingFiles([
+      { id: String(data.id), user_id: String(data.user_id), content_type: String(data.content_type) }
+    ]);
+    return NextResponse.json({ ok: true, result: { id } });
+  } catch (err: unknown) {
+    return NextResponse.json(
+      { ok: false, error: err instanceof Error ? err.message : "Server error" },
+      { status: 500 }
+    );
+  }
+}
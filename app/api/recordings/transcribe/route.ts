@@ -0,0 +1,70 @@
+import { NextResponse } from "next/server";
+import { requireUser } from "@/lib/server/requireUser";
+import { getAdminClient } from "@/lib/server/supabaseAdmin";
+import { getFileStorage } from "@/lib/server/fileStorage";
+import { recordingKey, transcribeRecording } from "@/lib/server/entryRecordings";
+import { isUuid } from "@/lib/uuid";
+
+export const runtime = "nodejs";
+export const maxDuration = 120;
+
+type Body = {
+  id?: string;
+};
+
+/**
+ * Transcribes one of the signed-in user's recordings again, e.g. after the
+ * engine was unavailable when it was uploaded.
+ * POST { id }
+ */
+export async function POST(req: Request) {
+  try {
+    const userCheck = await requireUser(req);
+    if (!userCheck.ok) {
+      return NextResponse.json(
+        { ok: false, error: userCheck.error },
+        { status: userCheck.status }
+      );
+    }
+
+    const body = (await req.json().catch(() => null)) as Body | null;
+    if (!isUuid(body?.id)) {
+      return NextResponse.json({ ok: false, error: "id must be a valid UUID" }, { status: 400 });
+    }
+
+    const adminClient = getAdminClient();
+    const { data: recording, error } = await adminClient
+      .from("entry_recordings")
+      .select("id, user_id, content_type")
+      .eq("id", body.id)
+      .eq("user_id", userCheck.userId)
+      .maybeSingle();
+
+    if (error) {
+      return NextResponse.json({ ok: false, error: error.message }, { status: 500 });
+    }
+
+    if (!recording) {
+      return NextResponse.json({ ok: false, error: "Recording not found" }, { status: 404 });
+    }
+
+    const ref = {
+      id: String(recording.id),
+      user_id: String(recording.user_id),
+      content_type: String(recording.content_type)
+    };
+
+    const audio = await getFileStorage("entry-recordings").get(recordingKey(ref));
+    if (!audio) {
+      return NextResponse.json({ ok: false, error: "Recording file is missing" }, { status: 404 });
+    }
+
+    const result = await transcribeRecording(adminClient, ref, audio);
+    return NextResponse.json({ ok: true, result });
+  } catch (err: unknown) {
+    return NextResponse.json(
+      { ok: false, error: err instanceof Error ? err.message : "Server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,333 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import { supabase } from "@/lib/supabaseClient";
+import { downloadFromApi } from "@/lib/download";
+import {
+  buildManuscript,
+  readBookOrder,
+  type BookOrder,
+  type BookOrderMode,
+  type ManuscriptEntry,
+  type ManuscriptPhotoRef,
+  type ManuscriptPrompt
+} from "@/lib/manuscript";
+import { blockToPlainText } from "@/lib/richText";
+import RichTextView from "@/components/RichTextView";
+
+type ProfileRow = {
+  id: string;
+  preferred_name: string | null;
+  book_order: string | null;
+  book_chapter_order: number[] | null;
+};
+
+const MODE_LABELS: Record<BookOrderMode, string> = {
+  week: "Week order",
+  life_stage: "Life stage",
+  custom: "My own order"
+};
+
+const MODE_HINTS: Record<BookOrderMode, string> = {
+  week: "Chapters follow the 52 prompts in order.",
+  life_stage:
+    "Chapters are grouped by the life stage you picked for each week, from early childhood to reflection. Weeks without a life stage come last.",
+  custom: "Drag chapters, or use the arrows, to put them in any order you like."
+};
+
+function sameOrder(a: BookOrder, b: BookOrder) {
+  if (a.mode !== b.mode) return false;
+  if (a.mode !== "custom") return true;
+  return a.weeks.length === b.weeks.length && a.weeks.every((w, i) => w === b.weeks[i]);
+}
+
+export default function BookClient() {
+  const router = useRouter();
+
+  const [loading, setLoading] = useState(true);
+  const [message, setMessage] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const [profile, setProfile] = useState<ProfileRow | null>(null);
+  const [prompts, setPrompts] = useState<ManuscriptPrompt[]>([]);
+  const [entries, setEntries] = useState<ManuscriptEntry[]>([]);
+  const [photos, setPhotos] = useState<ManuscriptPhotoRef[]>([]);
+
+  const [order, setOrder] = useState<BookOrder>({ mode: "week", weeks: [] });
+  const [savedOrder, setSavedOrder] = useState<BookOrder>({ mode: "week", weeks: [] });
+
+  const [dragWeek, setDragWeek] = useState<number | null>(null);
+  const [expandedWeek, setExpandedWeek] = useState<number | null>(null);
+
+  useEffect(() => {
+    async function load() {
+      setLoading(true);
+      setMessage(null);
+
+      const { data: auth } = await supabase.auth.getUser();
+      if (!auth.user) {
+        router.push("/login");
+        return;
+      }
+
+      const { data: profileRow, error: profErr } = await supabase
+        .from("profiles")
+        .select("id, preferred_name, book_order, book_chapter_order")
+        .eq("id", auth.user.id)
+        .single();
+
+      if (profErr) {
+        setMessage(`Profile load error: ${profErr.message}`);
+        setLoading(false);
+        return;
+      }
+
+      const { data: promptRows, error: promptErr } = await supabase
+        .from("prompts")
+        .select("week, title")
+        .eq("active", true);
+
+      if (promptErr) {
+        setMessage(`Prompt list error: ${promptErr.message}`);
+        setLoading(false);
+        return;
+      }
+
+      const { data: entryRows, error: entryErr } = await supabase
+        .from("entries")
+        .select("id, week, title, content, content_doc, status, life_stage")
+        .eq("user_id", auth.user.id);
+
+      if (entryErr) {
+        setMessage(`Entry list error: ${entryErr.message}`);
+        setLoading(false);
+        return;
+      }
+
+      // A week with only photos is still a chapter in the downloads
+      const { data: photoRows, error: photoErr } = await supabase
+        .from("entry_photos")
+        .select("entry_id, caption, position")
+        .eq("user_id", auth.user.id);
+
+      if (photoErr) {
+        setMessage(`Photo list error: ${photoErr.message}`);
+        setLoading(false);
+        return;
+      }
+
+      const p = profileRow as ProfileRow;
+      const saved = readBookOrder(p.book_order, p.book_chapter_order);
+
+      setProfile(p);
+      setPrompts((promptRows ?? []) as ManuscriptPrompt[]);
+      setEntries((entryRows ?? []) as ManuscriptEntry[]);
+      setPhotos((photoRows ?? []) as ManuscriptPhotoRef[]);
+      setOrder(saved);
+      setSavedOrder(saved);
+      setLoading(false);
+    }
+
+    void load();
+  }, [router]);
+
+  const manuscript = useMemo(
+    () =>
+      buildManuscript({
+        preferredName: profile?.preferred_name ?? null,
+        prompts,
+        entries,
+        photos,
+        order
+      }),
+    [profile, prompts, entries, photos, order]
+  );
+
+  const isDirty = !sameOrder(order, savedOrder);
+
+  function setMode(mode: BookOrderMode) {
+    // Custom order starts from whatever is on screen right now
+    if (mode === "custom" && order.mode !== "custom") {
+      setOrder({ mode, weeks: manuscript.chapters.map((c) => c.week) });
+      return;
+    }
+    setOrder({ ...order, mode });
+  }
+
+  function moveWeek(week: number, toIndex: number) {
+    const weeks = manuscript.chapters.map((c) => c.week).filter((w) => w !== week);
+    const clamped = Math.max(0, Math.min(weeks.length, toIndex));
+    weeks.splice(clamped, 0, week);
+    setOrder({ mode: "custom", weeks });
+  }
+
+  async function saveOrder() {
+    if (!profile) return false;
+
+    setBusy(true);
+    setMessage(null);
+
+    const { error } = await supabase
+      .from("profiles")
+      .update({ book_order: order.mode, book_chapter_order: order.mode === "custom" ? order.weeks : [] })
+      .eq("id", profile.id);
+
+    setBusy(false);
+
+    if (error) {
+      setMessage(`Save error: ${error.message}`);
+      return false;
+    }
+
+    setSavedOrder(order);
+    setMessage("Chapter order saved.");
+    return true;
+  }
+
+  async function downloadPdf() {
+    if (isDirty && !(await saveOrder())) return;
+
+    setBusy(true);
+
+    const { data: sessionRes } = await supabase.auth.getSession();
+    const token = sessionRes?.session?.access_token;
+
+    if (!token) {
+      setMessage("No session token. Please sign in again.");
+      setBusy(false);
+      return;
+    }
+
+    const res = await downloadFromApi("/api/manuscript?format=pdf", token, "autobiography.pdf");
+    if (!res.ok) setMessage(`Manuscript download error: ${res.error}`);
+    setBusy(false);
+  }
+
+  if (loading) return <div className="p-6">Loading your book...</div>;
+
+  const cardClass = "border rounded-xl p-4";
+  const buttonClass = "rounded-lg border px-3 py-2";
+  const miniButtonClass = "rounded border px-2 py-1 text-xs";
+
+  return (
+    <div className="min-h-screen">
+      <div className="max-w-4xl mx-auto p-6 space-y-4">
+        <div className="flex items-center justify-between gap-3 flex-wrap">
+          <div>
+            <div className="text-sm opacity-80 cursor-pointer" onClick={() => router.push("/dashboard")}>
+              Dashboard
+            </div>
+            <h1 className="text-2xl font-semibold">Arrange your book</h1>
+          </div>
+          <div className="flex gap-2 flex-wrap">
+            <button className={buttonClass} onClick={saveOrder} disabled={busy || !isDirty}>
+              {isDirty ? "Save order" : "Saved"}
+            </button>
+            <button className={buttonClass} onClick={downloadPdf} disabled={busy || !manuscript.chapters.length}>
+              {busy ? "Working..." : "Download PDF"}
+            </button>
+          </div>
+        </div>
+
+        <div className={cardClass}>
+          <div className="font-semibold">{manuscript.title}</div>
+          <div className="mt-3 flex gap-2 flex-wrap">
+            {(Object.keys(MODE_LABELS) as BookOrderMode[]).map((mode) => (
+              <button
+                key={mode}
+                className={`${buttonClass} ${order.mode === mode ? "font-semibold bg-gray-100" : ""}`}
+                onClick={() => setMode(mode)}
+                disabled={busy}
+              >
+                {MODE_LABELS[mode]}
+              </button>
+            ))}
+          </div>
+          <div className="mt-2 text-sm opacity-80">{MODE_HINTS[order.mode]}</div>
+          <div className="mt-1 text-xs opacity-70">
+            Downloads from the dashboard use the saved order.
+          </div>
+        </div>
+
+        {message ? <div className={cardClass}>{message}</div> : null}
+
+        <div className={cardClass}>
+          {manuscript.chapters.length === 0 ? (
+            <div className="text-sm opacity-80">Nothing written yet. Chapters appear here as you write.</div>
+          ) : (
+            <ol className="space-y-2">
+              {manuscript.chapters.map((c, i) => (
+                <li
+                  key={c.week}
+                  draggable={!busy}
+                  onDragStart={() => setDragWeek(c.week)}
+                  onDragEnd={() => setDragWeek(null)}
+                  onDragOver={(e) => e.preventDefault()}
+                  onDrop={(e) => {
+                    e.preventDefault();
+                    if (dragWeek !== null && dragWeek !== c.week) moveWeek(dragWeek, i);
+                    setDragWeek(null);
+                  }}
+                  className={dragWeek === c.week ? "opacity-50" : ""}
+                >
+                  {c.partTitle ? <div className="mt-3 mb-1 text-sm font-semibold">{c.partTitle}</div> : null}
+
+                  <div className="border rounded-lg p-3 bg-white cursor-move">
+                    <div className="flex items-center justify-between gap-3">
+                      <div
+                        className="cursor-pointer"
+                        onClick={() => setExpandedWeek(expandedWeek === c.week ? null : c.week)}
+                      >
+                        <div className="text-sm font-semibold">
+                          Chapter {c.number}: {c.title}
+                        </div>
+                        <div className="text-xs opacity-70">
+                          Week {c.week}
+                          {c.title !== c.promptTitle ? ` · ${c.promptTitle}` : ""}
+                          {c.lifeStage ? ` · ${c.lifeStage}` : ""}
+                          {c.complete ? "" : " · in progress"}
+                        </div>
+                      </div>
+
+                      <div className="flex gap-1 shrink-0">
+                        <button
+                          className={miniButtonClass}
+                          onClick={() => moveWeek(c.week, i - 1)}
+                          disabled={busy || i === 0}
+                          aria-label={`Move chapter ${c.number} up`}
+                        >
+                          ↑
+                        </button>
+                        <button
+                          className={miniButtonClass}
+                          onClick={() => moveWeek(c.week, i + 1)}
+                          disabled={busy || i === manuscript.chapters.length - 1}
+                          aria-label={`Move chapter ${c.number} down`}
+                        >
+                          ↓
+                        </button>
+                      </div>
+                    </div>
+
+                    {!c.blocks.length ? null : expandedWeek === c.week ? (
+                      <RichTextView blocks={c.blocks} className="mt-2 text-sm" />
+                    ) : (
+                      <div className="mt-1 text-xs opacity-80 line-clamp-2">{blockToPlainText(c.blocks[0])}</div>
+                    )}
+
+                    {c.photos.length ? (
+                      <div className="mt-1 text-xs opacity-80">
+                        {c.photos.length === 1 ? "1 photo" : `${c.photos.length} photos`}
+                      </div>
+                    ) : null}
+                  </div>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,5 @@
+import BookClient from "./BookClient";
+
+export default function BookPage() {
+  return <BookClient />;
+}
@@ -1,47 +1,27 @@
 "use client";
 
-import { useEffect, useMemo, useState } from "react";
+import { useMemo, useState } from "react";
 import { supabase } from "@/lib/supabaseClient";
+import { downloadFromApi } from "@/lib/download";
+import { useWriterData } from "@/hooks/useWriterData";
+import type { SavedEntry } from "@/lib/entrySave";
+import { 
+  PROGRAM_WEEKS,
+  deriveDisplayStatus,
+  hasEntryText,
+  normalizeEntryStatus,
+  progressStats,
+  weekStartDate,
+  type DisplayStatus,
+  type EntryStatus
+ } from "@/lib/program";
 import { useRouter } from "next/navigation";
 
-type PromptRow = {
-  prompt_key: string;
-  week: number;
-  title: string;
-};
-
-type EntryRow = {
-  id: string;
-  week: number;
-  content: string;
-  status: string | null;
-  updated_at?: string;
-};
-
-type ProfileRow = {
-  start_date: string | null;
-};
-
-type EntryStatusMode = "in_progress" | "complete";
-type DisplayStatus = "Open" | "In Progress" | "Complete";
-
-function clampWeek(n: number) {
-  return Math.max(1, Math.min(52, n));
-}
+type EntryRow = SavedEntry;
 
-function weekFromStartDate(startDateISO: string) {
-  const start = new Date(startDateISO + "T00:00:00Z");
-  const now = new Date();
-  const msPerDay = 24 * 60 * 60 * 1000;
-  const days = Math.floor((now.getTime() - start.getTime()) / msPerDay);
-  return clampWeek(Math.floor(days / 7) + 1);
-}
+type ManuscriptFormat = "md" | "html" | "docx" | "epub" | "pdf";
+type PdfTrimSize = "6x9" | "5.5x8.5" | "a5";
 
-function addDays(date: Date, days: number) {
-  const d = new Date(date.getTime());
-  d.setUTCDate(d.getUTCDate() + days);
-  return d;
-}
 
 function formatDateShort(d: Date) {
   try {
@@ -55,89 +35,18 @@ function formatDateShort(d: Date) {
   }
 }
 
-function normalizeEntryStatus(raw: string | null | undefined): EntryStatusMode {
-  if (raw === "complete") return "complete";
-  return "in_progress";
-}
-
-function deriveDisplayStatus(entry: EntryRow | undefined): DisplayStatus {
-  if (!entry) return "Open";
-  const hasText = (entry.content ?? "").trim().length > 0;
-  if (!hasText) return "Open";
-  return normalizeEntryStatus(entry.status) === "complete" ? "Complete" : "In Progress";
-}
-
 export default function DashboardOverviewClient() {
   const router = useRouter();
 
-  const [loading, setLoading] = useState(true);
-  const [message, setMessage] = useState<string | null>(null);
+  const { loading, error, profile, prompts, entries, updateEntryStatus, currentWeek } = useWriterData();
+  const startDate = profile?.start_date ?? null;
 
-  const [prompts, setPrompts] = useState<PromptRow[]>([]);
-  const [entries, setEntries] = useState<EntryRow[]>([]);
-  const [startDate, setStartDate] = useState<string | null>(null);
-  const [currentWeek, setCurrentWeek] = useState<number>(1);
+  const [message, setMessage] = useState<string | null>(null);
   const [busyWeek, setBusyWeek] = useState<number | null>(null);
-
-  useEffect(() => {
-    async function load() {
-      setLoading(true);
-      setMessage(null);
-
-      const { data: auth } = await supabase.auth.getUser();
-      if (!auth.user) {
-        router.push("/login");
-        return;
-      }
-
-      const { data: profile, error: profErr } = await supabase
-        .from("profiles")
-        .select("start_date")
-        .eq("id", auth.user.id)
-        .single();
-
-      if (profErr) {
-        setMessage(`Profile load error: ${profErr.message}`);
-        setLoading(false);
-        return;
-      }
-
-      const prof = profile as ProfileRow;
-      setStartDate(prof?.start_date ?? null);
-
-      if (prof?.start_date) setCurrentWeek(weekFromStartDate(prof.start_date));
-      else setCurrentWeek(1);
-
-      const { data: promptRows, error: promptErr } = await supabase
-        .from("prompts")
-        .select("prompt_key, week, title")
-        .eq("active", true)
-        .order("week", { ascending: true });
-
-      if (promptErr) {
-        setMessage(`Prompt list error: ${promptErr.message}`);
-        setLoading(false);
-        return;
-      }
-
-      const { data: entryRows, error: entryErr } = await supabase
-        .from("entries")
-        .select("id, week, content, status, updated_at")
-        .eq("user_id", auth.user.id);
-
-      if (entryErr) {
-        setMessage(`Entry list error: ${entryErr.message}`);
-        setLoading(false);
-        return;
-      }
-
-      setPrompts((promptRows ?? []) as PromptRow[]);
-      setEntries((entryRows ?? []) as EntryRow[]);
-      setLoading(false);
-    }
-
-    void load();
-  }, [router]);
+  const [manuscriptFormat, setManuscriptFormat] = useState<ManuscriptFormat>("md");
+  const [downloading, setDownloading] = useState(false);
+  const [pdfTrim, setPdfTrim] = useState<PdfTrimSize>("6x9");
+  const [dedication, setDedication] = useState("");
 
   const entryByWeek = useMemo(() => {
     const m = new Map<number, EntryRow>();
@@ -145,35 +54,15 @@ export default function DashboardOverviewClient() {
     return m;
   }, [entries]);
 
-  // Lifecycle counts:
   // Open: no entry OR blank content
   // In Progress: has content, not complete
   // Complete: has content, complete
-  const lifecycle = useMemo(() => {
-    let openCount = 0;
-    let inProgressCount = 0;
-    let completeCount = 0;
-
-    for (let w = 1; w <= 52; w++) {
-      const e = entryByWeek.get(w);
-      const status = deriveDisplayStatus(e);
-
-      if (status === "Open") openCount += 1;
-      if (status === "In Progress") inProgressCount += 1;
-      if (status === "Complete") completeCount += 1;
-    }
-
-    return { openCount, inProgressCount, completeCount };
-  }, [entryByWeek]);
-
-  const progressPct = useMemo(() => {
-    return Math.round((lifecycle.completeCount / 52) * 100);
-  }, [lifecycle.completeCount]);
+  const lifecycle = useMemo(() => progressStats(entries), [entries]);
 
   const startEndDates = useMemo(() => {
-    if (!startDate) return { startText: "-", endText: "-" };
-    const start = new Date(startDate + "T00:00:00Z");
-    const projectedEnd = addDays(start, 51 * 7);
+    const start = weekStartDate(startDate, 1);
+    const projectedEnd = weekStartDate(startDate, PROGRAM_WEEKS);
+    if (!start || !projectedEnd) return { startText: "-", endText: "-" };
     return {
       startText: formatDateShort(start),
       endText: formatDateShort(projectedEnd)
@@ -184,13 +73,11 @@ export default function DashboardOverviewClient() {
   // - Complete (week asc)
   // - In Progress + Open (In Progress first, then Open; both week asc)
   const rowLists = useMemo(() => {
-    const base = startDate ? new Date(startDate + "T00:00:00Z") : null;
-
     const all = prompts
       .map((p) => {
         const e = entryByWeek.get(p.week);
         const displayStatus = deriveDisplayStatus(e);
-        const scheduled = base ? addDays(base, (p.week - 1) * 7) : null;
+        const scheduled = weekStartDate(startDate, p.week);
 
         return {
           week: p.week,
@@ -217,28 +104,49 @@ export default function DashboardOverviewClient() {
     router.push("/login");
   }
 
+  async function downloadManuscript() {
+    setDownloading(true);
+    setMessage(null);
+
+    const { data: sessionRes } = await supabase.auth.getSession();
+    const token = sessionRes?.session?.access_token;
+
+    if (!token) {
+      setMessage("No session token. Please sign in again.");
+      setDownloading(false);
+      return;
+    }
+
+    const qs = new URLSearchParams({ format: manuscriptFormat });
+    if (manuscriptFormat === "pdf") {
+      qs.set("trim", pdfTrim);
+      if (dedication.trim()) qs.set("dedication", dedication.trim());
+    }
+
+    const res = await downloadFromApi(
+      `/api/manuscript?${qs.toString()}`,
+      token,
+      `autobiography.${manuscriptFormat}`
+    );
+
+    if (!res.ok) setMessage(`Manuscript download error: ${res.error}`);
+    setDownloading(false);
+  }
+
   async function toggleComplete(week: number) {
     const e = entryByWeek.get(week);
     if (!e) return;
 
-    const hasText = (e.content ?? "").trim().length > 0;
-    if (!hasText) return;
+    if (!hasEntryText(e)) return;
 
     const current = normalizeEntryStatus(e.status);
-    const next: EntryStatusMode = current === "complete" ? "in_progress" : "complete";
+    const next: EntryStatus = current === "complete" ? "in_progress" : "complete";
 
     setBusyWeek(week);
     setMessage(null);
 
-    const { error } = await supabase.from("entries").update({ status: next }).eq("id", e.id);
-
-    if (error) {
-      setMessage(`Status update error: ${error.message}`);
-      setBusyWeek(null);
-      return;
-    }
-
-    setEntries((prev) => prev.map((row) => (row.id === e.id ? { ...row, status: next } : row)));
+    const updateErr = await updateEntryStatus(e.id, next);
+    if (updateErr) setMessage(`Status update error: ${updateErr}`);
     setBusyWeek(null);
   }
 
@@ -358,14 +266,14 @@ export default function DashboardOverviewClient() {
         {/* Progress + lifecycle */}
         <div className={cardClass}>
           <div className="flex items-center justify-between gap-3 flex-wrap">
-            <div className="font-semibold">Progress: {lifecycle.completeCount} of 52 complete</div>
-            <div className="text-sm opacity-80">{progressPct}%</div>
+            <div className="font-semibold">Progress: {lifecycle.complete} of {PROGRAM_WEEKS} complete</div>
+            <div className="text-sm opacity-80">{lifecycle.percentComplete}%</div>
           </div>
 
           <div className="mt-3 w-full border rounded-lg h-4 overflow-hidden bg-white">
             <div
               className="h-4 bg-green-600 transition-all duration-500"
-              style={{ width: `${Math.max(0, Math.min(100, progressPct))}%` }}
+              style={{ width: `${Math.max(0, Math.min(100, lifecycle.percentComplete))}%` }}
             />
           </div>
 
@@ -377,22 +285,94 @@ export default function DashboardOverviewClient() {
           <div className="grid grid-cols-3 gap-3 mt-4">
             <div className="border rounded-lg p-3">
               <div className="text-xs">In Progress</div>
-              <div className="text-lg font-semibold">{lifecycle.inProgressCount}</div>
+              <div className="text-lg font-semibold">{lifecycle.inProgress}</div>
             </div>
             <div className="border rounded-lg p-3">
               <div className="text-xs">Complete</div>
-              <div className="text-lg font-semibold">{lifecycle.completeCount}</div>
+              <div className="text-lg font-semibold">{lifecycle.complete}</div>
             </div>
             <div className="border rounded-lg p-3">
               <div className="text-xs">Remaining Open</div>
-              <div className="text-lg font-semibold">{lifecycle.openCount}</div>
+              <div className="text-lg font-semibold">{lifecycle.open}</div>
             </div>
           </div>
         </div>
 
         <div className="text-sm opacity-80">Current week: {currentWeek}</div>
 
-        {message ? <div className={cardClass}>{message}</div> : null}
+        {/* Manuscript download */}
+        <div className={cardClass}>
+          <div className="flex items-center justify-between gap-3 flex-wrap">
+            <div>
+              <div className="font-semibold">Your manuscript</div>
+              <div className="text-xs opacity-80">
+                Every week you have written so far, compiled into one document in your chosen chapter order.
+              </div>
+            </div>
+            <div className="flex gap-2 items-center">
+              <select
+                className="rounded-lg border px-2 py-2 text-sm"
+                value={manuscriptFormat}
+                onChange={(e) => setManuscriptFormat(e.target.value as ManuscriptFormat)}
+                disabled={downloading}
+              >
+                <option value="md">Markdown (.md)</option>
+                <option value="html">Web page (.html)</option>
+                <option value="docx">Word (.docx)</option>
+                <option value="epub">E-book (.epub)</option>
+                <option value="pdf">Print-ready book (.pdf)</option>
+              </select>
+              <button
+                className={buttonClass}
+                onClick={downloadManuscript}
+                disabled={downloading || lifecycle.open === PROGRAM_WEEKS}
+              >
+                {downloading ? "Preparing..." : "Download"}
+              </button>
+              <button className={buttonClass} onClick={() => router.push("/book")}>
+                Arrange chapters
+              </button>
+            </div>
+          </div>
+
+          {manuscriptFormat === "pdf" ? (
+            <div className="mt-3 flex gap-3 flex-wrap items-start">
+              <div>
+                <div className="text-xs opacity-80">Trim size</div>
+                <select
+                  className="rounded-lg border px-2 py-2 text-sm"
+                  value={pdfTrim}
+                  onChange={(e) => setPdfTrim(e.target.value as PdfTrimSize)}
+                  disabled={downloading}
+                >
+                  <option value="6x9">6 × 9 in</option>
+                  <option value="5.5x8.5">5.5 × 8.5 in</option>
+                  <option value="a5">A5</option>
+                </select>
+              </div>
+              <div className="grow">
+                <div className="text-xs opacity-80">Dedication (optional)</div>
+                <textarea
+                  className="w-full rounded-lg border px-2 py-2 text-sm"
+                  rows={2}
+                  maxLength={500}
+                  value={dedication}
+                  onChange={(e) => setDedication(e.target.value)}
+                  placeholder="For my grandchildren..."
+                  disabled={downloading}
+                />
+              </div>
+            </div>
+          ) : null}
+
+          {lifecycle.complete === PROGRAM_WEEKS && manuscriptFormat !== "pdf" ? (
+            <div className="mt-2 text-xs opacity-80">
+              All 52 weeks are complete. Choose the print-ready book to get a PDF you can take to a printer.
+            </div>
+          ) : null}
+        </div>
+
+        {(message ?? error) ? <div className={cardClass}>{message ?? error}</div> : null}
 
         {/* Two scrollable containers */}
         {renderList("Complete", rowLists.complete)}
@@ -0,0 +1,379 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import { strFromU8, unzipSync } from "fflate";
+import { supabase } from "@/lib/supabaseClient";
+import { writeEntry } from "@/lib/entrySave";
+import { diffLines, diffStats } from "@/lib/textDiff";
+import DiffView from "@/components/DiffView";
+import {
+  defaultImportAction,
+  importChangesEntry,
+  mergeImportedEntry,
+  parseExportJson,
+  parseMarkdownEntry,
+  resolveImports,
+  type EntryFields,
+  type ImportAction,
+  type ImportProblem,
+  type ParsedImport,
+  type ResolvedImport
+} from "@/lib/entryImport";
+
+type PromptRow = {
+  prompt_key: string;
+  week: number;
+  title: string;
+};
+
+type EntryRow = EntryFields & {
+  id: string;
+  week: number;
+  version: number;
+};
+
+const ACTION_LABELS: Record<ImportAction, string> = {
+  overwrite: "Replace with imported",
+  append: "Add imported text after mine",
+  skip: "Keep mine"
+};
+
+function isMarkdownName(name: string) {
+  return /\.(md|markdown|txt)$/i.test(name);
+}
+
+function isJsonName(name: string) {
+  return /\.json$/i.test(name);
+}
+
+function mergeParsed(parts: ParsedImport[]): ParsedImport {
+  return {
+    entries: parts.flatMap((p) => p.entries),
+    problems: parts.flatMap((p) => p.problems)
+  };
+}
+
+// An export ZIP holds the same entries twice (export.json and entries/*.md);
+// the JSON is read when present since it carries everything
+function readZip(bytes: Uint8Array, zipName: string): ParsedImport {
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(bytes, { filter: (f) => isJsonName(f.name) || isMarkdownName(f.name) });
+  } catch {
+    return { entries: [], problems: [{ source: zipName, error: "Could not open ZIP file." }] };
+  }
+
+  const names = Object.keys(files).filter((n) => !n.startsWith("__MACOSX/")).sort();
+  const json = names.find((n) => n === "export.json" || n.endsWith("/export.json"));
+  if (json) return parseExportJson(strFromU8(files[json]), `${zipName}/${json}`);
+
+  return mergeParsed(
+    names
+      .filter((n) => isMarkdownName(n) && !/readme\.txt$/i.test(n))
+      .map((n) => parseMarkdownEntry(strFromU8(files[n]), `${zipName}/${n}`))
+  );
+}
+
+async function readFiles(files: File[]): Promise<ParsedImport> {
+  const parts: ParsedImport[] = [];
+
+  for (const f of files) {
+    const name = f.webkitRelativePath || f.name;
+
+    if (/\.zip$/i.test(name)) {
+      parts.push(readZip(new Uint8Array(await f.arrayBuffer()), name));
+    } else if (isJsonName(name)) {
+      parts.push(parseExportJson(await f.text(), name));
+    } else if (isMarkdownName(name)) {
+      if (/readme\.txt$/i.test(name)) continue;
+      parts.push(parseMarkdownEntry(await f.text(), name));
+    } else {
+      parts.push({ entries: [], problems: [{ source: name, error: "Not a .json, .md or .zip file." }] });
+    }
+  }
+
+  return mergeParsed(parts);
+}
+
+export default function ImportClient() {
+  const router = useRouter();
+
+  const [loading, setLoading] = useState(true);
+  const [message, setMessage] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const [userId, setUserId] = useState<string | null>(null);
+  const [prompts, setPrompts] = useState<PromptRow[]>([]);
+  const [entries, setEntries] = useState<EntryRow[]>([]);
+
+  const [imported, setImported] = useState<ResolvedImport[]>([]);
+  const [problems, setProblems] = useState<ImportProblem[]>([]);
+  const [actions, setActions] = useState<Record<number, ImportAction>>({});
+  const [expandedWeek, setExpandedWeek] = useState<number | null>(null);
+
+  async function loadEntriesForUser(id: string) {
+    const { data: entryRows, error } = await supabase
+      .from("entries")
+      .select("id, week, title, content, content_doc, status, life_stage, tone, key_people, locations, themes, version")
+      .eq("user_id", id);
+
+    if (error) throw new Error(error.message);
+    setEntries((entryRows ?? []) as EntryRow[]);
+  }
+
+  useEffect(() => {
+    async function load() {
+      setLoading(true);
+      setMessage(null);
+
+      const { data: auth } = await supabase.auth.getUser();
+      if (!auth.user) {
+        router.push("/login");
+        return;
+      }
+
+      const { data: promptRows, error: promptErr } = await supabase
+        .from("prompts")
+        .select("prompt_key, week, title")
+        .eq("active", true)
+        .order("week", { ascending: true });
+
+      if (promptErr) {
+        setMessage(`Prompt list error: ${promptErr.message}`);
+        setLoading(false);
+        return;
+      }
+
+      try {
+        await loadEntriesForUser(auth.user.id);
+      } catch (err: unknown) {
+        setMessage(`Entry list error: ${err instanceof Error ? err.message : "Unknown error"}`);
+        setLoading(false);
+        return;
+      }
+
+      setUserId(auth.user.id);
+      setPrompts((promptRows ?? []) as PromptRow[]);
+      setLoading(false);
+    }
+
+    void load();
+  }, [router]);
+
+  const entryByWeek = useMemo(() => new Map(entries.map((e) => [Number(e.week), e])), [entries]);
+  const promptByWeek = useMemo(() => new Map(prompts.map((p) => [Number(p.week), p])), [prompts]);
+
+  async function onFilesChosen(list: FileList | null) {
+    if (!list || !list.length) return;
+
+    setBusy(true);
+    setMessage(null);
+
+    const parsed = await readFiles(Array.from(list));
+    const resolved = resolveImports(parsed, prompts);
+
+    const nextActions: Record<number, ImportAction> = {};
+    for (const e of resolved.entries) nextActions[e.week] = defaultImportAction(entryByWeek.get(e.week));
+
+    setImported(resolved.entries);
+    setProblems(resolved.problems);
+    setActions(nextActions);
+    setExpandedWeek(null);
+    setBusy(false);
+
+    if (!resolved.entries.length) setMessage("No entries found in the selected files.");
+  }
+
+  const changes = imported
+    .map((imp) => {
+      const existing = entryByWeek.get(imp.week);
+      const action = actions[imp.week] ?? "skip";
+      const next = mergeImportedEntry(existing, imp, action);
+      return { imp, existing, action, next };
+    })
+    .filter((c) => c.next && importChangesEntry(c.existing, c.next));
+
+  async function applyImport() {
+    if (!userId || !changes.length) return;
+
+    const replaced = changes.filter((c) => c.existing?.content.trim() && c.action === "overwrite").length;
+    const prompt = replaced
+      ? `Import ${changes.length} week(s)? ${replaced} existing entr${replaced === 1 ? "y" : "ies"} will be replaced.`
+      : `Import ${changes.length} week(s)?`;
+    if (!window.confirm(prompt)) return;
+
+    setBusy(true);
+    setMessage(null);
+
+    let saved = 0;
+    const failed: string[] = [];
+
+    for (const c of changes) {
+      const payload = {
+        user_id: userId,
+        prompt_key: c.imp.prompt_key,
+        week: c.imp.week,
+        ...c.next!
+      };
+
+      // Weeks edited elsewhere since this page loaded are left alone
+      const result = await writeEntry(payload, c.existing ? { id: c.existing.id, version: c.existing.version } : null);
+
+      if (result.ok) {
+        saved += 1;
+      } else {
+        const reason = result.conflict
+          ? `${c.existing ? "changed" : "created"} in another tab or device`
+          : result.error;
+        failed.push(`Week ${c.imp.week}: ${reason}`);
+      }
+    }
+
+    try {
+      await loadEntriesForUser(userId);
+    } catch {
+      // The import itself went through; the preview just may be stale
+    }
+
+    setImported([]);
+    setActions({});
+    setExpandedWeek(null);
+    setBusy(false);
+    setMessage(
+      failed.length
+        ? `Imported ${saved} week(s). ${failed.length} failed: ${failed.join("; ")}`
+        : `Imported ${saved} week(s).`
+    );
+  }
+
+  if (loading) return <div className="p-6">Loading...</div>;
+
+  const cardClass = "border rounded-xl p-4";
+  const buttonClass = "rounded-lg border px-3 py-2";
+
+  return (
+    <div className="min-h-screen">
+      <div className="max-w-4xl mx-auto p-6 space-y-4">
+        <div className="flex items-center justify-between gap-3 flex-wrap">
+          <div>
+            <div className="text-sm opacity-80 cursor-pointer" onClick={() => router.push("/profile")}>
+              Profile
+            </div>
+            <h1 className="text-2xl font-semibold">Import entries</h1>
+          </div>
+          <button className={buttonClass} onClick={applyImport} disabled={busy || !changes.length}>
+            {busy ? "Working..." : changes.length ? `Import ${changes.length} week(s)` : "Nothing to import"}
+          </button>
+        </div>
+
+        <div className={cardClass}>
+          <div className="text-sm opacity-80">
+            Choose the ZIP or export.json from &quot;Download my data&quot;, or Markdown files with front matter
+            (week, title, status and the other details). Files named like week-03.md are matched by their
+            week number. Nothing is saved until you press Import.
+          </div>
+          <div className="mt-3 flex gap-4 flex-wrap text-sm">
+            <label className="space-y-1">
+              <div className="font-semibold">Files</div>
+              <input
+                type="file"
+                multiple
+                accept=".json,.md,.markdown,.txt,.zip"
+                disabled={busy}
+                onChange={(e) => {
+                  void onFilesChosen(e.target.files);
+                  e.target.value = "";
+                }}
+              />
+            </label>
+            <label className="space-y-1">
+              <div className="font-semibold">Folder</div>
+              <input
+                type="file"
+                ref={(el) => el?.setAttribute("webkitdirectory", "")}
+                disabled={busy}
+                onChange={(e) => {
+                  void onFilesChosen(e.target.files);
+                  e.target.value = "";
+                }}
+              />
+            </label>
+          </div>
+        </div>
+
+        {message ? <div className={cardClass}>{message}</div> : null}
+
+        {problems.length ? (
+          <div className={cardClass}>
+            <div className="text-sm font-semibold">Not imported</div>
+            <ul className="mt-2 space-y-1 text-sm">
+              {problems.map((p, i) => (
+                <li key={i}>
+                  <span className="opacity-70">{p.source}:</span> {p.error}
+                </li>
+              ))}
+            </ul>
+          </div>
+        ) : null}
+
+        {imported.length ? (
+          <div className={cardClass}>
+            <div className="text-sm font-semibold">Preview</div>
+            <ul className="mt-2 space-y-2">
+              {imported.map((imp) => {
+                const existing = entryByWeek.get(imp.week);
+                const hasWriting = !!existing?.content.trim();
+                const action = actions[imp.week] ?? "skip";
+                const next = mergeImportedEntry(existing, imp, action);
+                const parts = diffLines(existing?.content.trim() ?? "", next?.content ?? existing?.content.trim() ?? "");
+                const stats = diffStats(parts);
+                const unchanged = !stats.added && !stats.removed;
+
+                return (
+                  <li key={imp.week} className="border rounded-lg p-3">
+                    <div className="flex items-center justify-between gap-3 flex-wrap">
+                      <div
+                        className="cursor-pointer"
+                        onClick={() => setExpandedWeek(expandedWeek === imp.week ? null : imp.week)}
+                      >
+                        <div className="text-sm font-semibold">
+                          Week {imp.week}: {imp.title || promptByWeek.get(imp.week)?.title}
+                        </div>
+                        <div className="text-xs opacity-70">
+                          {hasWriting ? "You already wrote this week" : "New"} · {imp.source}
+                          {unchanged ? " · no change" : ` · +${stats.added} / -${stats.removed} lines`}
+                        </div>
+                      </div>
+
+                      <select
+                        className="border rounded px-2 py-1 text-sm"
+                        value={action}
+                        disabled={busy}
+                        onChange={(e) => setActions({ ...actions, [imp.week]: e.target.value as ImportAction })}
+                      >
+                        {(hasWriting ? (["skip", "overwrite", "append"] as const) : (["overwrite", "skip"] as const)).map(
+                          (a) => (
+                            <option key={a} value={a}>
+                              {hasWriting ? ACTION_LABELS[a] : a === "overwrite" ? "Import" : "Skip"}
+                            </option>
+                          )
+                        )}
+                      </select>
+                    </div>
+
+                    {expandedWeek === imp.week ? (
+                      <div className="mt-2">
+                        <DiffView parts={parts} />
+                      </div>
+                    ) : null}
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        ) : null}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,5 @@
+import ImportClient from "./ImportClient";
+
+export default function ImportPage() {
+  return <ImportClient />;
+}
@@ -2,6 +2,7 @@
 
 import { useEffect, useRef, useState } from "react";
 import { supabase } from "@/lib/supabaseClient";
+import { downloadFromApi } from "@/lib/download";
 import { useRouter } from "next/navigation";
 
 type ProfileRow = {
@@ -11,10 +12,29 @@ type ProfileRow = {
   ui_text_size: "normal" | "large" | null;
   ui_contrast: "default" | "high" | null;
   preferred_email_day: string | null;
+  timezone: string | null;
 };
 
 const DAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"] as const;
 
+function detectTimeZone() {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+  } catch {
+    return "UTC";
+  }
+}
+
+function listTimeZones(current: string) {
+  let zones: string[] = [];
+  try {
+    zones = Intl.supportedValuesOf("timeZone");
+  } catch {
+    zones = [];
+  }
+  return zones.includes(current) ? zones : [current, ...zones];
+}
+
 export default function ProfileClient() {
   const router = useRouter();
 
@@ -27,6 +47,8 @@ export default function ProfileClient() {
   const [textSize, setTextSize] = useState<"normal" | "large">("normal");
   const [contrast, setContrast] = useState<"default" | "high">("default");
   const [preferredEmailDay, setPreferredEmailDay] = useState<string>("Monday");
+  const [timeZone, setTimeZone] = useState<string>("UTC");
+  const [exporting, setExporting] = useState(false);
 
   // Unsaved-changes protection
   const savedSnapshotRef = useRef<string>("");
@@ -36,7 +58,8 @@ export default function ProfileClient() {
       preferredName,
       textSize,
       contrast,
-      preferredEmailDay
+      preferredEmailDay,
+      timeZone
     });
   }
 
@@ -71,7 +94,7 @@ export default function ProfileClient() {
 
     const { data, error } = await supabase
       .from("profiles")
-      .select("id, email, preferred_name, ui_text_size, ui_contrast, preferred_email_day")
+      .select("id, email, preferred_name, ui_text_size, ui_contrast, preferred_email_day, timezone")
       .eq("id", auth.user.id)
       .single();
 
@@ -89,18 +112,26 @@ export default function ProfileClient() {
     const initialContrast: "default" | "high" = p.ui_contrast === "high" ? "high" : "default";
     const initialPreferredEmailDay =
       DAYS.includes((p.preferred_email_day ?? "Monday") as any) ? (p.preferred_email_day ?? "Monday") : "Monday";
+    // Until the user picks a zone, store the one their browser reports so the
+    // weekly email goes out on their local day rather than in UTC
+    const initialTimeZone = p.timezone || detectTimeZone();
+    if (!p.timezone) {
+      await supabase.from("profiles").update({ timezone: initialTimeZone }).eq("id", p.id).is("timezone", null);
+    }
 
     setPreferredName(initialPreferredName);
     setTextSize(initialTextSize);
     setContrast(initialContrast);
     setPreferredEmailDay(initialPreferredEmailDay);
+    setTimeZone(initialTimeZone);
 
     // Establish baseline snapshot for dirty-check
     savedSnapshotRef.current = JSON.stringify({
       preferredName: initialPreferredName,
       textSize: initialTextSize,
       contrast: initialContrast,
-      preferredEmailDay: initialPreferredEmailDay
+      preferredEmailDay: initialPreferredEmailDay,
+      timeZone: initialTimeZone
     });
 
     setLoading(false);
@@ -120,7 +151,8 @@ export default function ProfileClient() {
       preferred_name: preferredName.trim() || null,
       ui_text_size: textSize,
       ui_contrast: contrast,
-      preferred_email_day: preferredEmailDay
+      preferred_email_day: preferredEmailDay,
+      timezone: timeZone
     };
 
     const { error } = await supabase.from("profiles").update(payload).eq("id", profile.id);
@@ -139,6 +171,24 @@ export default function ProfileClient() {
     await loadProfile();
   }
 
+  async function downloadExport() {
+    setExporting(true);
+    setMessage(null);
+
+    const { data: sessionRes } = await supabase.auth.getSession();
+    const token = sessionRes?.session?.access_token;
+
+    if (!token) {
+      setMessage("No session token. Please sign in again.");
+      setExporting(false);
+      return;
+    }
+
+    const res = await downloadFromApi("/api/export", token, "myautobiography-export.zip");
+    if (!res.ok) setMessage(`Export error: ${res.error}`);
+    setExporting(false);
+  }
+
   async function signOut() {
     if (!confirmDiscardIfDirty()) return;
     await supabase.auth.signOut();
@@ -229,7 +279,7 @@ export default function ProfileClient() {
             <div>
               <label className="text-sm font-semibold">Preferred weekly email day</label>
               <div className={high ? "text-sm" : "text-sm opacity-80"}>
-                We will use this later for weekly prompt emails.
+                Your weekly prompt email arrives on this day. If a send is missed, it follows later that week.
               </div>
               <select
                 className={inputClass}
@@ -244,6 +294,20 @@ export default function ProfileClient() {
               </select>
             </div>
 
+            <div>
+              <label className="text-sm font-semibold">Time zone</label>
+              <div className={high ? "text-sm" : "text-sm opacity-80"}>
+                Used to decide when your email day starts.
+              </div>
+              <select className={inputClass} value={timeZone} onChange={(e) => setTimeZone(e.target.value)}>
+                {listTimeZones(timeZone).map((z) => (
+                  <option key={z} value={z}>
+                    {z}
+                  </option>
+                ))}
+              </select>
+            </div>
+
             <div className="flex items-center gap-3">
               <button className={primaryButtonClass} onClick={save}>
                 Save
@@ -255,6 +319,24 @@ export default function ProfileClient() {
           </div>
         </div>
 
+        <div className={cardClass}>
+          <div className="text-sm font-semibold">Your data</div>
+          <div className={high ? "text-sm" : "text-sm opacity-80"}>
+            Download a ZIP with your profile and every entry, including the details you added and the
+            question each one answers. It contains a JSON file plus a Markdown file per week that you can
+            open in any text editor. You can bring such files back in, or Markdown files written elsewhere,
+            with Import entries.
+          </div>
+          <div className="mt-3 flex gap-2 flex-wrap">
+            <button className={buttonClass} onClick={downloadExport} disabled={exporting}>
+              {exporting ? "Preparing..." : "Download my data"}
+            </button>
+            <button className={buttonClass} onClick={() => confirmDiscardIfDirty() && router.push("/import")}>
+              Import entries
+            </button>
+          </div>
+        </div>
+
         <div className={high ? "text-sm" : "text-sm opacity-80"}>
           More profile fields can be added later without changing how entries work.
         </div>
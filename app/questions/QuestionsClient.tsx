@@ -1,49 +1,22 @@
 "use client";
 
-import { useEffect, useMemo, useState } from "react";
+import { useMemo, useState } from "react";
 import { supabase } from "@/lib/supabaseClient";
+import { useWriterData } from "@/hooks/useWriterData";
+import type { SavedEntry } from "@/lib/entrySave";
+import { 
+  PROGRAM_WEEKS,
+  deriveDisplayStatus,
+  hasEntryText,
+  normalizeEntryStatus,
+  weekStartDate,
+  type DisplayStatus,
+  type EntryStatus
+ } from "@/lib/program";
 import { useRouter } from "next/navigation";
 
-type PromptRow = {
-  prompt_key: string;
-  week: number;
-  title: string;
-};
-
-type EntryRow = {
-  id: string;
-  week: number;
-  content: string;
-  status: string | null; // "draft"(legacy), "in_progress", "complete"
-  updated_at?: string;
-};
-
-type ProfileRow = {
-  start_date: string | null;
-  ui_text_size: "normal" | "large" | null;
-  ui_contrast: "default" | "high" | null;
-};
-
-type EntryStatusMode = "in_progress" | "complete";
-type DisplayStatus = "Open" | "In Progress" | "Complete";
-
-function clampWeek(n: number) {
-  return Math.max(1, Math.min(52, n));
-}
-
-function weekFromStartDate(startDateISO: string) {
-  const start = new Date(startDateISO + "T00:00:00Z");
-  const now = new Date();
-  const msPerDay = 24 * 60 * 60 * 1000;
-  const days = Math.floor((now.getTime() - start.getTime()) / msPerDay);
-  return clampWeek(Math.floor(days / 7) + 1);
-}
+type EntryRow = SavedEntry;
 
-function addDays(date: Date, days: number) {
-  const d = new Date(date.getTime());
-  d.setUTCDate(d.getUTCDate() + days);
-  return d;
-}
 
 function formatDateShort(d: Date) {
   try {
@@ -57,98 +30,16 @@ function formatDateShort(d: Date) {
   }
 }
 
-function normalizeEntryStatus(raw: string | null | undefined): EntryStatusMode {
-  // Backward compatible: treat anything non-"complete" as "in_progress"
-  if (raw === "complete") return "complete";
-  return "in_progress";
-}
-
-function deriveDisplayStatus(entry: EntryRow | undefined): DisplayStatus {
-  if (!entry) return "Open";
-  const hasText = (entry.content ?? "").trim().length > 0;
-  if (!hasText) return "Open";
-  return normalizeEntryStatus(entry.status) === "complete" ? "Complete" : "In Progress";
-}
-
 export default function QuestionsClient() {
   const router = useRouter();
 
-  const [loading, setLoading] = useState(true);
-  const [message, setMessage] = useState<string | null>(null);
-
-  const [prompts, setPrompts] = useState<PromptRow[]>([]);
-  const [entries, setEntries] = useState<EntryRow[]>([]);
-  const [startDate, setStartDate] = useState<string | null>(null);
-  const [currentWeek, setCurrentWeek] = useState<number>(1);
-
-  const [textSize, setTextSize] = useState<"normal" | "large">("normal");
-  const [contrast, setContrast] = useState<"default" | "high">("default");
+  const { loading, error, profile, prompts, entries, updateEntryStatus, currentWeek, textSize, contrast } =
+    useWriterData();
+  const startDate = profile?.start_date ?? null;
 
+  const [message, setMessage] = useState<string | null>(null);
   const [busyWeek, setBusyWeek] = useState<number | null>(null);
 
-  useEffect(() => {
-    async function load() {
-      setLoading(true);
-      setMessage(null);
-
-      const { data: auth } = await supabase.auth.getUser();
-      if (!auth.user) {
-        router.push("/login");
-        return;
-      }
-
-      const { data: profile, error: profErr } = await supabase
-        .from("profiles")
-        .select("start_date, ui_text_size, ui_contrast")
-        .eq("id", auth.user.id)
-        .single();
-
-      if (profErr) {
-        setMessage(`Profile load error: ${profErr.message}`);
-        setLoading(false);
-        return;
-      }
-
-      const prof = profile as ProfileRow;
-
-      setStartDate(prof?.start_date ?? null);
-      setTextSize(prof?.ui_text_size === "large" ? "large" : "normal");
-      setContrast(prof?.ui_contrast === "high" ? "high" : "default");
-
-      if (prof?.start_date) setCurrentWeek(weekFromStartDate(prof.start_date));
-      else setCurrentWeek(1);
-
-      const { data: promptRows, error: promptErr } = await supabase
-        .from("prompts")
-        .select("prompt_key, week, title")
-        .eq("active", true)
-        .order("week", { ascending: true });
-
-      if (promptErr) {
-        setMessage(`Prompt list error: ${promptErr.message}`);
-        setLoading(false);
-        return;
-      }
-
-      const { data: entryRows, error: entryErr } = await supabase
-        .from("entries")
-        .select("id, week, content, status, updated_at")
-        .eq("user_id", auth.user.id);
-
-      if (entryErr) {
-        setMessage(`Entry list error: ${entryErr.message}`);
-        setLoading(false);
-        return;
-      }
-
-      setPrompts((promptRows ?? []) as PromptRow[]);
-      setEntries((entryRows ?? []) as EntryRow[]);
-      setLoading(false);
-    }
-
-    void load();
-  }, [router]);
-
   const entryByWeek = useMemo(() => {
     const m = new Map<number, EntryRow>();
     for (const e of entries) m.set(e.week, e);
@@ -157,24 +48,16 @@ export default function QuestionsClient() {
 
   // Completion = all 52 weeks are explicitly COMPLETE and have non-empty content
   const allCompleted = useMemo(() => {
-    if (prompts.length !== 52) return false;
-    return prompts.every((p) => {
-      const e = entryByWeek.get(p.week);
-      if (!e) return false;
-      const hasText = (e.content ?? "").trim().length > 0;
-      if (!hasText) return false;
-      return normalizeEntryStatus(e.status) === "complete";
-    });
+    if (prompts.length !== PROGRAM_WEEKS) return false;
+    return prompts.every((p) => deriveDisplayStatus(entryByWeek.get(p.week)) === "Complete");
   }, [prompts, entryByWeek]);
 
   const rows = useMemo(() => {
-    const base = startDate ? new Date(startDate + "T00:00:00Z") : null;
-
     return prompts.map((p) => {
       const e = entryByWeek.get(p.week);
       const displayStatus = deriveDisplayStatus(e);
 
-      const scheduled = base ? addDays(base, (p.week - 1) * 7) : null;
+      const scheduled = weekStartDate(startDate, p.week);
 
       return {
         week: p.week,
@@ -187,11 +70,11 @@ export default function QuestionsClient() {
   }, [prompts, entryByWeek, startDate]);
 
   function goToWeek(week: number) {
-    router.push(`/dashboard?week=${week}`);
+    router.push(`/week?week=${week}`);
   }
 
   function goToCurrentWeek() {
-    router.push(`/dashboard?week=${currentWeek}`);
+    router.push(`/week?week=${currentWeek}`);
   }
 
   async function signOut() {
@@ -203,24 +86,16 @@ export default function QuestionsClient() {
     const e = entryByWeek.get(week);
     if (!e) return;
 
-    const hasText = (e.content ?? "").trim().length > 0;
-    if (!hasText) return;
+    if (!hasEntryText(e)) return;
 
     const current = normalizeEntryStatus(e.status);
-    const next: EntryStatusMode = current === "complete" ? "in_progress" : "complete";
+    const next: EntryStatus = current === "complete" ? "in_progress" : "complete";
 
     setBusyWeek(week);
     setMessage(null);
 
-    const { error } = await supabase.from("entries").update({ status: next }).eq("id", e.id);
-
-    if (error) {
-      setMessage(`Status update error: ${error.message}`);
-      setBusyWeek(null);
-      return;
-    }
-
-    setEntries((prev) => prev.map((row) => (row.id === e.id ? { ...row, status: next } : row)));
+    const updateErr = await updateEntryStatus(e.id, next);
+    if (updateErr) setMessage(`Status update error: ${updateErr}`);
     setBusyWeek(null);
   }
 
@@ -276,7 +151,7 @@ export default function QuestionsClient() {
           </div>
         </div>
 
-        {message && <div className={cardClass}>{message}</div>}
+        {(message ?? error) && <div className={cardClass}>{message ?? error}</div>}
 
         {allCompleted ? (
           <div className={cardClass}>
@@ -0,0 +1,21 @@
+import type { DiffPart } from "@/lib/textDiff";
+
+/**
+ * Renders a line diff: added lines highlighted, removed lines struck through.
+ */
+export default function DiffView({ parts, high = false }: { parts: DiffPart[]; high?: boolean }) {
+  if (!parts.length) return <div className={high ? "text-xs" : "text-xs opacity-70"}>(No text)</div>;
+
+  const addClass = high ? "underline" : "bg-green-50";
+  const removeClass = high ? "line-through opacity-70" : "bg-red-50 line-through";
+
+  return (
+    <pre className="text-xs whitespace-pre-wrap font-sans">
+      {parts.map((p, i) => (
+        <div key={i} className={p.type === "add" ? addClass : p.type === "remove" ? removeClass : ""}>
+          {p.text}
+        </div>
+      ))}
+    </pre>
+  );
+}
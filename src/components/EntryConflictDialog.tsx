@@ -0,0 +1,133 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { diffLines } from "@/lib/textDiff";
+import DiffView from "@/components/DiffView";
+
+export type ConflictVersion = {
+  title: string | null;
+  content: string;
+  updated_at?: string | null;
+};
+
+function formatSavedAt(d: string | null | undefined) {
+  if (!d) return "";
+  const dt = new Date(d);
+  return Number.isNaN(dt.getTime()) ? d : dt.toLocaleString();
+}
+
+/**
+ * Shown when a save was refused because the entry changed in another tab or
+ * device. The merged version starts as the user's own text and can be edited
+ * before saving.
+ */
+export default function EntryConflictDialog({
+  theirs,
+  mine,
+  high = false,
+  busy = false,
+  onSave,
+  onUseTheirs,
+  onClose
+}: {
+  theirs: ConflictVersion;
+  mine: ConflictVersion;
+  high?: boolean;
+  busy?: boolean;
+  onSave: (title: string, content: string) => void | Promise<void>;
+  onUseTheirs: () => void | Promise<void>;
+  onClose: () => void;
+}) {
+  const [mergedTitle, setMergedTitle] = useState(mine.title || theirs.title || "");
+  const [mergedContent, setMergedContent] = useState(mine.content);
+
+  const parts = useMemo(() => diffLines(theirs.content, mine.content), [theirs.content, mine.content]);
+
+  const panelClass = high
+    ? "bg-black text-white border border-white rounded-xl p-4"
+    : "bg-white border rounded-xl p-4";
+  const boxClass = high ? "border border-white rounded-lg p-2" : "border rounded-lg p-2";
+  const inputClass = high
+    ? "w-full rounded-lg border border-white bg-black text-white p-2"
+    : "w-full rounded-lg border p-2";
+  const buttonClass = high ? "rounded-lg border border-white px-3 py-2" : "rounded-lg border px-3 py-2";
+  const mutedClass = high ? "text-xs" : "text-xs opacity-70";
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 overflow-auto p-4" role="dialog" aria-modal="true">
+      <div className={`${panelClass} max-w-4xl mx-auto space-y-3`}>
+        <div className="text-xl font-semibold">This week changed somewhere else</div>
+        <div className="text-sm">
+          It was saved from another tab or device after you opened it, so your save was stopped to avoid
+          overwriting it. Compare the two versions and choose what to keep.
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <div className={boxClass}>
+            <div className="text-sm font-semibold">Saved elsewhere</div>
+            <div className={mutedClass}>{formatSavedAt(theirs.updated_at)}</div>
+            {theirs.title ? <div className="mt-1 text-sm">Title: {theirs.title}</div> : null}
+            <div className="mt-2 text-sm whitespace-pre-wrap max-h-60 overflow-auto">{theirs.content || "(No text)"}</div>
+          </div>
+          <div className={boxClass}>
+            <div className="text-sm font-semibold">Yours (not saved)</div>
+            <div className={mutedClass}>&nbsp;</div>
+            {mine.title ? <div className="mt-1 text-sm">Title: {mine.title}</div> : null}
+            <div className="mt-2 text-sm whitespace-pre-wrap max-h-60 overflow-auto">{mine.content || "(No text)"}</div>
+          </div>
+        </div>
+
+        <details className={boxClass}>
+          <summary className="cursor-pointer select-none text-sm font-semibold">
+            Differences (saved elsewhere → yours)
+          </summary>
+          <div className="mt-2 max-h-60 overflow-auto">
+            <DiffView parts={parts} high={high} />
+          </div>
+        </details>
+
+        <div className="space-y-2">
+          <div className="text-sm font-semibold">Merged version</div>
+          <input
+            className={inputClass}
+            placeholder="Optional title"
+            value={mergedTitle}
+            onChange={(e) => setMergedTitle(e.target.value)}
+          />
+          <textarea
+            className={`${inputClass} min-h-[200px]`}
+            value={mergedContent}
+            onChange={(e) => setMergedContent(e.target.value)}
+          />
+          <div className="flex gap-2 flex-wrap">
+            <button className={buttonClass} onClick={() => setMergedContent(mine.content)} disabled={busy}>
+              Start from mine
+            </button>
+            <button className={buttonClass} onClick={() => setMergedContent(theirs.content)} disabled={busy}>
+              Start from the other
+            </button>
+            <button
+              className={buttonClass}
+              onClick={() => setMergedContent(`${theirs.content.trim()}\n\n${mine.content.trim()}`.trim())}
+              disabled={busy}
+            >
+              Combine both
+            </button>
+          </div>
+        </div>
+
+        <div className="flex gap-2 flex-wrap pt-2">
+          <button className={`${buttonClass} font-semibold`} onClick={() => void onSave(mergedTitle, mergedContent)} disabled={busy}>
+            {busy ? "Saving..." : "Save merged version"}
+          </button>
+          <button className={buttonClass} onClick={() => void onUseTheirs()} disabled={busy}>
+            Discard mine, use the other
+          </button>
+          <button className={buttonClass} onClick={onClose} disabled={busy}>
+            Decide later
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,331 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { LIFE_STAGES } from "@/lib/lifeStages";
+import { AUTOSAVE_BANNER_AFTER } from "@/lib/autosave";
+import EntryHistory from "@/components/EntryHistory";
+import EntryPhotos from "@/components/EntryPhotos";
+import EntryRecordings from "@/components/EntryRecordings";
+import EntryConflictDialog from "@/components/EntryConflictDialog";
+import RichTextEditor from "@/components/RichTextEditor";
+import { formatSavedTimestamp, type EntryEditorState } from "@/hooks/useEntryEditor";
+
+/**
+ * The writing surface for one week: prompt, entry fields, save controls,
+ * history and the banners that explain why something is not saved yet.
+ * All state lives in useEntryEditor.
+ */
+export default function EntryEditor({
+  editor,
+  high = false,
+  onOpenWeek
+}: {
+  editor: EntryEditorState;
+  high?: boolean;
+  onOpenWeek: (week: number) => void;
+}) {
+  const router = useRouter();
+  const [showHistory, setShowHistory] = useState(false);
+
+  const { week, prompt, entry, autosave, conflict, isDirty, online, draftSavedAt, entryStatus, lastSavedAt } = editor;
+
+  const cardClass = high ? "border border-white rounded-xl p-4" : "border rounded-xl p-4";
+  const inputClass = high
+    ? "w-full rounded-lg border border-white bg-black text-white p-2"
+    : "w-full rounded-lg border p-2";
+  const smallInputClass = high
+    ? "w-full rounded-lg border border-white bg-black text-white p-2 text-sm"
+    : "w-full rounded-lg border p-2 text-sm";
+  const buttonClass = high ? "rounded-lg border border-white px-3 py-2" : "rounded-lg border px-3 py-2";
+  const primaryButtonClass = high
+    ? "rounded-lg bg-white text-black px-4 py-2 font-semibold"
+    : "rounded-lg border px-4 py-2 font-semibold";
+
+  function statusLabel() {
+    if (autosave.status === "saving") return "Saving...";
+    if (autosave.needsSignIn) return "Session expired · kept on this device";
+    if (!online) return isDirty ? "Offline · kept on this device" : "Offline";
+    if (autosave.status === "retrying" && autosave.nextRetryAt) {
+      return `Not saved · trying again at ${new Date(autosave.nextRetryAt).toLocaleTimeString()}`;
+    }
+    if (isDirty && draftSavedAt) return "Kept on this device · not yet saved to your account";
+    return "Not saved";
+  }
+
+  const showStatus = isDirty || !online || autosave.status === "saving" || autosave.status === "retrying";
+  const showFailureBanner = !conflict && !autosave.needsSignIn && autosave.failures >= AUTOSAVE_BANNER_AFTER;
+
+  return (
+    <>
+      {autosave.needsSignIn ? (
+        <div className={`${cardClass} flex items-center justify-between gap-3 flex-wrap`}>
+          <div className="text-sm">
+            Your sign-in has expired, so your writing could not be saved to your account. It is kept on this
+            device and will be restored after you sign in again.
+          </div>
+          <button
+            className={buttonClass}
+            onClick={() => router.push(`/login?next=${encodeURIComponent(`/week?week=${week}`)}`)}
+          >
+            Sign in again
+          </button>
+        </div>
+      ) : null}
+
+      {showFailureBanner ? (
+        <div className={`${cardClass} flex items-center justify-between gap-3 flex-wrap`}>
+          <div className="text-sm">
+            Saving has failed {autosave.failures} times in a row, so your latest writing is not in your account
+            yet. It is kept on this device and we will keep trying.
+            {autosave.lastError ? <span className="block opacity-80">Last error: {autosave.lastError}</span> : null}
+          </div>
+          <button className={buttonClass} onClick={() => void editor.save()} disabled={autosave.status === "saving"}>
+            Try now
+          </button>
+        </div>
+      ) : null}
+
+      {editor.pendingWeeks.length ? (
+        <div className={`${cardClass} text-sm`}>
+          Waiting to sync from this device:{" "}
+          {editor.pendingWeeks.map((w, i) => (
+            <span key={w}>
+              {i ? ", " : ""}
+              <button className="underline" onClick={() => onOpenWeek(w)}>
+                Week {w}
+              </button>
+            </span>
+          ))}
+        </div>
+      ) : null}
+
+      {conflict && !editor.conflictOpen ? (
+        <div className={`${cardClass} flex items-center justify-between gap-3 flex-wrap`}>
+          <div className="text-sm">This week has a newer version from another tab or device. Autosave is paused.</div>
+          <button className={buttonClass} onClick={() => editor.setConflictOpen(true)}>
+            Compare and merge
+          </button>
+        </div>
+      ) : null}
+
+      {conflict && editor.conflictOpen ? (
+        <EntryConflictDialog
+          key={`${conflict.theirs.id}:${conflict.theirs.version}`}
+          theirs={conflict.theirs}
+          mine={conflict.mine}
+          high={high}
+          busy={editor.busy}
+          onSave={editor.saveMerged}
+          onUseTheirs={editor.keepTheirs}
+          onClose={() => editor.setConflictOpen(false)}
+        />
+      ) : null}
+
+      {prompt ? (
+        <div className={cardClass}>
+          <div className={high ? "text-sm" : "text-sm opacity-80"}>{prompt.category}</div>
+          <div className="text-xl font-semibold">{prompt.title}</div>
+          <div className="text-sm">{prompt.coaching}</div>
+
+          <div className="space-y-2 mt-3">
+            <div className="font-semibold">Main questions</div>
+            <ul className="list-disc pl-6 space-y-1">
+              {prompt.questions.map((q, i) => (
+                <li key={i}>{q}</li>
+              ))}
+            </ul>
+          </div>
+
+          <div className="space-y-2 mt-3">
+            <div className="font-semibold">Helpful follow ups</div>
+            <ul className="list-disc pl-6 space-y-1">
+              {prompt.helpful_followups.map((q, i) => (
+                <li key={i}>{q}</li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      ) : (
+        <div className={cardClass}>No prompt found for Week {week}.</div>
+      )}
+
+      <div className={cardClass}>
+        <div className="font-semibold">Your entry</div>
+
+        <div className="mt-3 space-y-3">
+          <input
+            className={inputClass}
+            placeholder="Optional title"
+            value={editor.title}
+            onChange={(e) => editor.setTitle(e.target.value)}
+          />
+
+          <RichTextEditor
+            value={editor.doc}
+            onChange={editor.setDoc}
+            high={high}
+            placeholder="Write here..."
+            className="min-h-[260px]"
+          />
+
+          <details className="pt-2">
+            <summary
+              className={
+                high
+                  ? "cursor-pointer select-none text-sm font-semibold"
+                  : "cursor-pointer select-none text-sm font-semibold opacity-80"
+              }
+            >
+              Add info (optional)
+            </summary>
+
+            <div className="mt-3 space-y-3">
+              <div className={high ? "text-xs" : "text-xs opacity-70"}>
+                These details help organize your story later. You can skip them.
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <label className={high ? "text-xs" : "text-xs opacity-80"}>Life stage</label>
+                  <select
+                    className={smallInputClass}
+                    value={editor.lifeStage}
+                    onChange={(e) => editor.setLifeStage(e.target.value)}
+                  >
+                    <option value="">Select</option>
+                    {LIFE_STAGES.map((stage) => (
+                      <option key={stage} value={stage}>
+                        {stage}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                <div className="space-y-1">
+                  <label className={high ? "text-xs" : "text-xs opacity-80"}>Emotional tone</label>
+                  <select className={smallInputClass} value={editor.tone} onChange={(e) => editor.setTone(e.target.value)}>
+                    <option value="">Select</option>
+                    <option value="Joyful">Joyful</option>
+                    <option value="Grateful">Grateful</option>
+                    <option value="Proud">Proud</option>
+                    <option value="Hopeful">Hopeful</option>
+                    <option value="Neutral">Neutral</option>
+                    <option value="Bittersweet">Bittersweet</option>
+                    <option value="Sad">Sad</option>
+                    <option value="Angry">Angry</option>
+                    <option value="Anxious">Anxious</option>
+                    <option value="Regretful">Regretful</option>
+                  </select>
+                </div>
+              </div>
+
+              <div className="space-y-1">
+                <label className={high ? "text-xs" : "text-xs opacity-80"}>Key people (comma-separated)</label>
+                <input
+                  className={smallInputClass}
+                  placeholder="Example: Mom, Grandpa Ed, Coach Thompson"
+                  value={editor.keyPeople}
+                  onChange={(e) => editor.setKeyPeople(e.target.value)}
+                />
+              </div>
+
+              <div className="space-y-1">
+                <label className={high ? "text-xs" : "text-xs opacity-80"}>Locations (comma-separated)</label>
+                <input
+                  className={smallInputClass}
+                  placeholder="Example: Dayton, Ohio; Myrtle Beach; Fort Benning"
+                  value={editor.locations}
+                  onChange={(e) => editor.setLocations(e.target.value)}
+                />
+              </div>
+
+              <div className="space-y-1">
+                <label className={high ? "text-xs" : "text-xs opacity-80"}>Themes (comma-separated)</label>
+                <input
+                  className={smallInputClass}
+                  placeholder="Example: resilience, family, faith, work ethic"
+                  value={editor.themes}
+                  onChange={(e) => editor.setThemes(e.target.value)}
+                />
+              </div>
+            </div>
+          </details>
+
+          <div className="flex items-center gap-3 flex-wrap">
+            <button className={primaryButtonClass} onClick={() => void editor.save()}>
+              Save
+            </button>
+
+            <button
+              className={buttonClass}
+              onClick={() => void editor.toggleComplete()}
+              title={entryStatus === "complete" ? "Mark as in progress" : "Mark as complete"}
+            >
+              {entryStatus === "complete" ? "Complete" : "Mark complete"}
+            </button>
+
+            {entry ? (
+              <button className={buttonClass} onClick={() => setShowHistory(!showHistory)}>
+                {showHistory ? "Hide history" : "History"}
+              </button>
+            ) : null}
+
+            {showStatus ? <span className={high ? "text-sm" : "text-sm opacity-80"}>{statusLabel()}</span> : null}
+          </div>
+
+          <div className={high ? "text-xs" : "text-xs opacity-70"}>
+            Status: {entryStatus === "complete" ? "Complete" : "In Progress"}
+          </div>
+
+          {lastSavedAt ? (
+            <div className={high ? "text-xs" : "text-xs opacity-70"}>Last saved: {formatSavedTimestamp(lastSavedAt)}</div>
+          ) : (
+            <div className={high ? "text-xs" : "text-xs opacity-70"}>Last saved: not yet</div>
+          )}
+        </div>
+      </div>
+
+      {prompt ? (
+        <div className={cardClass}>
+          <div className="font-semibold">Speak your answer</div>
+          <div className="mt-3">
+            <EntryRecordings
+              entryId={entry?.id ?? null}
+              high={high}
+              editable
+              ensureEntryId={editor.ensureEntryId}
+              onTranscript={editor.appendText}
+            />
+          </div>
+        </div>
+      ) : null}
+
+      <div className={cardClass}>
+        <div className="font-semibold">Photos</div>
+        <div className="mt-3">
+          {entry ? (
+            <EntryPhotos entryId={entry.id} high={high} editable />
+          ) : (
+            <div className={high ? "text-sm" : "text-sm opacity-80"}>Save this week&apos;s entry to add photos.</div>
+          )}
+        </div>
+      </div>
+
+      {showHistory && entry ? (
+        <div className={cardClass}>
+          <div className="font-semibold">History</div>
+          <div className="mt-3">
+            <EntryHistory
+              entryId={entry.id}
+              reloadKey={lastSavedAt ? String(lastSavedAt.getTime()) : null}
+              high={high}
+              busy={editor.busy}
+              onRestore={editor.restoreRevision}
+            />
+          </div>
+        </div>
+      ) : null}
+    </>
+  );
+}
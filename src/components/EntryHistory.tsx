@@ -0,0 +1,199 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { supabase } from "@/lib/supabaseClient";
+import { diffLines, diffStats } from "@/lib/textDiff";
+import DiffView from "@/components/DiffView";
+
+export type EntryRevision = {
+  id: string;
+  title: string | null;
+  content: string;
+  content_doc: unknown;
+  status: string | null;
+  created_at: string;
+};
+
+// Revisions per request; older ones load on demand
+const HISTORY_PAGE = 100;
+
+const REVISION_COLUMNS = "id, title, content, content_doc, status, created_at";
+
+function formatRevisionTime(d: string) {
+  const dt = new Date(d);
+  if (Number.isNaN(dt.getTime())) return d;
+  return dt.toLocaleString();
+}
+
+function wordCount(s: string) {
+  const t = s.trim();
+  return t ? t.split(/\s+/).length : 0;
+}
+
+/**
+ * Saved versions of one entry, newest first, with a diff between any two.
+ * Restoring is left to the caller; without `onRestore` the list is read-only.
+ */
+export default function EntryHistory({
+  entryId,
+  reloadKey,
+  high = false,
+  busy = false,
+  onRestore
+}: {
+  entryId: string;
+  // Change this (e.g. to the entry's updated_at) to reload after a save
+  reloadKey?: string | null;
+  high?: boolean;
+  busy?: boolean;
+  onRestore?: (revision: EntryRevision) => void | Promise<void>;
+}) {
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [revisions, setRevisions] = useState<EntryRevision[]>([]);
+  const [hasOlder, setHasOlder] = useState(false);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const [fromId, setFromId] = useState<string | null>(null);
+  const [toId, setToId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function load() {
+      setLoading(true);
+      setError(null);
+
+      const { data, error: revErr } = await supabase
+        .from("entry_revisions")
+        .select(REVISION_COLUMNS)
+        .eq("entry_id", entryId)
+        .order("created_at", { ascending: false })
+        .order("id", { ascending: true })
+        .range(0, HISTORY_PAGE - 1);
+
+      if (cancelled) return;
+
+      if (revErr) {
+        setError(`History load error: ${revErr.message}`);
+        setLoading(false);
+        return;
+      }
+
+      const rows = (data ?? []) as EntryRevision[];
+      setRevisions(rows);
+      setHasOlder(rows.length === HISTORY_PAGE);
+      setToId(rows[0]?.id ?? null);
+      setFromId(rows[1]?.id ?? rows[0]?.id ?? null);
+      setLoading(false);
+    }
+
+    void load();
+    return () => {
+      cancelled = true;
+    };
+  }, [entryId, reloadKey]);
+
+  async function loadOlder() {
+    setLoadingOlder(true);
+
+    const { data, error: revErr } = await supabase
+      .from("entry_revisions")
+      .select(REVISION_COLUMNS)
+      .eq("entry_id", entryId)
+      .order("created_at", { ascending: false })
+      .order("id", { ascending: true })
+      .range(revisions.length, revisions.length + HISTORY_PAGE - 1);
+
+    setLoadingOlder(false);
+
+    if (revErr) {
+      setError(`History load error: ${revErr.message}`);
+      return;
+    }
+
+    const rows = (data ?? []) as EntryRevision[];
+    // A save in between can shift the pages; skip anything already listed
+    setRevisions((prev) => [...prev, ...rows.filter((r) => !prev.some((p) => p.id === r.id))]);
+    setHasOlder(rows.length === HISTORY_PAGE);
+  }
+
+  const from = revisions.find((r) => r.id === fromId) ?? null;
+  const to = revisions.find((r) => r.id === toId) ?? null;
+
+  const parts = useMemo(() => (from && to ? diffLines(from.content, to.content) : []), [from, to]);
+  const stats = diffStats(parts);
+
+  const mutedClass = high ? "text-xs" : "text-xs opacity-70";
+  const rowClass = high ? "border border-white rounded-lg p-2" : "border rounded-lg p-2";
+  const miniButtonClass = high ? "rounded border border-white px-2 py-1 text-xs" : "rounded border px-2 py-1 text-xs";
+
+  if (loading) return <div className={mutedClass}>Loading history...</div>;
+  if (error) return <div className="text-sm">{error}</div>;
+  if (!revisions.length) return <div className={mutedClass}>No saved versions yet.</div>;
+
+  return (
+    <div className="space-y-3">
+      <div className={mutedClass}>
+        Pick two versions to compare. Older versions are thinned out over time: one per 10 minutes for the last
+        day, then one per hour for a month, then one per day.
+      </div>
+
+      <ul className="space-y-1 max-h-64 overflow-auto">
+        {revisions.map((r, i) => (
+          <li key={r.id} className={`${rowClass} flex items-center justify-between gap-2 flex-wrap text-sm`}>
+            <div>
+              <div>
+                {formatRevisionTime(r.created_at)}
+                {i === 0 ? " (current)" : ""}
+              </div>
+              <div className={mutedClass}>
+                {r.title ? `${r.title} · ` : ""}
+                {wordCount(r.content)} words
+              </div>
+            </div>
+
+            <div className="flex items-center gap-2 text-xs">
+              <label className="flex items-center gap-1">
+                <input type="radio" name={`from-${entryId}`} checked={fromId === r.id} onChange={() => setFromId(r.id)} />
+                From
+              </label>
+              <label className="flex items-center gap-1">
+                <input type="radio" name={`to-${entryId}`} checked={toId === r.id} onChange={() => setToId(r.id)} />
+                To
+              </label>
+              {onRestore && i > 0 ? (
+                <button className={miniButtonClass} onClick={() => void onRestore(r)} disabled={busy}>
+                  Restore
+                </button>
+              ) : null}
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      {hasOlder ? (
+        <button className={miniButtonClass} onClick={() => void loadOlder()} disabled={loadingOlder}>
+          {loadingOlder ? "Loading..." : "Show older versions"}
+        </button>
+      ) : null}
+
+      {from && to ? (
+        <div className={rowClass}>
+          <div className={mutedClass}>
+            {from.id === to.id
+              ? "Same version selected twice."
+              : `${formatRevisionTime(from.created_at)} → ${formatRevisionTime(to.created_at)} · +${stats.added} / -${stats.removed} lines`}
+          </div>
+          {(from.title ?? "") !== (to.title ?? "") ? (
+            <div className="mt-1 text-xs">
+              Title: {from.title || "(none)"} → {to.title || "(none)"}
+            </div>
+          ) : null}
+          <div className="mt-2">
+            <DiffView parts={parts} high={high} />
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
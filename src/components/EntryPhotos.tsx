@@ -0,0 +1,300 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { supabase } from "@/lib/supabaseClient";
+import { callApi, fetchObjectUrl } from "@/lib/apiClient";
+import {
+  MAX_CAPTION_LENGTH,
+  MAX_PHOTOS_PER_ENTRY,
+  PHOTO_COLUMNS,
+  preparePhoto,
+  type EntryPhoto,
+  type PhotoSize
+} from "@/lib/entryPhotos";
+
+function photoFileUrl(id: string, size: PhotoSize) {
+  return `/api/photos/file?id=${encodeURIComponent(id)}&size=${size}`;
+}
+
+function PhotoThumb({ photo, high }: { photo: EntryPhoto; high: boolean }) {
+  const [src, setSrc] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    let url: string | null = null;
+
+    void fetchObjectUrl(photoFileUrl(photo.id, "thumb")).then((u) => {
+      url = u;
+      if (cancelled) {
+        if (u) URL.revokeObjectURL(u);
+        return;
+      }
+      if (u) setSrc(u);
+      else setFailed(true);
+    });
+
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [photo.id]);
+
+  async function openFull() {
+    const url = await fetchObjectUrl(photoFileUrl(photo.id, "full"));
+    if (!url) return;
+    window.open(url, "_blank", "noopener");
+    setTimeout(() => URL.revokeObjectURL(url), 60000);
+  }
+
+  const boxClass = `w-28 h-28 rounded-lg flex items-center justify-center overflow-hidden ${
+    high ? "border border-white" : "border"
+  }`;
+
+  if (!src) {
+    return <div className={`${boxClass} text-xs`}>{failed ? "Not available" : "Loading..."}</div>;
+  }
+
+  return (
+    <button type="button" className={boxClass} onClick={() => void openFull()} title="Open full size">
+      {/* eslint-disable-next-line @next/next/no-img-element -- blob URL, not an optimizable asset */}
+      <img src={src} alt={photo.caption ?? "Photo"} className="max-w-full max-h-full object-contain" />
+    </button>
+  );
+}
+
+/**
+ * Photos attached to one entry, in the order they appear in the book. With
+ * `editable`, the owner can add, caption, reorder and remove them; otherwise
+ * (e.g. for admins) the list is read-only.
+ */
+export default function EntryPhotos({
+  entryId,
+  high = false,
+  editable = false
+}: {
+  entryId: string;
+  high?: boolean;
+  editable?: boolean;
+}) {
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [photos, setPhotos] = useState<EntryPhoto[]>([]);
+  const [captions, setCaptions] = useState<Record<string, string>>({});
+  const [busy, setBusy] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function load() {
+      setLoading(true);
+      setError(null);
+
+      const { data, error: photoErr } = await supabase
+        .from("entry_photos")
+        .select(PHOTO_COLUMNS)
+        .eq("entry_id", entryId)
+        .order("position", { ascending: true });
+
+      if (cancelled) return;
+
+      if (photoErr) {
+        setError(`Photos load error: ${photoErr.message}`);
+        setLoading(false);
+        return;
+      }
+
+      const rows = (data ?? []) as EntryPhoto[];
+      setPhotos(rows);
+      setCaptions(Object.fromEntries(rows.map((p) => [p.id, p.caption ?? ""])));
+      setLoading(false);
+    }
+
+    void load();
+    return () => {
+      cancelled = true;
+    };
+  }, [entryId, reloadKey]);
+
+  async function addPhotos(files: File[]) {
+    const room = MAX_PHOTOS_PER_ENTRY - photos.length;
+    if (files.length > room) {
+      setMessage(`An entry can have ${MAX_PHOTOS_PER_ENTRY} photos; ${room} more can be added.`);
+      files = files.slice(0, Math.max(0, room));
+    } else {
+      setMessage(null);
+    }
+    if (!files.length) return;
+
+    setBusy(true);
+    const failed: string[] = [];
+
+    for (const file of files) {
+      try {
+        const prepared = await preparePhoto(file);
+        const form = new FormData();
+        form.append("entry_id", entryId);
+        form.append("photo", prepared.photo, "photo.jpg");
+        form.append("thumb", prepared.thumb, "thumb.jpg");
+
+        const res = await callApi<EntryPhoto>("/api/photos", { method: "POST", body: form });
+        if (!res.ok) {
+          failed.push(`${file.name}: ${res.error}`);
+          continue;
+        }
+        setPhotos((prev) => [...prev, res.result]);
+        setCaptions((prev) => ({ ...prev, [res.result.id]: "" }));
+      } catch (err: unknown) {
+        failed.push(err instanceof Error ? err.message : `${file.name}: couldn't be added`);
+      }
+    }
+
+    setBusy(false);
+    if (failed.length) setMessage(`Some photos weren't added. ${failed.join(" ")}`);
+  }
+
+  async function saveCaption(photo: EntryPhoto) {
+    const caption = (captions[photo.id] ?? "").trim();
+    if (caption === (photo.caption ?? "")) return;
+
+    const res = await callApi<EntryPhoto>("/api/photos", {
+      method: "PATCH",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ id: photo.id, caption })
+    });
+
+    if (!res.ok) {
+      setMessage(`Caption not saved: ${res.error}`);
+      return;
+    }
+    setPhotos((prev) => prev.map((p) => (p.id === photo.id ? res.result : p)));
+    setMessage(null);
+  }
+
+  async function move(index: number, to: number) {
+    if (to < 0 || to >= photos.length) return;
+    const next = [...photos];
+    const [moved] = next.splice(index, 1);
+    next.splice(to, 0, moved);
+    setPhotos(next);
+
+    setBusy(true);
+    const res = await callApi("/api/photos", {
+      method: "PATCH",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ entry_id: entryId, order: next.map((p) => p.id) })
+    });
+    setBusy(false);
+
+    if (!res.ok) {
+      setMessage(`Order not saved: ${res.error}`);
+      setReloadKey((k) => k + 1);
+    }
+  }
+
+  async function remove(photo: EntryPhoto) {
+    if (!window.confirm("Remove this photo? This can't be undone.")) return;
+
+    setBusy(true);
+    const res = await callApi(`/api/photos?id=${encodeURIComponent(photo.id)}`, { method: "DELETE" });
+    setBusy(false);
+
+    if (!res.ok) {
+      setMessage(`Photo not removed: ${res.error}`);
+      return;
+    }
+    setPhotos((prev) => prev.filter((p) => p.id !== photo.id));
+  }
+
+  const mutedClass = high ? "text-xs" : "text-xs opacity-70";
+  const rowClass = high ? "border border-white rounded-lg p-2" : "border rounded-lg p-2";
+  const inputClass = high
+    ? "w-full rounded-lg border border-white bg-black text-white p-2 text-sm"
+    : "w-full rounded-lg border p-2 text-sm";
+  const miniButtonClass = high ? "rounded border border-white px-2 py-1 text-xs" : "rounded border px-2 py-1 text-xs";
+
+  if (loading) return <div className={mutedClass}>Loading photos...</div>;
+  if (error) return <div className="text-sm">{error}</div>;
+
+  return (
+    <div className="space-y-3">
+      {!photos.length ? (
+        <div className={mutedClass}>{editable ? "No photos yet. Add old family photos to this week." : "No photos."}</div>
+      ) : (
+        <ul className="space-y-2">
+          {photos.map((p, i) => (
+            <li key={p.id} className={`${rowClass} flex gap-3 items-start`}>
+              <PhotoThumb photo={p} high={high} />
+              <div className="flex-1 space-y-2">
+                {editable ? (
+                  <>
+                    <input
+                      className={inputClass}
+                      placeholder="Caption (who, where, when)"
+                      maxLength={MAX_CAPTION_LENGTH}
+                      value={captions[p.id] ?? ""}
+                      onChange={(e) => setCaptions((prev) => ({ ...prev, [p.id]: e.target.value }))}
+                      onBlur={() => void saveCaption(p)}
+                    />
+                    <div className="flex gap-1 flex-wrap">
+                      <button
+                        type="button"
+                        className={miniButtonClass}
+                        onClick={() => void move(i, i - 1)}
+                        disabled={busy || i === 0}
+                        aria-label="Move photo up"
+                      >
+                        ↑
+                      </button>
+                      <button
+                        type="button"
+                        className={miniButtonClass}
+                        onClick={() => void move(i, i + 1)}
+                        disabled={busy || i === photos.length - 1}
+                        aria-label="Move photo down"
+                      >
+                        ↓
+                      </button>
+                      <button
+                        type="button"
+                        className={miniButtonClass}
+                        onClick={() => void remove(p)}
+                        disabled={busy}
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  </>
+                ) : (
+                  <div className="text-sm">{p.caption || <span className={mutedClass}>No caption</span>}</div>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {editable && photos.length < MAX_PHOTOS_PER_ENTRY ? (
+        <label className={`${miniButtonClass} inline-block cursor-pointer ${busy ? "opacity-50" : ""}`}>
+          {busy ? "Working..." : "Add photos"}
+          <input
+            type="file"
+            accept="image/*"
+            multiple
+            className="hidden"
+            disabled={busy}
+            onChange={(e) => {
+              const files = Array.from(e.target.files ?? []);
+              e.target.value = "";
+              void addPhotos(files);
+            }}
+          />
+        </label>
+      ) : null}
+
+      {message ? <div className="text-sm">{message}</div> : null}
+    </div>
+  );
+}
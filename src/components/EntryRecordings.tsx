@@ -0,0 +1,422 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { supabase } from "@/lib/supabaseClient";
+import { callApi, fetchObjectUrl } from "@/lib/apiClient";
+import {
+  MAX_RECORDING_BYTES,
+  MAX_RECORDING_SECONDS,
+  MAX_RECORDINGS_PER_ENTRY,
+  RECORDING_BITS_PER_SECOND,
+  RECORDING_COLUMNS,
+  canRecordAudio,
+  formatDuration,
+  pickRecordingType,
+  type EntryRecording
+} from "@/lib/entryRecordings";
+
+type RecorderState = "idle" | "starting" | "recording" | "sending";
+
+// A finished recording that hasn't reached the server yet
+type Unsent = {
+  audio: Blob;
+  durationMs: number;
+};
+
+function RecordingPlayer({ recording, high }: { recording: EntryRecording; high: boolean }) {
+  const [src, setSrc] = useState<string | null>(null);
+  const [state, setState] = useState<"idle" | "loading" | "failed">("idle");
+
+  useEffect(() => {
+    return () => {
+      if (src) URL.revokeObjectURL(src);
+    };
+  }, [src]);
+
+  async function load() {
+    setState("loading");
+    const url = await fetchObjectUrl(`/api/recordings/file?id=${encodeURIComponent(recording.id)}`);
+    if (!url) {
+      setState("failed");
+      return;
+    }
+    setSrc(url);
+    setState("idle");
+  }
+
+  if (src) return <audio controls autoPlay src={src} className="w-full" />;
+
+  return (
+    <button
+      type="button"
+      className={high ? "rounded-lg border border-white px-3 py-2 text-sm" : "rounded-lg border px-3 py-2 text-sm"}
+      onClick={() => void load()}
+      disabled={state === "loading"}
+    >
+      {state === "loading" ? "Loading..." : state === "failed" ? "Couldn't load · try again" : "Play"}
+    </button>
+  );
+}
+
+/**
+ * Spoken answers for one entry. With `editable`, the owner can record with
+ * the microphone; each recording is transcribed and the text handed to
+ * `onTranscript` to add to the entry. Without it (e.g. for admins) the
+ * recordings and transcripts are read-only.
+ */
+export default function EntryRecordings({
+  entryId,
+  high = false,
+  editable = false,
+  ensureEntryId,
+  onTranscript
+}: {
+  // Null until the week's entry has been saved once
+  entryId: string | null;
+  high?: boolean;
+  editable?: boolean;
+  // Saves the entry if needed so a recording has something to attach to
+  ensureEntryId?: () => Promise<string | null>;
+  onTranscript?: (text: string) => void;
+}) {
+  const [loading, setLoading] = useState(!!entryId);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [recordings, setRecordings] = useState<EntryRecording[]>([]);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const [recorder, setRecorder] = useState<RecorderState>("idle");
+  const [elapsedMs, setElapsedMs] = useState(0);
+  const [unsent, setUnsent] = useState<Unsent | null>(null);
+
+  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const chunksRef = useRef<Blob[]>([]);
+  const startedAtRef = useRef(0);
+  const timerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+
+  useEffect(() => {
+    if (!entryId) return;
+    let cancelled = false;
+
+    async function load() {
+      setLoading(true);
+      setError(null);
+
+      const { data, error: recErr } = await supabase
+        .from("entry_recordings")
+        .select(RECORDING_COLUMNS)
+        .eq("entry_id", entryId)
+        .order("created_at", { ascending: true });
+
+      if (cancelled) return;
+
+      if (recErr) {
+        setError(`Recordings load error: ${recErr.message}`);
+        setLoading(false);
+        return;
+      }
+
+      setRecordings((data ?? []) as EntryRecording[]);
+      setLoading(false);
+    }
+
+    void load();
+    return () => {
+      cancelled = true;
+    };
+  }, [entryId]);
+
+  // Leaving the page mid-recording lets go of the microphone
+  useEffect(() => {
+    return () => {
+      if (timerRef.current) clearInterval(timerRef.current);
+      streamRef.current?.getTracks().forEach((t) => t.stop());
+    };
+  }, []);
+
+  function releaseMicrophone() {
+    if (timerRef.current) clearInterval(timerRef.current);
+    timerRef.current = null;
+    streamRef.current?.getTracks().forEach((t) => t.stop());
+    streamRef.current = null;
+    mediaRecorderRef.current = null;
+  }
+
+  async function startRecording() {
+    setMessage(null);
+    setRecorder("starting");
+
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    } catch {
+      setRecorder("idle");
+      setMessage("The microphone couldn't be used. Check that this site is allowed to use it, then try again.");
+      return;
+    }
+
+    const mimeType = pickRecordingType();
+    let mediaRecorder: MediaRecorder;
+    try {
+      mediaRecorder = new MediaRecorder(stream, {
+        ...(mimeType ? { mimeType } : {}),
+        audioBitsPerSecond: RECORDING_BITS_PER_SECOND
+      });
+    } catch {
+      stream.getTracks().forEach((t) => t.stop());
+      setRecorder("idle");
+      setMessage("This browser couldn't start recording. Try a recent Chrome, Edge, Firefox or Safari.");
+      return;
+    }
+
+    chunksRef.current = [];
+    mediaRecorder.ondataavailable = (e) => {
+      if (e.data.size) chunksRef.current.push(e.data);
+    };
+    mediaRecorder.onstop = () => {
+      const durationMs = Date.now() - startedAtRef.current;
+      const audio = new Blob(chunksRef.current, { type: mediaRecorder.mimeType || mimeType });
+      releaseMicrophone();
+      void sendRef.current({ audio, durationMs });
+    };
+
+    mediaRecorder.onstart = () => {
+      startedAtRef.current = Date.now();
+      setElapsedMs(0);
+      setRecorder("recording");
+
+      timerRef.current = setInterval(() => {
+        const elapsed = Date.now() - startedAtRef.current;
+        setElapsedMs(elapsed);
+        if (elapsed >= MAX_RECORDING_SECONDS * 1000) stopRecording();
+      }, 250);
+    };
+
+    streamRef.current = stream;
+    mediaRecorderRef.current = mediaRecorder;
+    mediaRecorder.start(1000);
+  }
+
+  function stopRecording() {
+    const mediaRecorder = mediaRecorderRef.current;
+    if (mediaRecorder && mediaRecorder.state !== "inactive") mediaRecorder.stop();
+  }
+
+  async function send(recording: Unsent) {
+    setRecorder("sending");
+    setUnsent(null);
+
+    if (recording.audio.size > MAX_RECORDING_BYTES) {
+      setRecorder("idle");
+      setMessage("That recording is too long to keep. Try a shorter answer.");
+      return;
+    }
+
+    const id = entryId ?? (ensureEntryId ? await ensureEntryId() : null);
+    if (!id) {
+      setRecorder("idle");
+      setUnsent(recording);
+      setMessage("This week couldn't be saved, so the recording isn't stored yet.");
+      return;
+    }
+
+    const form = new FormData();
+    form.append("entry_id", id);
+    form.append("duration_ms", String(recording.durationMs));
+    form.append("audio", recording.audio, "recording");
+
+    const res = await callApi<EntryRecording>("/api/recordings", { method: "POST", body: form });
+    setRecorder("idle");
+
+    if (!res.ok) {
+      setUnsent(recording);
+      setMessage(`The recording wasn't stored: ${res.error}`);
+      return;
+    }
+
+    setRecordings((prev) => [...prev.filter((r) => r.id !== res.result.id), res.result]);
+    applyTranscript(res.result);
+  }
+
+  function applyTranscript(recording: EntryRecording) {
+    if (recording.transcript_status === "done" && recording.transcript) {
+      onTranscript?.(recording.transcript);
+      setMessage("Your words were added to the end of your entry. Read them over and fix anything that was misheard.");
+    } else {
+      setMessage(
+        `The recording is stored, but it couldn't be turned into text${
+          recording.transcript_error ? ` (${recording.transcript_error})` : ""
+        }. You can try again below.`
+      );
+    }
+  }
+
+  // The recorder calls back after later renders; it should save and attach
+  // with the entry as it is by then
+  const sendRef = useRef(send);
+  useEffect(() => {
+    sendRef.current = send;
+  });
+
+  async function transcribeAgain(recording: EntryRecording) {
+    setBusyId(recording.id);
+    setMessage(null);
+    const res = await callApi<EntryRecording>("/api/recordings/transcribe", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ id: recording.id })
+    });
+    setBusyId(null);
+
+    if (!res.ok) {
+      setMessage(`Transcription error: ${res.error}`);
+      return;
+    }
+    setRecordings((prev) => prev.map((r) => (r.id === recording.id ? res.result : r)));
+    applyTranscript(res.result);
+  }
+
+  async function remove(recording: EntryRecording) {
+    if (!window.confirm("Remove this recording? Text already added to your entry stays.")) return;
+
+    setBusyId(recording.id);
+    const res = await callApi(`/api/recordings?id=${encodeURIComponent(recording.id)}`, { method: "DELETE" });
+    setBusyId(null);
+
+    if (!res.ok) {
+      setMessage(`Recording not removed: ${res.error}`);
+      return;
+    }
+    setRecordings((prev) => prev.filter((r) => r.id !== recording.id));
+  }
+
+  const mutedClass = high ? "text-sm" : "text-sm opacity-70";
+  const rowClass = high ? "border border-white rounded-lg p-3" : "border rounded-lg p-3";
+  const miniButtonClass = high ? "rounded border border-white px-2 py-1 text-sm" : "rounded border px-2 py-1 text-sm";
+  // Big enough to find and press easily; this is the main control for people who can't type
+  const recordButtonClass = high
+    ? "rounded-xl bg-white text-black px-6 py-4 text-lg font-semibold"
+    : "rounded-xl border-2 px-6 py-4 text-lg font-semibold";
+
+  if (loading) return <div className={mutedClass}>Loading recordings...</div>;
+  if (error) return <div className="text-sm">{error}</div>;
+
+  const full = recordings.length >= MAX_RECORDINGS_PER_ENTRY;
+  const supported = canRecordAudio();
+
+  return (
+    <div className="space-y-3">
+      {editable ? (
+        <div className="space-y-2">
+          <div className={mutedClass}>
+            Prefer to talk? Record your answer and it will be written out for you to read over. Up to{" "}
+            {MAX_RECORDING_SECONDS / 60} minutes at a time.
+          </div>
+
+          {!supported ? (
+            <div className="text-sm">This browser can&apos;t record audio. Try a recent Chrome, Edge, Firefox or Safari.</div>
+          ) : full ? (
+            <div className="text-sm">This week already has {MAX_RECORDINGS_PER_ENTRY} recordings.</div>
+          ) : (
+            <div className="flex items-center gap-3 flex-wrap">
+              {recorder === "recording" ? (
+                <button type="button" className={recordButtonClass} onClick={stopRecording}>
+                  ■ Stop recording
+                </button>
+              ) : (
+                <button
+                  type="button"
+                  className={recordButtonClass}
+                  onClick={() => void startRecording()}
+                  disabled={recorder !== "idle"}
+                >
+                  {recorder === "sending" ? "Writing out your words..." : "● Start recording"}
+                </button>
+              )}
+
+              {recorder === "recording" ? (
+                <span className="text-lg" aria-live="polite">
+                  Recording {formatDuration(elapsedMs)} / {formatDuration(MAX_RECORDING_SECONDS * 1000)}
+                </span>
+              ) : null}
+
+              {unsent && recorder === "idle" ? (
+                <button type="button" className={miniButtonClass} onClick={() => void send(unsent)}>
+                  Try sending again
+                </button>
+              ) : null}
+            </div>
+          )}
+        </div>
+      ) : null}
+
+      {message ? (
+        <div className="text-sm" aria-live="polite">
+          {message}
+        </div>
+      ) : null}
+
+      {!recordings.length ? (
+        editable ? null : <div className={mutedClass}>No recordings.</div>
+      ) : (
+        <ul className="space-y-2">
+          {recordings.map((r) => (
+            <li key={r.id} className={`${rowClass} space-y-2`}>
+              <div className={mutedClass}>
+                {new Date(r.created_at).toLocaleString()}
+                {r.duration_ms ? ` · ${formatDuration(r.duration_ms)}` : ""}
+              </div>
+
+              <RecordingPlayer recording={r} high={high} />
+
+              {r.transcript_status === "done" && r.transcript ? (
+                <div className="text-sm whitespace-pre-wrap">{r.transcript}</div>
+              ) : (
+                <div className={mutedClass}>
+                  {r.transcript_status === "pending"
+                    ? "Not written out yet."
+                    : `Couldn't be written out${r.transcript_error ? `: ${r.transcript_error}` : "."}`}
+                </div>
+              )}
+
+              {editable ? (
+                <div className="flex gap-1 flex-wrap">
+                  {r.transcript_status === "done" && r.transcript ? (
+                    <button
+                      type="button"
+                      className={miniButtonClass}
+                      onClick={() => {
+                        onTranscript?.(r.transcript ?? "");
+                        setMessage("The text was added to the end of your entry.");
+                      }}
+                    >
+                      Add text to entry again
+                    </button>
+                  ) : (
+                    <button
+                      type="button"
+                      className={miniButtonClass}
+                      onClick={() => void transcribeAgain(r)}
+                      disabled={busyId === r.id}
+                    >
+                      {busyId === r.id ? "Writing out..." : "Try writing it out again"}
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    className={miniButtonClass}
+                    onClick={() => void remove(r)}
+                    disabled={busyId === r.id}
+                  >
+                    Remove
+                  </button>
+                </div>
+              ) : null}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,215 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import {
+  docToHtml,
+  mergeRuns,
+  runsText,
+  type RichTextBlock,
+  type RichTextDoc,
+  type RichTextRun
+} from "@/lib/richText";
+
+type Marks = { bold: boolean; italic: boolean };
+
+const BLOCK_TAGS = new Set(["P", "DIV", "H1", "H2", "H3", "H4", "H5", "H6", "BLOCKQUOTE", "UL", "OL", "LI", "PRE"]);
+
+function isBold(el: HTMLElement) {
+  if (el.tagName === "B" || el.tagName === "STRONG") return true;
+  const w = el.style.fontWeight;
+  return w === "bold" || Number(w) >= 600;
+}
+
+function isItalic(el: HTMLElement) {
+  return el.tagName === "I" || el.tagName === "EM" || el.style.fontStyle === "italic";
+}
+
+// Inline content of a node as runs; nested blocks become line breaks
+function collectRuns(node: Node, marks: Marks, out: RichTextRun[]) {
+  if (node.nodeType === Node.TEXT_NODE) {
+    const text = (node.textContent ?? "").replace(/\u00a0/g, " ");
+    if (text) out.push({ text, bold: marks.bold, italic: marks.italic });
+    return;
+  }
+  if (!(node instanceof HTMLElement)) return;
+
+  if (node.tagName === "BR") {
+    out.push({ text: "\n" });
+    return;
+  }
+
+  const next = { bold: marks.bold || isBold(node), italic: marks.italic || isItalic(node) };
+  const block = BLOCK_TAGS.has(node.tagName);
+  if (block && out.length && !runsText(out).endsWith("\n")) out.push({ text: "\n" });
+  node.childNodes.forEach((child) => collectRuns(child, next, out));
+}
+
+// Browsers end a block with a <br> so the caret has somewhere to go
+function blockRuns(node: Node) {
+  const runs: RichTextRun[] = [];
+  collectRuns(node, { bold: false, italic: false }, runs);
+  const merged = mergeRuns(runs);
+  const last = merged[merged.length - 1];
+  if (last) last.text = last.text.replace(/\n+$/, "");
+  return merged.filter((r) => r.text);
+}
+
+/**
+ * Reads the editor's DOM back into a document. Browsers differ in the markup
+ * they produce while typing (div or p per line, b or strong), so this only
+ * looks at the kind of each block and the bold/italic marks.
+ */
+function docFromElement(root: HTMLElement): RichTextDoc {
+  const blocks: RichTextBlock[] = [];
+  let loose: Node[] = [];
+
+  function flushLoose() {
+    if (!loose.length) return;
+    const wrapper = document.createElement("div");
+    loose.forEach((n) => wrapper.appendChild(n.cloneNode(true)));
+    const runs = blockRuns(wrapper);
+    if (runsText(runs).trim()) blocks.push({ type: "paragraph", runs });
+    loose = [];
+  }
+
+  root.childNodes.forEach((node) => {
+    if (!(node instanceof HTMLElement) || !BLOCK_TAGS.has(node.tagName)) {
+      loose.push(node);
+      return;
+    }
+    flushLoose();
+
+    const tag = node.tagName;
+    if (tag === "UL" || tag === "OL") {
+      const items = Array.from(node.children)
+        .filter((li) => li.tagName === "LI")
+        .map(blockRuns)
+        .filter((runs) => runsText(runs).trim());
+      if (items.length) blocks.push({ type: tag === "UL" ? "bulleted_list" : "numbered_list", items });
+      return;
+    }
+
+    const runs = blockRuns(node);
+    if (!runsText(runs).trim()) return;
+    if (/^H[1-6]$/.test(tag)) blocks.push({ type: "heading", runs });
+    else if (tag === "BLOCKQUOTE") blocks.push({ type: "quote", runs });
+    else blocks.push({ type: "paragraph", runs });
+  });
+  flushLoose();
+
+  return { version: 1, blocks };
+}
+
+type FormatCommand = { label: string; title: string; run: () => void };
+
+/**
+ * Formatted writing area: bold, italic, headings for sub-stories, quotes and
+ * lists. Pasted content comes in as plain text so other sites' styling
+ * doesn't leak in.
+ */
+export default function RichTextEditor({
+  value,
+  onChange,
+  high = false,
+  placeholder,
+  className
+}: {
+  value: RichTextDoc;
+  onChange: (doc: RichTextDoc) => void;
+  high?: boolean;
+  placeholder?: string;
+  className?: string;
+}) {
+  const ref = useRef<HTMLDivElement>(null);
+  // The document this editor last reported; anything else is a new value
+  // from outside (another week, a restored version) and replaces the DOM
+  const emittedRef = useRef<string | null>(null);
+
+  const serialized = JSON.stringify(value);
+
+  useEffect(() => {
+    const el = ref.current;
+    if (!el || serialized === emittedRef.current) return;
+    el.innerHTML = docToHtml(value);
+    emittedRef.current = serialized;
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [serialized]);
+
+  function emit() {
+    const el = ref.current;
+    if (!el) return;
+    const doc = docFromElement(el);
+    emittedRef.current = JSON.stringify(doc);
+    onChange(doc);
+  }
+
+  function exec(command: string, arg?: string) {
+    ref.current?.focus();
+    document.execCommand(command, false, arg);
+    emit();
+  }
+
+  function toggleBlock(tag: "h3" | "blockquote") {
+    const current = String(document.queryCommandValue("formatBlock")).toLowerCase();
+    exec("formatBlock", current === tag ? "p" : tag);
+  }
+
+  const commands: FormatCommand[] = [
+    { label: "B", title: "Bold", run: () => exec("bold") },
+    { label: "I", title: "Italic", run: () => exec("italic") },
+    { label: "Heading", title: "Heading for a part of the story", run: () => toggleBlock("h3") },
+    { label: "Quote", title: "Block quote", run: () => toggleBlock("blockquote") },
+    { label: "• List", title: "Bulleted list", run: () => exec("insertUnorderedList") },
+    { label: "1. List", title: "Numbered list", run: () => exec("insertOrderedList") }
+  ];
+
+  const toolButtonClass = high
+    ? "rounded border border-white px-2 py-1 text-xs"
+    : "rounded border px-2 py-1 text-xs";
+  const areaClass = high
+    ? "rounded-lg border border-white bg-black text-white p-2"
+    : "rounded-lg border p-2";
+
+  const isEmpty = !value.blocks.length;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-1 flex-wrap" role="toolbar" aria-label="Formatting">
+        {commands.map((c) => (
+          <button
+            key={c.title}
+            type="button"
+            className={toolButtonClass}
+            title={c.title}
+            aria-label={c.title}
+            // Keep the selection in the text while clicking
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={c.run}
+          >
+            <span className={c.label === "B" ? "font-bold" : c.label === "I" ? "italic" : undefined}>{c.label}</span>
+          </button>
+        ))}
+      </div>
+
+      <div className="relative">
+        {isEmpty && placeholder ? (
+          <div className={`pointer-events-none absolute left-2 top-2 ${high ? "" : "opacity-50"}`}>{placeholder}</div>
+        ) : null}
+        <div
+          ref={ref}
+          className={`${areaClass} rich-text whitespace-pre-wrap outline-none ${className ?? ""}`}
+          contentEditable
+          suppressContentEditableWarning
+          role="textbox"
+          aria-multiline="true"
+          aria-label="Your entry"
+          onInput={emit}
+          onPaste={(e) => {
+            e.preventDefault();
+            document.execCommand("insertText", false, e.clipboardData.getData("text/plain"));
+          }}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+import { Fragment } from "react";
+import { isListBlock, type RichTextBlock, type RichTextRun } from "@/lib/richText";
+
+function Runs({ runs }: { runs: RichTextRun[] }) {
+  return (
+    <>
+      {runs.map((r, i) => {
+        let node = <>{r.text}</>;
+        if (r.italic) node = <em>{node}</em>;
+        if (r.bold) node = <strong>{node}</strong>;
+        return <Fragment key={i}>{node}</Fragment>;
+      })}
+    </>
+  );
+}
+
+/**
+ * Read-only rendering of formatted entry text, styled by the `.rich-text`
+ * rules in globals.css the same way as the editor.
+ */
+export default function RichTextView({ blocks, className }: { blocks: RichTextBlock[]; className?: string }) {
+  return (
+    <div className={`rich-text whitespace-pre-wrap ${className ?? ""}`}>
+      {blocks.map((b, i) => {
+        if (isListBlock(b)) {
+          const items = b.items.map((item, j) => (
+            <li key={j}>
+              <Runs runs={item} />
+            </li>
+          ));
+          return b.type === "bulleted_list" ? <ul key={i}>{items}</ul> : <ol key={i}>{items}</ol>;
+        }
+        if (b.type === "heading") {
+          return (
+            <h3 key={i}>
+              <Runs runs={b.runs} />
+            </h3>
+          );
+        }
+        if (b.type === "quote") {
+          return (
+            <blockquote key={i}>
+              <p>
+                <Runs runs={b.runs} />
+              </p>
+            </blockquote>
+          );
+        }
+        return (
+          <p key={i}>
+            <Runs runs={b.runs} />
+          </p>
+        );
+      })}
+    </div>
+  );
+}
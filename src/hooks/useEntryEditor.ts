@@ -0,0 +1,648 @@
+"use client";
+
+import { useEffect, useMemo, useReducer, useRef, useState } from "react";
+import { useRouter } from "next/navigation";
+import { supabase } from "@/lib/supabaseClient";
+import type { EntryRevision } from "@/components/EntryHistory";
+import { deleteDraft, getDraft, listDrafts, putDraft } from "@/lib/draftStore";
+import { INITIAL_AUTOSAVE, autosaveReducer } from "@/lib/autosave";
+import {
+  entryPayloadOf,
+  fetchEntryForWeek,
+  sameEntryText,
+  syncDraft,
+  writeEntry,
+  type EntryPayload,
+  type SavedEntry
+} from "@/lib/entrySave";
+import { normalizeEntryStatus, type EntryStatus } from "@/lib/program";
+import {
+  blockToPlainText,
+  docFromPlainText,
+  docToPlainText,
+  emptyDoc,
+  isRichTextDoc,
+  readEntryDoc,
+  type RichTextDoc
+} from "@/lib/richText";
+import type { WriterPrompt } from "@/hooks/useWriterData";
+
+// A save refused because the entry changed elsewhere; kept until the user
+// resolves it so autosave doesn't retry against the newer version
+export type EntryConflict = {
+  theirs: SavedEntry;
+  mine: EntryPayload;
+};
+
+export function formatSavedTimestamp(d: Date) {
+  try {
+    return d.toLocaleString(undefined, {
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "numeric",
+      minute: "2-digit"
+    });
+  } catch {
+    return d.toISOString();
+  }
+}
+
+export const OFFLINE_MESSAGE =
+  "You're offline. Your writing is kept on this device and will be saved to your account when you reconnect.";
+
+/**
+ * Editor state for one week's entry: the form fields, dirty tracking, drafts
+ * kept on the device, autosave with retries, and conflict resolution. Pages
+ * render it with <EntryEditor>.
+ */
+export function useEntryEditor({
+  userId,
+  week,
+  prompts,
+  entries,
+  reloadEntries,
+  ready,
+  active
+}: {
+  userId: string | null;
+  week: number;
+  prompts: WriterPrompt[];
+  entries: SavedEntry[];
+  reloadEntries: () => Promise<void>;
+  // Data has finished loading
+  ready: boolean;
+  // The editor is on screen; drafts and the autosave interval pause otherwise
+  active: boolean;
+}) {
+  const router = useRouter();
+
+  const prompt = useMemo(() => prompts.find((x) => x.week === week) ?? null, [prompts, week]);
+  const entry = useMemo(() => entries.find((x) => x.week === week) ?? null, [entries, week]);
+
+  const [title, setTitle] = useState("");
+  const [doc, setDoc] = useState<RichTextDoc>(emptyDoc);
+  const content = useMemo(() => docToPlainText(doc), [doc]);
+
+  const [lifeStage, setLifeStage] = useState("");
+  const [tone, setTone] = useState("");
+  const [keyPeople, setKeyPeople] = useState("");
+  const [locations, setLocations] = useState("");
+  const [themes, setThemes] = useState("");
+
+  const [entryStatus, setEntryStatus] = useState<EntryStatus>("in_progress");
+
+  const [message, setMessage] = useState<string | null>(null);
+  const [lastSavedAt, setLastSavedAt] = useState<Date | null>(null);
+
+  const [busy, setBusy] = useState(false);
+  const [conflict, setConflict] = useState<EntryConflict | null>(null);
+  const [conflictOpen, setConflictOpen] = useState(false);
+
+  // Offline drafting: unsaved writing is kept on this device and synced later
+  const [online, setOnline] = useState(true);
+  const [draftSavedAt, setDraftSavedAt] = useState<Date | null>(null);
+  const [pendingWeeks, setPendingWeeks] = useState<number[]>([]);
+
+  const [autosave, dispatchAutosave] = useReducer(autosaveReducer, INITIAL_AUTOSAVE);
+
+  const savedSnapshotRef = useRef<string>("");
+  const isSavingRef = useRef(false);
+  // Editor is only reset from the server when the week or entry version changes
+  const loadedEntryKeyRef = useRef("");
+  const draftCheckedWeekRef = useRef<number | null>(null);
+
+  function currentSnapshot() {
+    return JSON.stringify({
+      week,
+      title,
+      doc,
+      lifeStage,
+      tone,
+      keyPeople,
+      locations,
+      themes,
+      entryStatus
+    });
+  }
+
+  const snapshot = currentSnapshot();
+  const isDirty = snapshot !== savedSnapshotRef.current;
+
+  useEffect(() => {
+    function onBeforeUnload(e: BeforeUnloadEvent) {
+      if (!isDirty) return;
+      e.preventDefault();
+      e.returnValue = "";
+    }
+    window.addEventListener("beforeunload", onBeforeUnload);
+    return () => window.removeEventListener("beforeunload", onBeforeUnload);
+  }, [isDirty]);
+
+  function confirmDiscardIfDirty() {
+    if (!isDirty) return true;
+    if (!window.confirm("You have unsaved changes. Leave without saving?")) return false;
+    // Discarding on purpose: don't let the device copy come back or sync later
+    if (userId) void deleteDraft(userId, week).catch(() => undefined);
+    setDraftSavedAt(null);
+    return true;
+  }
+
+  function fillEditor(
+    e: (Omit<EntryPayload, "user_id" | "prompt_key" | "week" | "content_doc"> & { content_doc?: unknown }) | null
+  ) {
+    setTitle(e?.title ?? "");
+    setDoc(e ? readEntryDoc(e) : emptyDoc());
+
+    setLifeStage(e?.life_stage ?? "");
+    setTone(e?.tone ?? "");
+    setKeyPeople(e?.key_people ?? "");
+    setLocations(e?.locations ?? "");
+    setThemes(e?.themes ?? "");
+
+    setEntryStatus(normalizeEntryStatus(e?.status));
+  }
+
+  async function keepDraft(payload: EntryPayload) {
+    try {
+      const d = await putDraft({ ...payload, entry_id: entry?.id ?? null, base_version: entry?.version ?? null });
+      setDraftSavedAt(new Date(d.saved_at));
+    } catch {
+      // No IndexedDB (e.g. some private windows): saving still works online
+    }
+  }
+
+  function editorPayload(uid: string, p: WriterPrompt, status: EntryStatus = entryStatus): EntryPayload {
+    return {
+      user_id: uid,
+      prompt_key: p.prompt_key,
+      week: p.week,
+      title: title || null,
+      content,
+      content_doc: doc,
+      status,
+      life_stage: lifeStage || null,
+      tone: tone || null,
+      key_people: keyPeople || null,
+      locations: locations || null,
+      themes: themes || null
+    };
+  }
+
+  // A conflict or failed save belongs to the week it happened in
+  useEffect(() => {
+    setConflict(null);
+    setConflictOpen(false);
+    dispatchAutosave({ type: "reset" });
+  }, [week]);
+
+  useEffect(() => {
+    // Reloading the list after syncing another week must not wipe this editor
+    const key = `${week}:${entry?.id ?? ""}:${entry?.version ?? ""}`;
+    if (key === loadedEntryKeyRef.current) return;
+    loadedEntryKeyRef.current = key;
+
+    fillEditor(entry);
+
+    savedSnapshotRef.current = JSON.stringify({
+      week,
+      title: entry?.title ?? "",
+      doc: entry ? readEntryDoc(entry) : emptyDoc(),
+      lifeStage: entry?.life_stage ?? "",
+      tone: entry?.tone ?? "",
+      keyPeople: entry?.key_people ?? "",
+      locations: entry?.locations ?? "",
+      themes: entry?.themes ?? "",
+      entryStatus: normalizeEntryStatus(entry?.status)
+    });
+
+    if (entry?.updated_at) setLastSavedAt(new Date(entry.updated_at));
+    else setLastSavedAt(null);
+  }, [entry, week]);
+
+  // Writing left on this device from an earlier visit (e.g. typed offline)
+  useEffect(() => {
+    if (!ready || !userId) return;
+    if (draftCheckedWeekRef.current === week) return;
+    draftCheckedWeekRef.current = week;
+
+    async function recoverDraft(uid: string, w: number) {
+      const draft = await getDraft(uid, w).catch(() => null);
+      if (!draft || draftCheckedWeekRef.current !== w) return;
+
+      const e = entries.find((x) => x.week === w) ?? null;
+      const mine = entryPayloadOf(draft);
+
+      if (e && JSON.stringify(entryPayloadOf(e)) === JSON.stringify(mine)) {
+        await deleteDraft(uid, w).catch(() => undefined);
+        return;
+      }
+
+      const basedOnCurrent = e ? draft.entry_id === e.id && draft.base_version === e.version : true;
+      const when = formatSavedTimestamp(new Date(draft.saved_at));
+
+      if (basedOnCurrent) {
+        fillEditor(draft);
+        setDraftSavedAt(new Date(draft.saved_at));
+        setMessage(`Recovered writing kept on this device from ${when}. It will be saved to your account.`);
+        return;
+      }
+
+      setConflict({ theirs: e!, mine });
+      setConflictOpen(true);
+      setMessage(`You have writing on this device from ${when}, but this week was changed elsewhere since.`);
+    }
+
+    void recoverDraft(userId, week);
+  }, [ready, userId, week, entries]);
+
+  // Keep unsaved writing on this device as the user types
+  useEffect(() => {
+    if (!isDirty || !userId || !prompt || !active) return;
+
+    const id = window.setTimeout(() => {
+      if (isSavingRef.current) return;
+      void keepDraft(editorPayload(userId, prompt));
+    }, 800);
+
+    return () => window.clearTimeout(id);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [snapshot, isDirty, userId, prompt, entry, active]);
+
+  useEffect(() => {
+    setOnline(navigator.onLine);
+    const onOnline = () => setOnline(true);
+    const onOffline = () => setOnline(false);
+    window.addEventListener("online", onOnline);
+    window.addEventListener("offline", onOffline);
+    return () => {
+      window.removeEventListener("online", onOnline);
+      window.removeEventListener("offline", onOffline);
+    };
+  }, []);
+
+  // Back online (or first load): push drafts left for other weeks, then the
+  // current week through the normal save path
+  useEffect(() => {
+    if (!online || !userId || !ready) return;
+
+    async function syncPending(uid: string) {
+      const drafts = await listDrafts(uid).catch(() => []);
+      const waiting: number[] = [];
+      const conflicts: number[] = [];
+      let synced = 0;
+
+      for (const d of drafts) {
+        if (d.week === week) continue;
+        try {
+          const res = await syncDraft(d);
+          if (res.status === "synced") synced += 1;
+          else if (res.status === "conflict") conflicts.push(d.week);
+          else waiting.push(d.week);
+        } catch {
+          waiting.push(d.week);
+        }
+      }
+
+      setPendingWeeks([...conflicts, ...waiting].sort((a, b) => a - b));
+      if (synced) await reloadEntries().catch(() => undefined);
+      if (conflicts.length) {
+        setMessage(
+          `Week ${conflicts.join(", ")} has writing from this device that conflicts with a newer version. Open it to merge.`
+        );
+      }
+
+      if (isDirty) void saveInternal("auto");
+    }
+
+    void syncPending(userId);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [online, userId, ready]);
+
+  async function saveInternal(mode: "manual" | "auto", overrideStatus?: EntryStatus) {
+    if (isSavingRef.current) return;
+    if (!prompt) return;
+
+    if (conflict && mode === "auto") return;
+
+    if (!userId) {
+      router.push("/login");
+      return;
+    }
+
+    isSavingRef.current = true;
+    dispatchAutosave({ type: "start" });
+    try {
+      const payload = editorPayload(userId, prompt, overrideStatus ?? entryStatus);
+
+      // Still unresolved: reopen the dialog with the text as it is now
+      if (conflict) {
+        setConflict({ ...conflict, mine: payload });
+        setConflictOpen(true);
+        dispatchAutosave({ type: "failure", error: "Waiting for you to merge.", at: Date.now(), retry: false });
+        return;
+      }
+
+      if (!navigator.onLine) {
+        await keepDraft(payload);
+        dispatchAutosave({ type: "failure", error: "You're offline.", at: Date.now(), retry: true });
+        if (mode === "manual") setMessage(OFFLINE_MESSAGE);
+        return;
+      }
+
+      let result = await writeEntry(payload, entry);
+
+      // The access token expired mid-session: refresh it once and try again
+      if (!result.ok && result.unauthorized) {
+        const { error: refreshErr } = await supabase.auth.refreshSession();
+        if (!refreshErr) result = await writeEntry(payload, entry);
+      }
+
+      if (!result.ok && result.conflict) {
+        const latest = await fetchEntryForWeek(userId, week);
+
+        // Only the status or details changed elsewhere (e.g. "Mark complete"
+        // on the dashboard); the text this edit started from is intact
+        const textIntact = latest && entry && sameEntryText(latest, entry);
+
+        if (latest && textIntact) {
+          result = await writeEntry(payload, latest);
+        } else if (latest) {
+          setConflict({ theirs: latest, mine: payload });
+          setConflictOpen(true);
+          setMessage("This week was changed in another tab or device. Your latest edits are not saved yet.");
+          dispatchAutosave({ type: "failure", error: "Changed elsewhere.", at: Date.now(), retry: false });
+          return;
+        }
+      }
+
+      if (!result.ok) {
+        // Whatever went wrong, the writing stays on this device
+        await keepDraft(payload);
+
+        if (result.unauthorized) {
+          dispatchAutosave({ type: "failure", error: result.error, at: Date.now(), retry: false, needsSignIn: true });
+        } else {
+          dispatchAutosave({ type: "failure", error: result.error, at: Date.now(), retry: true });
+        }
+
+        if (mode === "manual") setMessage(result.offline ? OFFLINE_MESSAGE : `Save error: ${result.error}`);
+        return;
+      }
+
+      dispatchAutosave({ type: "success", at: Date.now() });
+      await deleteDraft(userId, week).catch(() => undefined);
+      setDraftSavedAt(null);
+
+      const now = new Date();
+      setLastSavedAt(now);
+
+      if (overrideStatus) setEntryStatus(overrideStatus);
+
+      if (mode === "manual") setMessage(`Saved at ${formatSavedTimestamp(now)}.`);
+      else setMessage(null);
+
+      await reloadEntries();
+
+      savedSnapshotRef.current = JSON.stringify({
+        week,
+        title,
+        doc,
+        lifeStage,
+        tone,
+        keyPeople,
+        locations,
+        themes,
+        entryStatus: overrideStatus ?? entryStatus
+      });
+    } catch (err: unknown) {
+      const error = err instanceof Error ? err.message : "Unknown error";
+      dispatchAutosave({ type: "failure", error, at: Date.now(), retry: true });
+      if (mode === "manual") setMessage(`Save error: ${error}`);
+    } finally {
+      isSavingRef.current = false;
+    }
+  }
+
+  // Timers below call the latest saveInternal, not the one from when they
+  // were scheduled, so a retry always sends what is on screen now
+  const saveRef = useRef(saveInternal);
+  useEffect(() => {
+    saveRef.current = saveInternal;
+  });
+
+  useEffect(() => {
+    if (autosave.status !== "retrying" || autosave.nextRetryAt === null) return;
+
+    const id = window.setTimeout(() => {
+      if (isDirty) void saveRef.current("auto");
+      else dispatchAutosave({ type: "reset" });
+    }, Math.max(0, autosave.nextRetryAt - Date.now()));
+
+    return () => window.clearTimeout(id);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [autosave.status, autosave.nextRetryAt]);
+
+  // Autosave every 30 seconds while writing if dirty and has some text
+  useEffect(() => {
+    if (!active) return;
+
+    const id = window.setInterval(() => {
+      if (!isDirty) return;
+      // Backoff timer or a sign-in owns the next attempt
+      if (autosave.status === "retrying" || autosave.needsSignIn) return;
+      const hasAnyText = (title ?? "").trim().length > 0 || (content ?? "").trim().length > 0;
+      if (!hasAnyText) return;
+      void saveRef.current("auto");
+    }, 30_000);
+
+    return () => window.clearInterval(id);
+  }, [active, isDirty, title, content, autosave]);
+
+  async function saveMerged(mergedTitle: string, mergedContent: string) {
+    if (!conflict || isSavingRef.current) return;
+
+    isSavingRef.current = true;
+    setBusy(true);
+    try {
+      // The merge is edited as plain text; formatting survives when one side
+      // was kept as it was
+      const keptDoc =
+        mergedContent === conflict.mine.content
+          ? conflict.mine.content_doc
+          : mergedContent === conflict.theirs.content
+            ? conflict.theirs.content_doc
+            : null;
+      const payload: EntryPayload = {
+        ...conflict.mine,
+        title: mergedTitle || null,
+        content: mergedContent,
+        content_doc: keptDoc
+      };
+      const result = await writeEntry(payload, conflict.theirs);
+
+      if (!result.ok && result.conflict) {
+        // Saved elsewhere yet again; show the newest version instead
+        const latest = await fetchEntryForWeek(conflict.mine.user_id, conflict.mine.week);
+        if (latest) setConflict({ theirs: latest, mine: payload });
+        return;
+      }
+
+      if (!result.ok) {
+        setMessage(`Save error: ${result.error}`);
+        return;
+      }
+
+      await deleteDraft(conflict.mine.user_id, conflict.mine.week).catch(() => undefined);
+      dispatchAutosave({ type: "success", at: Date.now() });
+      setDraftSavedAt(null);
+      setConflict(null);
+      setConflictOpen(false);
+      setLastSavedAt(new Date());
+      setMessage("Merged version saved.");
+      await reloadEntries();
+    } catch (err: unknown) {
+      setMessage(`Save error: ${err instanceof Error ? err.message : "Unknown error"}`);
+    } finally {
+      isSavingRef.current = false;
+      setBusy(false);
+    }
+  }
+
+  async function keepTheirs() {
+    if (!conflict) return;
+
+    setConflict(null);
+    setConflictOpen(false);
+    setDraftSavedAt(null);
+    dispatchAutosave({ type: "reset" });
+    setMessage("Loaded the version saved elsewhere.");
+    try {
+      await deleteDraft(conflict.mine.user_id, conflict.mine.week).catch(() => undefined);
+      // Force the editor to reload even if the version matches what was loaded
+      loadedEntryKeyRef.current = "";
+      await reloadEntries();
+    } catch (err: unknown) {
+      setMessage(`Entry list error: ${err instanceof Error ? err.message : "Unknown error"}`);
+    }
+  }
+
+  async function save() {
+    setMessage(null);
+    await saveInternal("manual");
+  }
+
+  async function toggleComplete() {
+    await saveInternal("manual", entryStatus === "complete" ? "in_progress" : "complete");
+  }
+
+  // Attachments hang off the entry row, so a week with nothing saved yet is
+  // saved first. Null when that didn't work (the message says why).
+  async function ensureEntryId() {
+    if (entry) return entry.id;
+    if (!userId) return null;
+
+    await saveInternal("manual");
+    const latest = await fetchEntryForWeek(userId, week).catch(() => null);
+    return latest?.id ?? null;
+  }
+
+  // Adds text (e.g. a transcript) as new paragraphs after what's written
+  function appendText(text: string) {
+    const added = docFromPlainText(text.trim());
+    if (!added.blocks.length) return;
+    setDoc((prev) => {
+      // An empty last paragraph is where the cursor was, not writing to keep
+      const blocks = [...prev.blocks];
+      while (blocks.length && !blockToPlainText(blocks[blocks.length - 1]).trim()) blocks.pop();
+      return { ...prev, blocks: [...blocks, ...added.blocks] };
+    });
+  }
+
+  // Restoring writes the old version back as a normal save, so the text it
+  // replaces stays in the history too
+  async function restoreRevision(rev: EntryRevision) {
+    if (!entry) return;
+    if (!confirmDiscardIfDirty()) return;
+    if (!window.confirm(`Restore the version saved ${formatSavedTimestamp(new Date(rev.created_at))}?`)) return;
+    if (isSavingRef.current) return;
+
+    isSavingRef.current = true;
+    setBusy(true);
+    setMessage(null);
+    try {
+      const result = await writeEntry(
+        {
+          ...entryPayloadOf(entry),
+          title: rev.title,
+          content: rev.content,
+          content_doc: isRichTextDoc(rev.content_doc) ? rev.content_doc : null
+        },
+        entry
+      );
+
+      if (result.ok) await deleteDraft(entry.user_id, entry.week).catch(() => undefined);
+      await reloadEntries();
+
+      if (!result.ok) {
+        setMessage(
+          result.conflict
+            ? "This week was changed in another tab or device, so nothing was restored. The latest version is now shown; try again."
+            : `Restore error: ${result.error}`
+        );
+        return;
+      }
+
+      setMessage(`Restored the version from ${formatSavedTimestamp(new Date(rev.created_at))}.`);
+    } catch (err: unknown) {
+      setMessage(`Restore error: ${err instanceof Error ? err.message : "Unknown error"}`);
+    } finally {
+      isSavingRef.current = false;
+      setBusy(false);
+    }
+  }
+
+  return {
+    week,
+    prompt,
+    entry,
+    title,
+    setTitle,
+    doc,
+    setDoc,
+    content,
+    lifeStage,
+    setLifeStage,
+    tone,
+    setTone,
+    keyPeople,
+    setKeyPeople,
+    locations,
+    setLocations,
+    themes,
+    setThemes,
+    entryStatus,
+    isDirty,
+    message,
+    setMessage,
+    lastSavedAt,
+    busy,
+    conflict,
+    conflictOpen,
+    setConflictOpen,
+    online,
+    draftSavedAt,
+    pendingWeeks,
+    autosave,
+    save,
+    toggleComplete,
+    saveMerged,
+    keepTheirs,
+    restoreRevision,
+    ensureEntryId,
+    appendText,
+    confirmDiscardIfDirty
+  };
+}
+
+export type EntryEditorState = ReturnType<typeof useEntryEditor>;
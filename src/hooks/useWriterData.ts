@@ -0,0 +1,140 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useRouter } from "next/navigation";
+import { supabase } from "@/lib/supabaseClient";
+import { ENTRY_COLUMNS, type SavedEntry } from "@/lib/entrySave";
+import { weekFromStartDate, type EntryStatus } from "@/lib/program";
+
+export type WriterPrompt = {
+  prompt_key: string;
+  week: number;
+  title: string;
+  category: string;
+  coaching: string;
+  questions: string[];
+  helpful_followups: string[];
+};
+
+export type WriterProfile = {
+  start_date: string | null;
+  ui_text_size: "normal" | "large" | null;
+  ui_contrast: "default" | "high" | null;
+};
+
+/**
+ * Everything a writing page needs for the signed-in user: profile
+ * preferences, the active prompts and all of their entries. Sends signed-out
+ * visitors to /login.
+ */
+export function useWriterData() {
+  const router = useRouter();
+
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [userId, setUserId] = useState<string | null>(null);
+  const [profile, setProfile] = useState<WriterProfile | null>(null);
+  const [prompts, setPrompts] = useState<WriterPrompt[]>([]);
+  const [entries, setEntries] = useState<SavedEntry[]>([]);
+
+  const userIdRef = useRef<string | null>(null);
+
+  const reloadEntries = useCallback(async () => {
+    const uid = userIdRef.current;
+    if (!uid) return;
+
+    const { data: entryRows, error: entryErr } = await supabase
+      .from("entries")
+      .select(ENTRY_COLUMNS)
+      .eq("user_id", uid);
+
+    if (entryErr) throw new Error(entryErr.message);
+    setEntries((entryRows ?? []) as SavedEntry[]);
+  }, []);
+
+  // Marking a week complete from a list; the editor has its own save path.
+  // Returns an error message, or null on success.
+  const updateEntryStatus = useCallback(async (entryId: string, status: EntryStatus) => {
+    const { data: row, error: updateErr } = await supabase
+      .from("entries")
+      .update({ status })
+      .eq("id", entryId)
+      .select(ENTRY_COLUMNS)
+      .single();
+
+    if (updateErr) return updateErr.message;
+    setEntries((prev) => prev.map((e) => (e.id === entryId ? (row as SavedEntry) : e)));
+    return null;
+  }, []);
+
+  useEffect(() => {
+    async function load() {
+      setLoading(true);
+      setError(null);
+
+      const { data: auth } = await supabase.auth.getUser();
+      if (!auth.user) {
+        router.push("/login");
+        return;
+      }
+
+      userIdRef.current = auth.user.id;
+      setUserId(auth.user.id);
+
+      const { data: profileRow, error: profErr } = await supabase
+        .from("profiles")
+        .select("start_date, ui_text_size, ui_contrast")
+        .eq("id", auth.user.id)
+        .single();
+
+      if (profErr) {
+        setError(`Profile load error: ${profErr.message}`);
+        setLoading(false);
+        return;
+      }
+
+      setProfile(profileRow as WriterProfile);
+
+      const { data: promptRows, error: promptErr } = await supabase
+        .from("prompts")
+        .select("prompt_key, week, title, category, coaching, questions, helpful_followups")
+        .eq("active", true)
+        .order("week", { ascending: true });
+
+      if (promptErr) {
+        setError(`Prompt list error: ${promptErr.message}`);
+        setLoading(false);
+        return;
+      }
+
+      setPrompts((promptRows ?? []) as WriterPrompt[]);
+
+      try {
+        await reloadEntries();
+      } catch (err: unknown) {
+        setError(`Entry list error: ${err instanceof Error ? err.message : "Unknown error"}`);
+        setLoading(false);
+        return;
+      }
+
+      setLoading(false);
+    }
+
+    void load();
+  }, [router, reloadEntries]);
+
+  return {
+    loading,
+    error,
+    userId,
+    profile,
+    prompts,
+    entries,
+    reloadEntries,
+    updateEntryStatus,
+    currentWeek: profile?.start_date ? weekFromStartDate(profile.start_date) : 1,
+    textSize: profile?.ui_text_size === "large" ? ("large" as const) : ("normal" as const),
+    contrast: profile?.ui_contrast === "high" ? ("high" as const) : ("default" as const)
+  };
+}
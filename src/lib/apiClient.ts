@@ -0,0 +1,47 @@
+import { supabase } from "@/lib/supabaseClient";
+
+// JSON routes answer { ok: true, result } or { ok: false, error }
+export type ApiResult<T> = { ok: true; result: T } | { ok: false; error: string };
+
+export async function accessToken() {
+  const { data } = await supabase.auth.getSession();
+  return data.session?.access_token ?? null;
+}
+
+/**
+ * Calls one of our API routes as the signed-in user. Returns an error message
+ * instead of throwing.
+ */
+export async function callApi<T>(url: string, init: RequestInit = {}): Promise<ApiResult<T>> {
+  const token = await accessToken();
+  if (!token) return { ok: false, error: "Please sign in again." };
+
+  try {
+    const res = await fetch(url, {
+      ...init,
+      headers: { ...(init.headers ?? {}), Authorization: `Bearer ${token}` }
+    });
+    const json = await res.json().catch(() => null);
+    if (!res.ok || !json?.ok) return { ok: false, error: json?.error ?? `HTTP ${res.status}` };
+    return { ok: true, result: json.result as T };
+  } catch (err: unknown) {
+    return { ok: false, error: err instanceof Error ? err.message : "Network error" };
+  }
+}
+
+/**
+ * Fetches a file route (which needs the bearer token, so it can't be an
+ * <img> or <audio> src itself) as an object URL. The caller revokes it.
+ */
+export async function fetchObjectUrl(url: string) {
+  const token = await accessToken();
+  if (!token) return null;
+
+  try {
+    const res = await fetch(url, { headers: { Authorization: `Bearer ${token}` } });
+    if (!res.ok) return null;
+    return URL.createObjectURL(await res.blob());
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,78 @@
+// Autosave state for the entry editor.
+//
+//   idle ──start──▶ saving ──success──▶ saved
+//                     │
+//                     └─failure─▶ retrying ──retry──▶ saving ...
+//                     └─failure (not retryable)─▶ failed
+//
+// Retries back off exponentially; "failed" waits for the user (a conflict to
+// merge or a sign-in), and any successful save returns to "saved".
+
+export type AutosaveStatus = "idle" | "saving" | "saved" | "failed" | "retrying";
+
+export type AutosaveState = {
+  status: AutosaveStatus;
+  // Failed attempts since the last successful save
+  failures: number;
+  lastError: string | null;
+  // The session expired and could not be refreshed
+  needsSignIn: boolean;
+  nextRetryAt: number | null;
+  savedAt: number | null;
+};
+
+export type AutosaveEvent =
+  | { type: "start" }
+  | { type: "success"; at: number }
+  | { type: "failure"; error: string; at: number; retry: boolean; needsSignIn?: boolean }
+  | { type: "reset" };
+
+export const INITIAL_AUTOSAVE: AutosaveState = {
+  status: "idle",
+  failures: 0,
+  lastError: null,
+  needsSignIn: false,
+  nextRetryAt: null,
+  savedAt: null
+};
+
+// After this many failures in a row the editor shows a banner instead of a
+// quiet status line
+export const AUTOSAVE_BANNER_AFTER = 3;
+
+const BASE_DELAY_MS = 2_000;
+const MAX_DELAY_MS = 5 * 60_000;
+
+/**
+ * Delay before retry number `failures` (1-based): 2s, 4s, 8s ... capped at
+ * five minutes, with up to 20% jitter so several tabs don't retry in step.
+ */
+export function backoffDelay(failures: number, random: () => number = Math.random) {
+  const exp = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** Math.max(0, failures - 1));
+  return Math.round(exp * (1 + 0.2 * random()));
+}
+
+export function autosaveReducer(state: AutosaveState, event: AutosaveEvent): AutosaveState {
+  switch (event.type) {
+    case "start":
+      return { ...state, status: "saving", nextRetryAt: null };
+
+    case "success":
+      return { ...INITIAL_AUTOSAVE, status: "saved", savedAt: event.at };
+
+    case "failure": {
+      const failures = state.failures + 1;
+      return {
+        ...state,
+        status: event.retry ? "retrying" : "failed",
+        failures,
+        lastError: event.error,
+        needsSignIn: Boolean(event.needsSignIn),
+        nextRetryAt: event.retry ? event.at + backoffDelay(failures) : null
+      };
+    }
+
+    case "reset":
+      return { ...INITIAL_AUTOSAVE, savedAt: state.savedAt };
+  }
+}
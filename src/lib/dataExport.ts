@@ -0,0 +1,148 @@
+import type { RichTextDoc } from "@/lib/richText";
+import { recordingExtension, type TranscriptStatus } from "@/lib/entryRecordings";
+
+// Identifies our export files; bump EXPORT_VERSION on any breaking change to
+// the shape below so importers can tell old files apart.
+export const EXPORT_SCHEMA = "myautobiography.export";
+export const EXPORT_VERSION = 1;
+
+export type ExportPrompt = {
+  prompt_key: string;
+  week: number;
+  title: string;
+  category: string | null;
+  coaching: string | null;
+  questions: string[];
+  helpful_followups: string[];
+};
+
+// An earlier version of an entry, as kept in its history
+export type ExportRevision = {
+  title: string | null;
+  content: string;
+  content_doc: RichTextDoc | null;
+  status: string | null;
+  created_at: string;
+};
+
+// A photo attached to an entry. `file` is the JPEG's path inside the ZIP, or
+// null if the image couldn't be read from storage.
+export type ExportPhoto = {
+  file: string | null;
+  caption: string | null;
+  position: number;
+  width: number;
+  height: number;
+  created_at: string;
+};
+
+// A spoken answer attached to an entry. `file` is the audio's path inside the
+// ZIP, or null if it couldn't be read from storage.
+export type ExportRecording = {
+  file: string | null;
+  content_type: string;
+  duration_ms: number | null;
+  transcript: string | null;
+  transcript_status: TranscriptStatus;
+  created_at: string;
+};
+
+export type ExportEntry = {
+  week: number;
+  prompt_key: string | null;
+  title: string | null;
+  content: string;
+  // Formatting for `content`; null for entries written as plain text
+  content_doc: RichTextDoc | null;
+  status: string | null;
+  life_stage: string | null;
+  tone: string | null;
+  key_people: string | null;
+  locations: string | null;
+  themes: string | null;
+  created_at: string | null;
+  updated_at: string | null;
+  prompt: ExportPrompt | null;
+  // Newest first; only in export.json, not the Markdown files
+  revisions: ExportRevision[];
+  // In the order they appear in the book
+  photos: ExportPhoto[];
+  // Oldest first
+  recordings: ExportRecording[];
+};
+
+export type DataExport = {
+  schema: typeof EXPORT_SCHEMA;
+  version: typeof EXPORT_VERSION;
+  exported_at: string;
+  profile: Record<string, unknown>;
+  entries: ExportEntry[];
+};
+
+// Front-matter keys, in the order they are written
+export const FRONT_MATTER_KEYS = [
+  "week",
+  "prompt_key",
+  "title",
+  "status",
+  "life_stage",
+  "tone",
+  "key_people",
+  "locations",
+  "themes",
+  "created_at",
+  "updated_at"
+] as const;
+
+function padWeek(week: number) {
+  return String(week).padStart(2, "0");
+}
+
+/**
+ * File name for an entry inside the export, e.g. "entries/week-03.md".
+ */
+export function entryMarkdownPath(entry: { week: number }) {
+  return `entries/week-${padWeek(entry.week)}.md`;
+}
+
+/**
+ * Path for an entry's photo inside the export, e.g. "photos/week-03-2.jpg".
+ * `index` counts from 1.
+ */
+export function photoExportPath(entry: { week: number }, index: number) {
+  return `photos/week-${padWeek(entry.week)}-${index}.jpg`;
+}
+
+/**
+ * Path for an entry's recording inside the export, e.g.
+ * "recordings/week-03-1.webm". `index` counts from 1.
+ */
+export function recordingExportPath(entry: { week: number }, index: number, contentType: string) {
+  return `recordings/week-${padWeek(entry.week)}-${index}.${recordingExtension(contentType) ?? "bin"}`;
+}
+
+// Values are written as JSON literals, which are also valid YAML scalars
+function frontMatterValue(v: unknown) {
+  if (v === null || v === undefined || v === "") return "null";
+  if (typeof v === "number") return String(v);
+  return JSON.stringify(String(v));
+}
+
+/**
+ * One entry as a Markdown file: YAML front matter with the entry fields, then
+ * the prompt for context and the text itself.
+ */
+export function entryToMarkdown(entry: ExportEntry) {
+  const fm = FRONT_MATTER_KEYS.map((k) => `${k}: ${frontMatterValue(entry[k])}`);
+
+  const heading = (entry.title ?? "").trim() || entry.prompt?.title || `Week ${entry.week}`;
+  const body: string[] = [`# ${heading}`];
+
+  if (entry.prompt && entry.prompt.title !== heading) {
+    body.push(`> Week ${entry.week}: ${entry.prompt.title}`);
+  }
+
+  body.push(entry.content.replace(/\r\n/g, "\n").trim());
+
+  return `---\n${fm.join("\n")}\n---\n\n${body.join("\n\n")}\n`;
+}
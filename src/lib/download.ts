@@ -0,0 +1,37 @@
+function fileNameFrom(res: Response, fallback: string) {
+  const cd = res.headers.get("content-disposition") || "";
+  const m = cd.match(/filename="([^"]+)"/);
+  return m?.[1] ?? fallback;
+}
+
+/**
+ * Fetches an authenticated file route and hands the result to the browser as
+ * a download. Returns an error message instead of throwing.
+ */
+export async function downloadFromApi(
+  url: string,
+  token: string,
+  fallbackName: string
+): Promise<{ ok: true } | { ok: false; error: string }> {
+  const res = await fetch(url, { headers: { Authorization: `Bearer ${token}` } });
+
+  if (!res.ok) {
+    const json = await res.json().catch(() => null);
+    return { ok: false, error: json?.error ?? `Download failed (HTTP ${res.status}).` };
+  }
+
+  const blob = await res.blob();
+  const href = URL.createObjectURL(blob);
+
+  const a = document.createElement("a");
+  a.href = href;
+  a.download = fileNameFrom(res, fallbackName);
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+
+  // Give the browser a moment to start the download before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(href), 1000);
+
+  return { ok: true };
+}
@@ -0,0 +1,86 @@
+// Unsaved writing kept in the browser (IndexedDB), one draft per user and
+// week, so nothing typed is lost while offline or before autosave runs.
+
+import type { RichTextDoc } from "@/lib/richText";
+
+export type EntryDraft = {
+  key: string;
+  user_id: string;
+  week: number;
+  prompt_key: string;
+  // Server entry the draft was based on; null when the week had no entry yet
+  entry_id: string | null;
+  base_version: number | null;
+  title: string | null;
+  content: string;
+  // Missing on drafts kept before formatting existed
+  content_doc?: RichTextDoc | null;
+  status: string | null;
+  life_stage: string | null;
+  tone: string | null;
+  key_people: string | null;
+  locations: string | null;
+  themes: string | null;
+  saved_at: number;
+};
+
+const DB_NAME = "myautobiography";
+const DB_VERSION = 1;
+const STORE = "entry_drafts";
+
+export function draftKey(userId: string, week: number) {
+  return `${userId}:${week}`;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb() {
+  if (typeof indexedDB === "undefined") return Promise.reject(new Error("IndexedDB is not available."));
+
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const store = req.result.createObjectStore(STORE, { keyPath: "key" });
+        store.createIndex("user_id", "user_id");
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error ?? new Error("Could not open draft storage."));
+    }).catch((err: unknown) => {
+      dbPromise = null;
+      throw err;
+    });
+  }
+
+  return dbPromise;
+}
+
+function run<T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>) {
+  return openDb().then(
+    (db) =>
+      new Promise<T>((resolve, reject) => {
+        const req = fn(db.transaction(STORE, mode).objectStore(STORE));
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error ?? new Error("Draft storage error."));
+      })
+  );
+}
+
+export async function getDraft(userId: string, week: number) {
+  const draft = await run<EntryDraft | undefined>("readonly", (s) => s.get(draftKey(userId, week)));
+  return draft ?? null;
+}
+
+export function listDrafts(userId: string) {
+  return run<EntryDraft[]>("readonly", (s) => s.index("user_id").getAll(userId));
+}
+
+export async function putDraft(draft: Omit<EntryDraft, "key" | "saved_at">) {
+  const row: EntryDraft = { ...draft, key: draftKey(draft.user_id, draft.week), saved_at: Date.now() };
+  await run("readwrite", (s) => s.put(row));
+  return row;
+}
+
+export async function deleteDraft(userId: string, week: number) {
+  await run("readwrite", (s) => s.delete(draftKey(userId, week)));
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { importChangesEntry, mergeImportedEntry, type EntryFields } from "@/lib/entryImport";
+import type { RichTextDoc } from "@/lib/richText";
+
+const existing: EntryFields = {
+  title: "Born by the sea",
+  content: "I was born in Whitby.\n",
+  content_doc: null,
+  status: "in_progress",
+  life_stage: "childhood",
+  tone: null,
+  key_people: "Mum",
+  locations: "Whitby",
+  themes: null
+};
+
+describe("importChangesEntry", () => {
+  it("skips an import that leaves the entry as it is", () => {
+    const next = mergeImportedEntry(existing, { ...existing, content: "I was born in Whitby." }, "overwrite")!;
+    expect(importChangesEntry(existing, next)).toBe(false);
+  });
+
+  it("applies a change to only the details", () => {
+    const next = mergeImportedEntry(existing, { ...existing, status: "complete", tone: "warm" }, "overwrite")!;
+    expect(importChangesEntry(existing, next)).toBe(true);
+  });
+
+  it("applies a change to only the formatting", () => {
+    const doc: RichTextDoc = { version: 1, blocks: [{ type: "heading", runs: [{ text: "I was born in Whitby." }] }] };
+    const next = mergeImportedEntry(
+      existing,
+      { ...existing, content: "I was born in Whitby.", content_doc: doc },
+      "overwrite"
+    )!;
+    expect(importChangesEntry(existing, next)).toBe(true);
+  });
+
+  it("creates a missing week only when there is text", () => {
+    expect(importChangesEntry(undefined, { ...existing, content: "" })).toBe(false);
+    expect(importChangesEntry(undefined, existing)).toBe(true);
+  });
+});
@@ -0,0 +1,294 @@
+import { EXPORT_SCHEMA, EXPORT_VERSION, FRONT_MATTER_KEYS } from "@/lib/dataExport";
+import { docToPlainText, isRichTextDoc, readEntryDoc, type RichTextDoc } from "@/lib/richText";
+import { isProgramWeek, normalizeEntryStatus } from "@/lib/program";
+
+export type ImportAction = "overwrite" | "append" | "skip";
+
+export type EntryFields = {
+  title: string | null;
+  content: string;
+  content_doc: RichTextDoc | null;
+  status: string | null;
+  life_stage: string | null;
+  tone: string | null;
+  key_people: string | null;
+  locations: string | null;
+  themes: string | null;
+};
+
+export type ImportedEntry = EntryFields & {
+  week: number | null;
+  prompt_key: string | null;
+  // File the entry came from, for messages
+  source: string;
+};
+
+export type ImportProblem = {
+  source: string;
+  error: string;
+};
+
+export type ParsedImport = {
+  entries: ImportedEntry[];
+  problems: ImportProblem[];
+};
+
+export type ImportPrompt = {
+  prompt_key: string;
+  week: number;
+};
+
+export type ResolvedImport = ImportedEntry & {
+  week: number;
+  prompt_key: string;
+};
+
+const METADATA_KEYS = ["life_stage", "tone", "key_people", "locations", "themes"] as const;
+
+function textOrNull(v: unknown) {
+  if (v === null || v === undefined) return null;
+  const s = String(v).trim();
+  return s.length ? s : null;
+}
+
+function weekOrNull(v: unknown) {
+  const n = Number(v);
+  return isProgramWeek(n) ? n : null;
+}
+
+// A missing status keeps the existing entry's; anything else is read the way
+// the rest of the app reads entries.status
+function statusOrNull(v: unknown) {
+  const s = textOrNull(v);
+  return s ? normalizeEntryStatus(s) : null;
+}
+
+// Formatting is only kept when it still describes the imported text, so a
+// file edited by hand can't bring back words that were taken out
+function docOrNull(v: unknown, content: string) {
+  return isRichTextDoc(v) && docToPlainText(v).trim() === content ? v : null;
+}
+
+function toImported(raw: Record<string, unknown>, content: string, source: string): ImportedEntry {
+  const text = content.replace(/\r\n/g, "\n").trim();
+  return {
+    week: weekOrNull(raw.week),
+    prompt_key: textOrNull(raw.prompt_key),
+    title: textOrNull(raw.title),
+    content: text,
+    content_doc: docOrNull(raw.content_doc, text),
+    status: statusOrNull(raw.status),
+    life_stage: textOrNull(raw.life_stage),
+    tone: textOrNull(raw.tone),
+    key_people: textOrNull(raw.key_people),
+    locations: textOrNull(raw.locations),
+    themes: textOrNull(raw.themes),
+    source
+  };
+}
+
+/**
+ * Reads the export.json produced by the data export.
+ */
+export function parseExportJson(text: string, source: string): ParsedImport {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { entries: [], problems: [{ source, error: "Not valid JSON." }] };
+  }
+
+  const obj = data as { schema?: unknown; version?: unknown; entries?: unknown };
+  if (obj?.schema !== EXPORT_SCHEMA) {
+    return { entries: [], problems: [{ source, error: "Not a MyAutobiography export file." }] };
+  }
+
+  if (typeof obj.version !== "number" || obj.version > EXPORT_VERSION) {
+    return {
+      entries: [],
+      problems: [{ source, error: `Export version ${String(obj.version)} is newer than this app understands.` }]
+    };
+  }
+
+  if (!Array.isArray(obj.entries)) {
+    return { entries: [], problems: [{ source, error: "Export has no entries list." }] };
+  }
+
+  const entries = obj.entries.map((e: Record<string, unknown>, i: number) =>
+    toImported(e ?? {}, typeof e?.content === "string" ? e.content : "", `${source} #${i + 1}`)
+  );
+
+  return { entries, problems: [] };
+}
+
+function frontMatterValue(raw: string) {
+  const v = raw.trim();
+  if (v === "" || v === "null" || v === "~") return null;
+  if (/^".*"$/.test(v)) {
+    try {
+      return JSON.parse(v) as string;
+    } catch {
+      return v.slice(1, -1);
+    }
+  }
+  if (/^'.*'$/.test(v)) return v.slice(1, -1).replace(/''/g, "'");
+  return v;
+}
+
+/**
+ * Splits "---" front matter from a Markdown file. Only flat `key: value`
+ * pairs are read, which covers the files the export writes.
+ */
+export function parseFrontMatter(text: string) {
+  const normalized = text.replace(/^﻿/, "").replace(/\r\n/g, "\n");
+  const match = normalized.match(/^---\n([\s\S]*?)\n---[ \t]*(?:\n|$)/);
+  if (!match) return { data: {} as Record<string, string | null>, body: normalized };
+
+  const data: Record<string, string | null> = {};
+  for (const line of match[1].split("\n")) {
+    const kv = line.match(/^([A-Za-z_][\w-]*)\s*:(.*)$/);
+    if (kv) data[kv[1].toLowerCase()] = frontMatterValue(kv[2]);
+  }
+
+  return { data, body: normalized.slice(match[0].length) };
+}
+
+/**
+ * Reads one Markdown entry. A leading "# Heading" becomes the title when the
+ * front matter has none, and the "> Week N: ..." line the export adds under
+ * it is dropped.
+ */
+export function parseMarkdownEntry(text: string, source: string): ParsedImport {
+  const { data, body } = parseFrontMatter(text);
+  const lines = body.replace(/^\n+/, "").split("\n");
+
+  const fields: Record<string, unknown> = {};
+  for (const k of FRONT_MATTER_KEYS) fields[k] = data[k] ?? null;
+
+  const heading = lines[0]?.match(/^#\s+(.+)$/);
+  if (heading) {
+    lines.shift();
+    if (!fields.title) fields.title = heading[1];
+    while (lines[0] !== undefined && lines[0].trim() === "") lines.shift();
+    if (lines[0] && /^>\s*Week\s+\d+:/.test(lines[0])) lines.shift();
+  }
+
+  if (fields.week === null) {
+    const fromName = source.match(/week[-_ ]?(\d{1,2})(?!\d)/i);
+    if (fromName) fields.week = fromName[1];
+  }
+
+  return { entries: [toImported(fields, lines.join("\n"), source)], problems: [] };
+}
+
+/**
+ * Matches imported entries to program weeks. A known prompt_key wins over the
+ * week number, since prompts can move between weeks; the first file for a
+ * week wins and later ones are reported.
+ */
+export function resolveImports(parsed: ParsedImport, prompts: ImportPrompt[]) {
+  const weekByKey = new Map(prompts.map((p) => [p.prompt_key, Number(p.week)]));
+  const keyByWeek = new Map(prompts.map((p) => [Number(p.week), p.prompt_key]));
+
+  const resolved = new Map<number, ResolvedImport>();
+  const problems = [...parsed.problems];
+
+  for (const e of parsed.entries) {
+    const week = (e.prompt_key ? weekByKey.get(e.prompt_key) : undefined) ?? e.week;
+    const promptKey = week ? keyByWeek.get(week) : undefined;
+
+    if (!week || !promptKey) {
+      problems.push({ source: e.source, error: "No matching week or prompt." });
+      continue;
+    }
+
+    if (!e.content) {
+      problems.push({ source: e.source, error: `Week ${week} has no text; skipped.` });
+      continue;
+    }
+
+    if (resolved.has(week)) {
+      problems.push({
+        source: e.source,
+        error: `Week ${week} already comes from ${resolved.get(week)!.source}; this one was ignored.`
+      });
+      continue;
+    }
+
+    resolved.set(week, { ...e, week, prompt_key: promptKey });
+  }
+
+  return {
+    entries: [...resolved.values()].sort((a, b) => a.week - b.week),
+    problems
+  };
+}
+
+/**
+ * Suggested action: empty weeks take the imported text; weeks that already
+ * have writing are left alone until the user picks otherwise.
+ */
+export function defaultImportAction(existing: EntryFields | undefined): ImportAction {
+  return (existing?.content ?? "").trim() ? "skip" : "overwrite";
+}
+
+/**
+ * Fields to save for one week, or null when nothing should change.
+ *  - overwrite: imported text and details replace the existing ones
+ *  - append: imported text goes after the existing text; existing details stay
+ */
+export function mergeImportedEntry(
+  existing: EntryFields | undefined,
+  imported: EntryFields,
+  action: ImportAction
+): EntryFields | null {
+  if (action === "skip") return null;
+
+  const current = (existing?.content ?? "").trim();
+
+  if (action === "append" && current) {
+    // Either side's formatting is kept by appending the documents
+    const doc: RichTextDoc | null =
+      existing?.content_doc || imported.content_doc
+        ? { version: 1, blocks: [...readEntryDoc(existing!).blocks, ...readEntryDoc(imported).blocks] }
+        : null;
+    const merged: EntryFields = {
+      title: existing?.title || imported.title,
+      content: doc ? docToPlainText(doc) : `${current}\n\n${imported.content.trim()}`,
+      content_doc: doc,
+      status: existing?.status ?? imported.status ?? "in_progress",
+      life_stage: null,
+      tone: null,
+      key_people: null,
+      locations: null,
+      themes: null
+    };
+    for (const k of METADATA_KEYS) merged[k] = existing?.[k] || imported[k];
+    return merged;
+  }
+
+  const replaced: EntryFields = {
+    title: imported.title ?? existing?.title ?? null,
+    content: imported.content.trim(),
+    content_doc: imported.content_doc,
+    status: imported.status ?? existing?.status ?? "in_progress",
+    life_stage: null,
+    tone: null,
+    key_people: null,
+    locations: null,
+    themes: null
+  };
+  for (const k of METADATA_KEYS) replaced[k] = imported[k] ?? existing?.[k] ?? null;
+  return replaced;
+}
+
+/**
+ * Whether saving `next` would change the entry. Every imported field counts,
+ * so a file that only changes the details or the formatting still applies.
+ */
+export function importChangesEntry(existing: EntryFields | undefined, next: EntryFields) {
+  if (!existing) return next.content.length > 0;
+  if (next.content !== existing.content.trim()) return true;
+  if (JSON.stringify(next.content_doc ?? null) !== JSON.stringify(existing.content_doc ?? null)) return true;
+  return (["title", "status", ...METADATA_KEYS] as const).some((k) => (next[k] ?? null) !== (existing[k] ?? null));
+}
@@ -0,0 +1,86 @@
+// Photos attached to entries. Images are resized and re-encoded as JPEG in
+// the browser before upload: that keeps files small enough for the upload
+// limit, gives every export one format to embed, and drops camera metadata
+// such as GPS position.
+
+export type EntryPhoto = {
+  id: string;
+  entry_id: string;
+  user_id: string;
+  caption: string | null;
+  position: number;
+  width: number;
+  height: number;
+  byte_size: number;
+  created_at: string;
+};
+
+export type PhotoSize = "full" | "thumb";
+
+export const PHOTO_COLUMNS = "id, entry_id, user_id, caption, position, width, height, byte_size, created_at";
+
+export const MAX_PHOTOS_PER_ENTRY = 20;
+export const MAX_CAPTION_LENGTH = 300;
+
+// Longest edge in pixels
+export const PHOTO_MAX_EDGE = 2000;
+export const THUMB_MAX_EDGE = 320;
+
+// Upper bounds the API accepts after resizing
+export const MAX_PHOTO_BYTES = 4 * 1024 * 1024;
+export const MAX_THUMB_BYTES = 512 * 1024;
+
+export type PreparedPhoto = {
+  photo: Blob;
+  thumb: Blob;
+  width: number;
+  height: number;
+};
+
+function fit(width: number, height: number, maxEdge: number) {
+  const scale = Math.min(1, maxEdge / Math.max(width, height));
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+}
+
+async function encodeJpeg(image: ImageBitmap, width: number, height: number, quality: number) {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("This browser can't prepare photos.");
+
+  // JPEG has no transparency; transparent PNGs get a white background
+  ctx.fillStyle = "#ffffff";
+  ctx.fillRect(0, 0, width, height);
+  ctx.drawImage(image, 0, 0, width, height);
+
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/jpeg", quality));
+  if (!blob) throw new Error("Couldn't prepare this photo.");
+  return blob;
+}
+
+/**
+ * Reads an image file picked by the user and returns the upload-sized photo
+ * and its thumbnail. Camera rotation is applied before resizing.
+ */
+export async function preparePhoto(file: File): Promise<PreparedPhoto> {
+  let image: ImageBitmap;
+  try {
+    image = await createImageBitmap(file, { imageOrientation: "from-image" });
+  } catch {
+    throw new Error(`${file.name} isn't an image this browser can open.`);
+  }
+
+  try {
+    const size = fit(image.width, image.height, PHOTO_MAX_EDGE);
+    const thumbSize = fit(image.width, image.height, THUMB_MAX_EDGE);
+    return {
+      photo: await encodeJpeg(image, size.width, size.height, 0.85),
+      thumb: await encodeJpeg(image, thumbSize.width, thumbSize.height, 0.8),
+      width: size.width,
+      height: size.height
+    };
+  } finally {
+    image.close();
+  }
+}
@@ -0,0 +1,71 @@
+// Spoken answers attached to entries, for writers who find typing hard. The
+// browser records compressed audio with MediaRecorder; the server keeps the
+// file and turns it into text that is added to the entry for editing.
+
+export type TranscriptStatus = "pending" | "done" | "failed";
+
+export type EntryRecording = {
+  id: string;
+  entry_id: string;
+  user_id: string;
+  content_type: string;
+  duration_ms: number | null;
+  byte_size: number;
+  transcript: string | null;
+  transcript_status: TranscriptStatus;
+  transcript_error: string | null;
+  transcribed_by: string | null;
+  created_at: string;
+};
+
+export const RECORDING_COLUMNS =
+  "id, entry_id, user_id, content_type, duration_ms, byte_size, transcript, transcript_status, transcript_error, transcribed_by, created_at";
+
+export const MAX_RECORDINGS_PER_ENTRY = 20;
+
+// Ten minutes at the bitrate below is about 2.4 MB, inside the upload limit
+export const MAX_RECORDING_SECONDS = 10 * 60;
+export const RECORDING_BITS_PER_SECOND = 32000;
+export const MAX_RECORDING_BYTES = 4 * 1024 * 1024;
+
+// Formats browsers record in, with the extension transcription engines expect
+const RECORDING_EXTENSIONS: Record<string, string> = {
+  "audio/webm": "webm",
+  "audio/ogg": "ogg",
+  "audio/mp4": "m4a",
+  "audio/mpeg": "mp3",
+  "audio/wav": "wav"
+};
+
+// "audio/webm;codecs=opus" -> "audio/webm"
+export function baseContentType(contentType: string) {
+  return contentType.split(";")[0].trim().toLowerCase();
+}
+
+export function recordingExtension(contentType: string) {
+  return RECORDING_EXTENSIONS[baseContentType(contentType)] ?? null;
+}
+
+/**
+ * Best recording format this browser supports, or "" to let MediaRecorder
+ * pick (Safari only does mp4 and may not report it).
+ */
+export function pickRecordingType() {
+  if (typeof MediaRecorder === "undefined") return "";
+  const candidates = ["audio/webm;codecs=opus", "audio/webm", "audio/ogg;codecs=opus", "audio/mp4"];
+  return candidates.find((t) => MediaRecorder.isTypeSupported(t)) ?? "";
+}
+
+export function canRecordAudio() {
+  return (
+    typeof window !== "undefined" &&
+    typeof MediaRecorder !== "undefined" &&
+    !!navigator.mediaDevices?.getUserMedia
+  );
+}
+
+// 75000 -> "1:15"
+export function formatDuration(ms: number) {
+  const total = Math.max(0, Math.round(ms / 1000));
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, "0")}`;
+}
@@ -0,0 +1,149 @@
+import { supabase } from "@/lib/supabaseClient";
+import { deleteDraft, type EntryDraft } from "@/lib/draftStore";
+import { isRichTextDoc, readEntryDoc, type RichTextDoc } from "@/lib/richText";
+
+export type EntryPayload = {
+  user_id: string;
+  prompt_key: string;
+  week: number;
+  title: string | null;
+  content: string;
+  // Formatted version of `content`; null for plain-text entries
+  content_doc: RichTextDoc | null;
+  status: string | null;
+  life_stage: string | null;
+  tone: string | null;
+  key_people: string | null;
+  locations: string | null;
+  themes: string | null;
+};
+
+export type SavedEntry = EntryPayload & {
+  id: string;
+  version: number;
+  updated_at?: string;
+  created_at?: string;
+};
+
+export type WriteResult =
+  | { ok: true }
+  | { ok: false; conflict: boolean; offline: boolean; unauthorized: boolean; error: string };
+
+export const ENTRY_COLUMNS =
+  "id, user_id, prompt_key, week, title, content, content_doc, status, life_stage, tone, key_people, locations, themes, version, updated_at, created_at";
+
+// supabase-js reports a failed fetch as an ordinary error object
+export function isNetworkError(message: string) {
+  if (typeof navigator !== "undefined" && !navigator.onLine) return true;
+  return /failed to fetch|networkerror|network request failed|load failed/i.test(message);
+}
+
+// PostgREST answers an expired or invalid access token with PGRST301
+export function isAuthError(message: string, code?: string | null) {
+  return code === "PGRST301" || /jwt|not authenticated/i.test(message);
+}
+
+export function entryPayloadOf(e: Omit<EntryPayload, "content_doc"> & { content_doc?: unknown }): EntryPayload {
+  return {
+    user_id: e.user_id,
+    prompt_key: e.prompt_key,
+    week: e.week,
+    title: e.title,
+    content: e.content,
+    content_doc: isRichTextDoc(e.content_doc) ? e.content_doc : null,
+    status: e.status,
+    life_stage: e.life_stage,
+    tone: e.tone,
+    key_people: e.key_people,
+    locations: e.locations,
+    themes: e.themes
+  };
+}
+
+type EntryText = { title: string | null; content: string; content_doc?: RichTextDoc | null };
+
+export function sameEntryText(a: EntryText, b: EntryText) {
+  return (
+    (a.title ?? "") === (b.title ?? "") &&
+    (a.content ?? "") === (b.content ?? "") &&
+    JSON.stringify(readEntryDoc(a)) === JSON.stringify(readEntryDoc(b))
+  );
+}
+
+function failed(message: string, code?: string | null, conflict = false): WriteResult {
+  return {
+    ok: false,
+    conflict,
+    offline: !conflict && isNetworkError(message),
+    unauthorized: !conflict && isAuthError(message, code),
+    error: message
+  };
+}
+
+/**
+ * Saves an entry. Updates only apply if nobody saved since `target.version`
+ * was loaded; otherwise the result is a conflict and nothing is written.
+ */
+export async function writeEntry(
+  payload: EntryPayload,
+  target: { id: string; version: number } | null
+): Promise<WriteResult> {
+  if (target) {
+    const { data, error } = await supabase
+      .from("entries")
+      .update(payload)
+      .eq("id", target.id)
+      .eq("version", target.version)
+      .select("id");
+    if (error) return failed(error.message, error.code);
+    if (!data?.length) return failed("Entry changed elsewhere.", null, true);
+    return { ok: true };
+  }
+
+  const { error } = await supabase.from("entries").insert(payload);
+  // Unique violation: another tab created this week's entry first
+  if (error) return failed(error.message, error.code, error.code === "23505");
+  return { ok: true };
+}
+
+export async function fetchEntryForWeek(userId: string, week: number) {
+  const { data, error } = await supabase
+    .from("entries")
+    .select(ENTRY_COLUMNS)
+    .eq("user_id", userId)
+    .eq("week", week)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  return (data as SavedEntry | null) ?? null;
+}
+
+export type DraftSyncStatus = "synced" | "conflict" | "offline" | "error";
+
+/**
+ * Pushes a locally kept draft to the server against the version it was
+ * based on. Conflicting drafts stay on the device until the user merges them.
+ */
+export async function syncDraft(draft: EntryDraft): Promise<{ status: DraftSyncStatus; error?: string }> {
+  const payload = entryPayloadOf(draft);
+  const target =
+    draft.entry_id && draft.base_version !== null ? { id: draft.entry_id, version: draft.base_version } : null;
+
+  const result = await writeEntry(payload, target);
+
+  if (result.ok) {
+    await deleteDraft(draft.user_id, draft.week);
+    return { status: "synced" };
+  }
+
+  if (result.offline) return { status: "offline", error: result.error };
+  if (!result.conflict) return { status: "error", error: result.error };
+
+  // Nothing to merge when the server already has exactly this text
+  const latest = await fetchEntryForWeek(draft.user_id, draft.week);
+  if (latest && sameEntryText(latest, payload)) {
+    await deleteDraft(draft.user_id, draft.week);
+    return { status: "synced" };
+  }
+
+  return { status: "conflict" };
+}
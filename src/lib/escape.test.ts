@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { escapeHtml, escapeXml } from "@/lib/escape";
+import { isUuid } from "@/lib/uuid";
+
+describe("escapeHtml", () => {
+  it("escapes markup and both quote kinds", () => {
+    expect(escapeHtml(`<a href="x">Tom & Jerry's</a>`)).toBe(
+      "&lt;a href=&quot;x&quot;&gt;Tom &amp; Jerry&#39;s&lt;/a&gt;"
+    );
+  });
+});
+
+describe("escapeXml", () => {
+  it("also drops control characters XML can't hold", () => {
+    expect(escapeXml("a\u0007b\tc\n<d>")).toBe("ab\tc\n&lt;d&gt;");
+  });
+});
+
+describe("isUuid", () => {
+  it("accepts Postgres UUIDs only", () => {
+    expect(isUuid("3f1c2a9e-8b7d-4c6e-9a5b-1d2e3f4a5b6c")).toBe(true);
+    expect(isUuid("3F1C2A9E-8B7D-4C6E-9A5B-1D2E3F4A5B6C")).toBe(true);
+    expect(isUuid("not-a-uuid")).toBe(false);
+    expect(isUuid(42)).toBe(false);
+    expect(isUuid(null)).toBe(false);
+  });
+});
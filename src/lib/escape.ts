@@ -0,0 +1,18 @@
+// Escaping for text placed into generated markup (emails, exported books).
+
+// XML 1.0 forbids these even when escaped, and Word rejects files containing them
+const CONTROL_CHARS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g;
+
+export function escapeHtml(s: string) {
+  return s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+// For XML and XHTML documents (DOCX, EPUB), which can't carry control characters
+export function escapeXml(s: string) {
+  return escapeHtml(s.replace(CONTROL_CHARS, ""));
+}
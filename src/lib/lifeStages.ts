@@ -0,0 +1,17 @@
+// Chronological order; the book's life-stage mode follows this list
+export const LIFE_STAGES = [
+  "Early childhood",
+  "School years",
+  "Young adult",
+  "Early career",
+  "Midlife",
+  "Later life",
+  "Reflection"
+] as const;
+
+export type LifeStage = (typeof LIFE_STAGES)[number];
+
+export function lifeStageIndex(v: string | null | undefined) {
+  const i = (LIFE_STAGES as readonly string[]).indexOf(String(v ?? ""));
+  return i === -1 ? null : i;
+}
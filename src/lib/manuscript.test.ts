@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { buildManuscript } from "@/lib/manuscript";
+
+describe("buildManuscript", () => {
+  const prompts = [
+    { week: 1, title: "Where you were born" },
+    { week: 2, title: "Your first home" },
+    { week: 3, title: "School days" }
+  ];
+  const entries = [
+    { id: "e1", week: 1, title: null, content: "I was born in Leeds.", status: "complete" },
+    { id: "e2", week: 2, title: null, content: "", status: "in_progress" },
+    { id: "e3", week: 3, title: null, content: "", status: "in_progress" }
+  ];
+
+  it("keeps a week that only has photos, with or without the image bytes", () => {
+    const preview = buildManuscript({
+      preferredName: null,
+      prompts,
+      entries,
+      photos: [{ entry_id: "e2", caption: "The house", position: 0 }]
+    });
+
+    expect(preview.chapters.map((c) => [c.number, c.week])).toEqual([
+      [1, 1],
+      [2, 2]
+    ]);
+    expect(preview.chapters[1].blocks).toEqual([]);
+    expect(preview.chapters[1].photos).toHaveLength(1);
+  });
+
+  it("follows a custom order through photo-only chapters", () => {
+    const manuscript = buildManuscript({
+      preferredName: "Ada",
+      prompts,
+      entries,
+      photos: [{ entry_id: "e2", caption: null, position: 0 }],
+      order: { mode: "custom", weeks: [2, 1] }
+    });
+
+    expect(manuscript.title).toBe("The Story of Ada");
+    expect(manuscript.chapters.map((c) => c.week)).toEqual([2, 1]);
+  });
+
+  it("reads the entry status the way the rest of the app does", () => {
+    const manuscript = buildManuscript({
+      preferredName: null,
+      prompts,
+      entries: [
+        { id: "e1", week: 1, title: null, content: "I was born in Leeds.", status: "Completed" },
+        { id: "e2", week: 2, title: null, content: "We moved twice.", status: "draft" }
+      ]
+    });
+
+    expect(manuscript.chapters.map((c) => c.complete)).toEqual([true, false]);
+  });
+});
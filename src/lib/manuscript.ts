@@ -0,0 +1,206 @@
+import { LIFE_STAGES, lifeStageIndex } from "@/lib/lifeStages";
+import { bookBlocks, type RichTextBlock } from "@/lib/richText";
+import { normalizeEntryStatus } from "@/lib/program";
+
+export type BookOrderMode = "week" | "life_stage" | "custom";
+
+export type BookOrder = {
+  mode: BookOrderMode;
+  // Program weeks in reading order; only used in custom mode
+  weeks: number[];
+};
+
+export const DEFAULT_BOOK_ORDER: BookOrder = { mode: "week", weeks: [] };
+
+// Heading for entries that have no life stage in life-stage mode
+export const UNSTAGED_PART_TITLE = "Other stories";
+
+export type ManuscriptPrompt = {
+  week: number;
+  title: string;
+};
+
+export type ManuscriptEntry = {
+  // Needed to place photos
+  id?: string;
+  week: number;
+  title: string | null;
+  content: string | null;
+  content_doc?: unknown;
+  status: string | null;
+  life_stage?: string | null;
+};
+
+// Where a photo goes in the book. The book page preview only needs this to
+// list the same chapters as the exports.
+export type ManuscriptPhotoRef = {
+  entry_id: string;
+  caption: string | null;
+  position: number;
+};
+
+// A photo with its image, loaded on the server for exports
+export type ManuscriptPhoto = ManuscriptPhotoRef & {
+  width: number;
+  height: number;
+  jpeg: Uint8Array;
+};
+
+export type ManuscriptChapter<P extends ManuscriptPhotoRef = ManuscriptPhoto> = {
+  // Chapter number in the book, not the program week
+  number: number;
+  week: number;
+  promptTitle: string;
+  // The entry's own title, or the prompt title when the user left it blank
+  title: string;
+  // Paragraphs, headings, quotes and lists with empty ones already dropped
+  blocks: RichTextBlock[];
+  // Shown after the text, in the order the user gave them
+  photos: P[];
+  complete: boolean;
+  lifeStage: string | null;
+  // Set on the first chapter of each life-stage group when grouping is on
+  partTitle: string | null;
+};
+
+export type Manuscript<P extends ManuscriptPhotoRef = ManuscriptPhoto> = {
+  title: string;
+  author: string | null;
+  chapters: ManuscriptChapter<P>[];
+};
+
+function cleanName(name: string | null | undefined) {
+  const v = (name ?? "").trim();
+  return v.length ? v : null;
+}
+
+export function manuscriptTitle(preferredName: string | null | undefined) {
+  const name = cleanName(preferredName);
+  return name ? `The Story of ${name}` : "My Autobiography";
+}
+
+export function isBookOrderMode(v: unknown): v is BookOrderMode {
+  return v === "week" || v === "life_stage" || v === "custom";
+}
+
+/**
+ * Reads the order saved on a profile row, tolerating missing or stale values.
+ */
+export function readBookOrder(mode: unknown, weeks: unknown): BookOrder {
+  return {
+    mode: isBookOrderMode(mode) ? mode : "week",
+    weeks: Array.isArray(weeks) ? weeks.map(Number).filter((w) => Number.isInteger(w)) : []
+  };
+}
+
+// Stage rank for sorting; entries without a stage go after every stage
+function stageRank(c: { lifeStage: string | null }) {
+  return lifeStageIndex(c.lifeStage) ?? LIFE_STAGES.length;
+}
+
+/**
+ * Puts chapters in reading order and numbers them.
+ *  - week: program week order
+ *  - life_stage: chronological life stage, week order within a stage
+ *  - custom: the saved week list; chapters missing from it (new writing since
+ *    the order was saved) follow in week order
+ */
+export function orderChapters<T extends { week: number; lifeStage: string | null }>(
+  chapters: T[],
+  order: BookOrder
+): T[] {
+  const byWeek = [...chapters].sort((a, b) => a.week - b.week);
+
+  if (order.mode === "life_stage") {
+    return byWeek.sort((a, b) => stageRank(a) - stageRank(b));
+  }
+
+  if (order.mode === "custom") {
+    const position = new Map<number, number>();
+    order.weeks.forEach((w, i) => {
+      if (!position.has(w)) position.set(w, i);
+    });
+    const placed = byWeek.filter((c) => position.has(c.week));
+    const rest = byWeek.filter((c) => !position.has(c.week));
+    placed.sort((a, b) => position.get(a.week)! - position.get(b.week)!);
+    return [...placed, ...rest];
+  }
+
+  return byWeek;
+}
+
+/**
+ * Turns a user's entries into book chapters. Weeks without any text or photos
+ * are left out; in-progress weeks are kept so a draft manuscript can be read
+ * before all 52 are marked complete.
+ */
+export function buildManuscript<P extends ManuscriptPhotoRef = ManuscriptPhoto>(input: {
+  preferredName: string | null;
+  prompts: ManuscriptPrompt[];
+  entries: ManuscriptEntry[];
+  photos?: P[];
+  order?: BookOrder;
+}): Manuscript<P> {
+  const promptByWeek = new Map<number, ManuscriptPrompt>();
+  for (const p of input.prompts) promptByWeek.set(Number(p.week), p);
+
+  const photosByEntry = new Map<string, P[]>();
+  for (const p of input.photos ?? []) {
+    photosByEntry.set(p.entry_id, [...(photosByEntry.get(p.entry_id) ?? []), p]);
+  }
+
+  const order = input.order ?? DEFAULT_BOOK_ORDER;
+  const written: ManuscriptChapter<P>[] = [];
+
+  for (const e of input.entries) {
+    const blocks = bookBlocks(e);
+    const photos = (e.id ? photosByEntry.get(e.id) ?? [] : []).sort((a, b) => a.position - b.position);
+    if (!blocks.length && !photos.length) continue;
+
+    const promptTitle = promptByWeek.get(Number(e.week))?.title || `Week ${e.week}`;
+    const entryTitle = (e.title ?? "").trim();
+    const stage = (e.life_stage ?? "").trim();
+
+    written.push({
+      number: 0,
+      week: Number(e.week),
+      promptTitle,
+      title: entryTitle || promptTitle,
+      blocks,
+      photos,
+      complete: normalizeEntryStatus(e.status) === "complete",
+      lifeStage: stage || null,
+      partTitle: null
+    });
+  }
+
+  const chapters = orderChapters(written, order);
+  let lastPart: string | null = null;
+
+  chapters.forEach((c, i) => {
+    c.number = i + 1;
+    if (order.mode !== "life_stage") return;
+    const part = lifeStageIndex(c.lifeStage) === null ? UNSTAGED_PART_TITLE : c.lifeStage!;
+    if (part !== lastPart) c.partTitle = part;
+    lastPart = part;
+  });
+
+  return {
+    title: manuscriptTitle(input.preferredName),
+    author: cleanName(input.preferredName),
+    chapters
+  };
+}
+
+/**
+ * File name for downloads, e.g. "the-story-of-ada.md".
+ */
+export function manuscriptFileName(manuscript: Manuscript, extension: string) {
+  const slug = manuscript.title
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return `${slug || "autobiography"}.${extension}`;
+}
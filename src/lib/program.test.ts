@@ -0,0 +1,128 @@
+import { describe, expect, it } from "vitest";
+import {
+  PROGRAM_WEEKS,
+  clampWeek,
+  daysSinceStart,
+  deriveDisplayStatus,
+  normalizeEntryStatus,
+  progressStats,
+  weekFromStartDate
+} from "@/lib/program";
+
+describe("weekFromStartDate", () => {
+  it("starts a new week at UTC midnight, whatever the local zone", () => {
+    expect(weekFromStartDate("2026-01-05", new Date("2026-01-05T00:00:00Z"))).toBe(1);
+    expect(weekFromStartDate("2026-01-05", new Date("2026-01-11T23:59:59Z"))).toBe(1);
+    expect(weekFromStartDate("2026-01-05", new Date("2026-01-12T00:00:00Z"))).toBe(2);
+    // 2026-01-11 at 7pm in New York is already the 12th in UTC
+    expect(weekFromStartDate("2026-01-05", new Date("2026-01-11T19:00:00-05:00"))).toBe(2);
+  });
+
+  it("isn't shifted by daylight saving changes", () => {
+    // US clocks go forward on 2026-03-08 and back on 2026-11-01
+    expect(weekFromStartDate("2026-03-02", new Date("2026-03-09T00:00:00Z"))).toBe(2);
+    expect(weekFromStartDate("2026-03-02", new Date("2026-03-08T23:59:59Z"))).toBe(1);
+    expect(weekFromStartDate("2026-10-26", new Date("2026-11-02T00:00:00Z"))).toBe(2);
+    expect(weekFromStartDate("2026-10-26", new Date("2026-11-01T23:30:00-05:00"))).toBe(2);
+    expect(weekFromStartDate("2026-10-26", new Date("2026-11-01T18:59:00-05:00"))).toBe(1);
+  });
+
+  it("is week 1 before the start date and stays on the last week after the end", () => {
+    expect(weekFromStartDate("2026-01-05", new Date("2025-12-01T00:00:00Z"))).toBe(1);
+    expect(weekFromStartDate("2026-01-05", new Date("2026-01-04T23:59:59Z"))).toBe(1);
+    expect(weekFromStartDate("2026-01-05", new Date("2028-01-01T00:00:00Z"))).toBe(PROGRAM_WEEKS);
+  });
+
+  it("is week 1 for a start date that can't be read", () => {
+    expect(weekFromStartDate("not a date", new Date("2026-06-01T00:00:00Z"))).toBe(1);
+  });
+});
+
+describe("daysSinceStart", () => {
+  it("counts whole days from the start date, negative before it", () => {
+    expect(daysSinceStart("2026-01-05", new Date("2026-01-05T23:59:59Z"))).toBe(0);
+    expect(daysSinceStart("2026-01-05", new Date("2026-01-13T00:00:00Z"))).toBe(8);
+    expect(daysSinceStart("2026-01-05", new Date("2026-01-04T12:00:00Z"))).toBe(-1);
+  });
+
+  it("is null without a start date it can read", () => {
+    expect(daysSinceStart(null)).toBeNull();
+    expect(daysSinceStart("not a date")).toBeNull();
+  });
+});
+
+describe("clampWeek", () => {
+  it("falls back to week 1 for non-numbers", () => {
+    expect(clampWeek(NaN)).toBe(1);
+    expect(clampWeek(Infinity)).toBe(1);
+  });
+
+  it("keeps weeks inside the program", () => {
+    expect(clampWeek(0)).toBe(1);
+    expect(clampWeek(-3)).toBe(1);
+    expect(clampWeek(53)).toBe(PROGRAM_WEEKS);
+    expect(clampWeek(7.9)).toBe(7);
+  });
+});
+
+describe("normalizeEntryStatus", () => {
+  it("reads older stored values", () => {
+    expect(normalizeEntryStatus("draft")).toBe("in_progress");
+    expect(normalizeEntryStatus("open")).toBe("in_progress");
+    expect(normalizeEntryStatus("completed")).toBe("complete");
+    expect(normalizeEntryStatus(" Complete ")).toBe("complete");
+    expect(normalizeEntryStatus(null)).toBe("in_progress");
+  });
+});
+
+describe("deriveDisplayStatus", () => {
+  it("shows a blank entry as open even when marked complete", () => {
+    expect(deriveDisplayStatus({ content: "", status: "complete" })).toBe("Open");
+    expect(deriveDisplayStatus({ content: "   \n", status: "complete" })).toBe("Open");
+  });
+
+  it("follows the status once there is text", () => {
+    expect(deriveDisplayStatus({ content: "Hello", status: "complete" })).toBe("Complete");
+    expect(deriveDisplayStatus({ content: "Hello", status: "draft" })).toBe("In Progress");
+    expect(deriveDisplayStatus(null)).toBe("Open");
+  });
+
+  it("takes a has-text flag in place of the text", () => {
+    expect(deriveDisplayStatus({ has_text: true, status: "complete" })).toBe("Complete");
+    expect(deriveDisplayStatus({ has_text: false, status: "complete" })).toBe("Open");
+  });
+});
+
+describe("progressStats", () => {
+  it("counts each week once, using the last entry given for it", () => {
+    const stats = progressStats([
+      { week: 1, content: "First try", status: "in_progress" },
+      { week: 1, content: "Finished", status: "complete" },
+      { week: 2, content: "Going", status: "in_progress" }
+    ]);
+    expect(stats).toEqual({
+      open: PROGRAM_WEEKS - 2,
+      inProgress: 1,
+      complete: 1,
+      percentComplete: Math.round((1 / PROGRAM_WEEKS) * 100)
+    });
+  });
+
+  it("ignores weeks outside the program", () => {
+    const stats = progressStats([
+      { week: 0, content: "x", status: "complete" },
+      { week: 53, content: "x", status: "complete" },
+      { week: 2.5, content: "x", status: "complete" },
+      { week: 52, content: "x", status: "complete" }
+    ]);
+    expect(stats.complete).toBe(1);
+    expect(stats.open).toBe(PROGRAM_WEEKS - 1);
+  });
+
+  it("is all open with no entries and 100% when every week is complete", () => {
+    expect(progressStats([])).toEqual({ open: PROGRAM_WEEKS, inProgress: 0, complete: 0, percentComplete: 0 });
+
+    const all = Array.from({ length: PROGRAM_WEEKS }, (_, i) => ({ week: i + 1, content: "x", status: "complete" }));
+    expect(progressStats(all).percentComplete).toBe(100);
+  });
+});
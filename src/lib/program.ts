@@ -0,0 +1,117 @@
+// The 52-week program: which week a user is on, what state each week's entry
+// is in, and progress across the whole program. Shared by the pages and the
+// API routes so both count the same way.
+//
+// Start dates are calendar dates (YYYY-MM-DD) and are always read as UTC
+// midnight, so the week doesn't shift with the server's or browser's zone.
+
+export const PROGRAM_WEEKS = 52;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// What is stored in entries.status. Older rows may say "draft" or "open";
+// anything that isn't complete counts as in progress.
+export type EntryStatus = "in_progress" | "complete";
+
+// What a week shows in lists: Open until it has some text
+export type DisplayStatus = "Open" | "In Progress" | "Complete";
+
+export type EntryStatusInput = {
+  content?: string | null;
+  // Stands in for `content` where only whether there is any text was loaded
+  has_text?: boolean | null;
+  status?: string | null;
+};
+
+export type ProgressStats = {
+  open: number;
+  inProgress: number;
+  complete: number;
+  percentComplete: number;
+};
+
+export function clampWeek(n: number) {
+  if (!Number.isFinite(n)) return 1;
+  return Math.max(1, Math.min(PROGRAM_WEEKS, Math.floor(n)));
+}
+
+export function isProgramWeek(v: unknown): v is number {
+  return typeof v === "number" && Number.isInteger(v) && v >= 1 && v <= PROGRAM_WEEKS;
+}
+
+export function parseStartDate(startDate: string | null | undefined) {
+  if (!startDate) return null;
+  const d = new Date(`${startDate}T00:00:00Z`);
+  return Number.isNaN(d.getTime()) ? null : d;
+}
+
+/**
+ * Whole days from the start date to `now`, negative before it. Null without
+ * a valid start date.
+ */
+export function daysSinceStart(startDate: string | null | undefined, now = new Date()) {
+  const start = parseStartDate(startDate);
+  if (!start) return null;
+  return Math.floor((now.getTime() - start.getTime()) / MS_PER_DAY);
+}
+
+/**
+ * Program week (1-52) on `now`. Before the start date this is week 1, and
+ * after the last week it stays on 52.
+ */
+export function weekFromStartDate(startDate: string, now = new Date()) {
+  const days = daysSinceStart(startDate, now);
+  if (days === null) return 1;
+  return clampWeek(Math.floor(days / 7) + 1);
+}
+
+// Day a week opens (and its prompt email is scheduled), as UTC midnight
+export function weekStartDate(startDate: string | null | undefined, week: number) {
+  const start = parseStartDate(startDate);
+  if (!start) return null;
+  const d = new Date(start.getTime());
+  d.setUTCDate(d.getUTCDate() + (week - 1) * 7);
+  return d;
+}
+
+export function normalizeEntryStatus(raw: string | null | undefined): EntryStatus {
+  const v = String(raw ?? "").toLowerCase().trim();
+  if (v === "complete" || v === "completed") return "complete";
+  return "in_progress";
+}
+
+export function hasEntryText(entry: Pick<EntryStatusInput, "content" | "has_text"> | null | undefined) {
+  if (typeof entry?.has_text === "boolean") return entry.has_text;
+  return (entry?.content ?? "").trim().length > 0;
+}
+
+export function deriveDisplayStatus(entry: EntryStatusInput | null | undefined): DisplayStatus {
+  if (!entry || !hasEntryText(entry)) return "Open";
+  return normalizeEntryStatus(entry.status) === "complete" ? "Complete" : "In Progress";
+}
+
+/**
+ * Counts every program week once. Weeks with no entry, or only a blank one,
+ * are open.
+ */
+export function progressStats(entries: Array<EntryStatusInput & { week: number }>): ProgressStats {
+  const byWeek = new Map<number, EntryStatusInput>();
+  for (const e of entries) {
+    if (isProgramWeek(Number(e.week))) byWeek.set(Number(e.week), e);
+  }
+
+  let inProgress = 0;
+  let complete = 0;
+  for (const e of byWeek.values()) {
+    const status = deriveDisplayStatus(e);
+    if (status === "Complete") complete += 1;
+    if (status === "In Progress") inProgress += 1;
+  }
+
+  return {
+    open: PROGRAM_WEEKS - inProgress - complete,
+    inProgress,
+    complete,
+    percentComplete: Math.round((complete / PROGRAM_WEEKS) * 100)
+  };
+}
@@ -0,0 +1,194 @@
+// Formatted entry text, stored in entries.content_doc. The entry's `content`
+// column always holds the plain-text rendering of the same document, so
+// search, stats, diffs and emails keep working on plain text.
+//
+// Entries written before formatting existed have no document; they are read
+// with docFromPlainText, which turns the text back into exactly the same
+// string when rendered as plain text.
+
+import { escapeXml } from "@/lib/escape";
+
+export type RichTextRun = {
+  // May contain "\n" for a line break inside the block
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+};
+
+export type RichTextTextBlock = { type: "paragraph" | "heading" | "quote"; runs: RichTextRun[] };
+
+export type RichTextListBlock = { type: "bulleted_list" | "numbered_list"; items: RichTextRun[][] };
+
+export type RichTextBlock = RichTextTextBlock | RichTextListBlock;
+
+export type RichTextDoc = {
+  version: 1;
+  blocks: RichTextBlock[];
+};
+
+const PARAGRAPH_BREAK = "\n\n";
+
+function isRun(v: unknown): v is RichTextRun {
+  const r = v as RichTextRun;
+  return (
+    typeof r?.text === "string" &&
+    (r.bold === undefined || typeof r.bold === "boolean") &&
+    (r.italic === undefined || typeof r.italic === "boolean")
+  );
+}
+
+function isRunList(v: unknown): v is RichTextRun[] {
+  return Array.isArray(v) && v.every(isRun);
+}
+
+function isBlock(v: unknown): v is RichTextBlock {
+  const b = v as { type?: unknown; runs?: unknown; items?: unknown };
+  if (b?.type === "paragraph" || b?.type === "heading" || b?.type === "quote") return isRunList(b.runs);
+  if (b?.type === "bulleted_list" || b?.type === "numbered_list") {
+    return Array.isArray(b.items) && b.items.every(isRunList);
+  }
+  return false;
+}
+
+// Documents arrive from jsonb columns and import files, so check the shape
+export function isRichTextDoc(v: unknown): v is RichTextDoc {
+  const d = v as { version?: unknown; blocks?: unknown };
+  return d?.version === 1 && Array.isArray(d.blocks) && d.blocks.every(isBlock);
+}
+
+export function isListBlock(b: RichTextBlock): b is RichTextListBlock {
+  return b.type === "bulleted_list" || b.type === "numbered_list";
+}
+
+export function emptyDoc(): RichTextDoc {
+  return { version: 1, blocks: [] };
+}
+
+/**
+ * Plain text as a document: each blank-line-separated part becomes a
+ * paragraph. docToPlainText gives back the identical string.
+ */
+export function docFromPlainText(text: string | null | undefined): RichTextDoc {
+  const t = text ?? "";
+  if (!t) return emptyDoc();
+  return {
+    version: 1,
+    blocks: t.split(PARAGRAPH_BREAK).map((p) => ({ type: "paragraph", runs: [{ text: p }] }))
+  };
+}
+
+export function runsText(runs: RichTextRun[]) {
+  return runs.map((r) => r.text).join("");
+}
+
+export function blockToPlainText(block: RichTextBlock) {
+  if (!isListBlock(block)) return runsText(block.runs);
+  if (block.type === "bulleted_list") return block.items.map((item) => `- ${runsText(item)}`).join("\n");
+  return block.items.map((item, i) => `${i + 1}. ${runsText(item)}`).join("\n");
+}
+
+export function docToPlainText(doc: RichTextDoc) {
+  return doc.blocks.map(blockToPlainText).join(PARAGRAPH_BREAK);
+}
+
+/**
+ * The document to show or render for a stored entry.
+ */
+export function readEntryDoc(entry: { content?: string | null; content_doc?: unknown }): RichTextDoc {
+  return isRichTextDoc(entry.content_doc) ? entry.content_doc : docFromPlainText(entry.content);
+}
+
+function hasText(runs: RichTextRun[]) {
+  return runsText(runs).trim().length > 0;
+}
+
+function trimRuns(runs: RichTextRun[]) {
+  const out = runs.map((r) => ({ ...r }));
+  while (out.length && !out[0].text.trim()) out.shift();
+  while (out.length && !out[out.length - 1].text.trim()) out.pop();
+  if (out.length) {
+    out[0].text = out[0].text.replace(/^\s+/, "");
+    out[out.length - 1].text = out[out.length - 1].text.replace(/\s+$/, "");
+  }
+  return out;
+}
+
+/**
+ * Blocks for a printed page: surrounding whitespace trimmed and empty blocks
+ * or list items dropped. Plain-text entries split on blank lines, however
+ * many there are.
+ */
+export function bookBlocks(entry: { content?: string | null; content_doc?: unknown }): RichTextBlock[] {
+  const doc = isRichTextDoc(entry.content_doc)
+    ? entry.content_doc
+    : {
+        version: 1 as const,
+        blocks: (entry.content ?? "")
+          .replace(/\r\n/g, "\n")
+          .split(/\n\s*\n/)
+          .map((p): RichTextBlock => ({ type: "paragraph", runs: [{ text: p }] }))
+      };
+
+  const out: RichTextBlock[] = [];
+  for (const b of doc.blocks) {
+    if (isListBlock(b)) {
+      const items = b.items.filter(hasText).map(trimRuns);
+      if (items.length) out.push({ type: b.type, items });
+    } else if (hasText(b.runs)) {
+      out.push({ type: b.type, runs: trimRuns(b.runs) });
+    }
+  }
+  return out;
+}
+
+/**
+ * HTML for the runs of one block. With `xhtml`, line breaks are written as
+ * self-closing tags for EPUB.
+ */
+export function runsToHtml(runs: RichTextRun[], xhtml = false) {
+  const br = xhtml ? "<br/>" : "<br>";
+  return runs
+    .map((r) => {
+      let html = r.text.split("\n").map(escapeXml).join(br);
+      if (r.italic) html = `<em>${html}</em>`;
+      if (r.bold) html = `<strong>${html}</strong>`;
+      return html;
+    })
+    .join("");
+}
+
+export function blocksToHtml(blocks: RichTextBlock[], xhtml = false) {
+  return blocks
+    .map((b) => {
+      if (isListBlock(b)) {
+        const tag = b.type === "bulleted_list" ? "ul" : "ol";
+        return `<${tag}>${b.items.map((item) => `<li>${runsToHtml(item, xhtml)}</li>`).join("")}</${tag}>`;
+      }
+      if (b.type === "heading") return `<h3>${runsToHtml(b.runs, xhtml)}</h3>`;
+      if (b.type === "quote") return `<blockquote><p>${runsToHtml(b.runs, xhtml)}</p></blockquote>`;
+      return `<p>${runsToHtml(b.runs, xhtml)}</p>`;
+    })
+    .join("\n");
+}
+
+export function docToHtml(doc: RichTextDoc) {
+  return blocksToHtml(doc.blocks);
+}
+
+// Joins neighbouring runs with the same formatting
+export function mergeRuns(runs: RichTextRun[]) {
+  const out: RichTextRun[] = [];
+  for (const r of runs) {
+    if (!r.text) continue;
+    const last = out[out.length - 1];
+    if (last && Boolean(last.bold) === Boolean(r.bold) && Boolean(last.italic) === Boolean(r.italic)) {
+      last.text += r.text;
+    } else {
+      const run: RichTextRun = { text: r.text };
+      if (r.bold) run.bold = true;
+      if (r.italic) run.italic = true;
+      out.push(run);
+    }
+  }
+  return out;
+}
@@ -0,0 +1,226 @@
+import { strToU8, zipSync, type Zippable } from "fflate";
+import { getAdminClient } from "@/lib/server/supabaseAdmin";
+import { getFileStorage } from "@/lib/server/fileStorage";
+import { selectAll } from "@/lib/server/selectAll";
+import { photoKey } from "@/lib/server/entryPhotos";
+import { recordingKey } from "@/lib/server/entryRecordings";
+import {
+  entryMarkdownPath,
+  entryToMarkdown,
+  photoExportPath,
+  recordingExportPath,
+  EXPORT_SCHEMA,
+  EXPORT_VERSION,
+  type DataExport,
+  type ExportEntry,
+  type ExportPhoto,
+  type ExportPrompt,
+  type ExportRecording,
+  type ExportRevision
+} from "@/lib/dataExport";
+import { isRichTextDoc } from "@/lib/richText";
+
+type AdminClient = ReturnType<typeof getAdminClient>;
+
+type EntryRow = Omit<ExportEntry, "prompt" | "revisions" | "photos" | "recordings"> & { id: string };
+
+type RevisionRow = ExportRevision & { entry_id: string };
+
+type PhotoRow = Omit<ExportPhoto, "file"> & { id: string; entry_id: string; user_id: string };
+
+type RecordingRow = Omit<ExportRecording, "file"> & { id: string; entry_id: string; user_id: string };
+
+// export.json plus the binary files it points to, keyed by path in the ZIP
+export type DataExportBundle = {
+  data: DataExport;
+  files: Record<string, Uint8Array>;
+};
+
+const README = `MyAutobiography data export
+
+export.json       Your profile and every entry, with metadata, the prompt
+                  each entry answers and the entry's earlier versions. The
+                  "schema" and "version" fields say which format this file uses.
+entries/*.md      Each entry as a Markdown file. The block between the ---
+                  lines holds the entry details; your writing follows it.
+photos/           Photos attached to your entries, listed with their
+                  captions under each entry in export.json.
+recordings/       Spoken answers you recorded, listed with their
+                  transcripts under each entry in export.json.
+
+Both can be imported back into MyAutobiography. Importing restores the
+entries themselves; earlier versions, photos and recordings stay in this
+file for your records.
+`;
+
+/**
+ * Collects everything we store about one user into the export format.
+ */
+export async function loadDataExport(adminClient: AdminClient, userId: string): Promise<DataExportBundle> {
+  const { data: profile, error: profileErr } = await adminClient
+    .from("profiles")
+    .select("*")
+    .eq("id", userId)
+    .single();
+
+  if (profileErr) throw new Error(profileErr.message);
+
+  const { data: entryRows, error: entryErr } = await adminClient
+    .from("entries")
+    .select(
+      "id, week, prompt_key, title, content, content_doc, status, life_stage, tone, key_people, locations, themes, created_at, updated_at"
+    )
+    .eq("user_id", userId)
+    .order("week", { ascending: true });
+
+  if (entryErr) throw new Error(entryErr.message);
+
+  const { data: promptRows, error: promptErr } = await adminClient
+    .from("prompts")
+    .select("prompt_key, week, title, category, coaching, questions, helpful_followups");
+
+  if (promptErr) throw new Error(promptErr.message);
+
+  const promptByKey = new Map<string, ExportPrompt>();
+  const promptByWeek = new Map<number, ExportPrompt>();
+  for (const p of (promptRows ?? []) as ExportPrompt[]) {
+    const prompt = {
+      ...p,
+      questions: p.questions ?? [],
+      helpful_followups: p.helpful_followups ?? []
+    };
+    promptByKey.set(String(p.prompt_key), prompt);
+    if (!promptByWeek.has(Number(p.week))) promptByWeek.set(Number(p.week), prompt);
+  }
+
+  const revisionRows = await selectAll<RevisionRow>((from, to) =>
+    adminClient
+      .from("entry_revisions")
+      .select("id, entry_id, title, content, content_doc, status, created_at")
+      .eq("user_id", userId)
+      .order("created_at", { ascending: false })
+      .order("id", { ascending: true })
+      .range(from, to)
+  );
+
+  const revisionsByEntry = new Map<string, ExportRevision[]>();
+  for (const r of revisionRows) {
+    const list = revisionsByEntry.get(r.entry_id) ?? [];
+    list.push({
+      title: r.title,
+      content: r.content ?? "",
+      content_doc: isRichTextDoc(r.content_doc) ? r.content_doc : null,
+      status: r.status,
+      created_at: r.created_at
+    });
+    revisionsByEntry.set(r.entry_id, list);
+  }
+
+  const photoRows = await selectAll<PhotoRow>((from, to) =>
+    adminClient
+      .from("entry_photos")
+      .select("id, entry_id, user_id, caption, position, width, height, created_at")
+      .eq("user_id", userId)
+      .order("position", { ascending: true })
+      .order("id", { ascending: true })
+      .range(from, to)
+  );
+
+  const photosByEntry = new Map<string, PhotoRow[]>();
+  for (const p of photoRows) photosByEntry.set(p.entry_id, [...(photosByEntry.get(p.entry_id) ?? []), p]);
+
+  const recordingRows = await selectAll<RecordingRow>((from, to) =>
+    adminClient
+      .from("entry_recordings")
+      .select("id, entry_id, user_id, content_type, duration_ms, transcript, transcript_status, created_at")
+      .eq("user_id", userId)
+      .order("created_at", { ascending: true })
+      .order("id", { ascending: true })
+      .range(from, to)
+  );
+
+  const recordingsByEntry = new Map<string, RecordingRow[]>();
+  for (const r of recordingRows) {
+    recordingsByEntry.set(r.entry_id, [...(recordingsByEntry.get(r.entry_id) ?? []), r]);
+  }
+
+  const files: Record<string, Uint8Array> = {};
+  const photoStorage = getFileStorage("entry-photos");
+  const recordingStorage = getFileStorage("entry-recordings");
+  const entries: ExportEntry[] = [];
+
+  for (const { id, ...e } of (entryRows ?? []) as EntryRow[]) {
+    const photos: ExportPhoto[] = [];
+    for (const [i, p] of (photosByEntry.get(id) ?? []).entries()) {
+      const jpeg = await photoStorage.get(photoKey(p, "full"));
+      const file = jpeg ? photoExportPath(e, i + 1) : null;
+      if (jpeg && file) files[file] = jpeg;
+      photos.push({
+        file,
+        caption: p.caption,
+        position: p.position,
+        width: p.width,
+        height: p.height,
+        created_at: p.created_at
+      });
+    }
+
+    const recordings: ExportRecording[] = [];
+    for (const [i, r] of (recordingsByEntry.get(id) ?? []).entries()) {
+      const audio = await recordingStorage.get(recordingKey(r));
+      const file = audio ? recordingExportPath(e, i + 1, r.content_type) : null;
+      if (audio && file) files[file] = audio;
+      recordings.push({
+        file,
+        content_type: r.content_type,
+        duration_ms: r.duration_ms,
+        transcript: r.transcript,
+        transcript_status: r.transcript_status,
+        created_at: r.created_at
+      });
+    }
+
+    entries.push({
+      ...e,
+      content: e.content ?? "",
+      content_doc: isRichTextDoc(e.content_doc) ? e.content_doc : null,
+      prompt: (e.prompt_key ? promptByKey.get(e.prompt_key) : undefined) ?? promptByWeek.get(Number(e.week)) ?? null,
+      revisions: revisionsByEntry.get(id) ?? [],
+      photos,
+      recordings
+    });
+  }
+
+  return {
+    data: {
+      schema: EXPORT_SCHEMA,
+      version: EXPORT_VERSION,
+      exported_at: new Date().toISOString(),
+      profile: profile as Record<string, unknown>,
+      entries
+    },
+    files
+  };
+}
+
+/**
+ * Packs an export into a ZIP: export.json, a README, one Markdown file per
+ * entry and the entries' photos and recordings.
+ */
+export function zipDataExport({ data, files: attachments }: DataExportBundle): Uint8Array<ArrayBuffer> {
+  const files: Zippable = {
+    "README.txt": strToU8(README),
+    "export.json": strToU8(JSON.stringify(data, null, 2))
+  };
+
+  for (const e of data.entries) {
+    files[entryMarkdownPath(e)] = strToU8(entryToMarkdown(e));
+  }
+
+  // Already compressed; deflating again only costs time
+  for (const [path, bytes] of Object.entries(attachments)) {
+    files[path] = [bytes, { level: 0 }];
+  }
+
+  return new Uint8Array(zipSync(files));
+}
@@ -0,0 +1,251 @@
+import { getAdminClient } from "@/lib/server/supabaseAdmin";
+import { selectAll } from "@/lib/server/selectAll";
+
+type AdminClient = ReturnType<typeof getAdminClient>;
+
+export type DeliveryStatus = "pending" | "sent" | "failed";
+
+export type DeliveryKind = "weekly" | "reminder" | "broadcast";
+
+export type DeliveryClaim =
+  | { claimed: true; deliveryId: string; attempt: number }
+  | { claimed: false; reason: "already_sent" | "in_flight" | "gave_up" };
+
+type DeliveryRow = {
+  id: string;
+  status: DeliveryStatus;
+  attempts: number;
+  updated_at: string;
+};
+
+// A pending row older than this is treated as an abandoned run and retried.
+const STALE_PENDING_MS = 15 * 60 * 1000;
+const MAX_ATTEMPTS = 5;
+
+const UNIQUE_VIOLATION = "23505";
+
+// Each call returns at most one row per user, kept under the API's row limit
+const LAST_SENT_BATCH = 500;
+
+// User ids per request; they go in the query string
+const REMINDER_HISTORY_BATCH = 100;
+
+/**
+ * Highest program week with a delivered weekly email, per user, counting only
+ * emails sent under the user's current start date.
+ */
+export async function loadLastSentWeeks(adminClient: AdminClient, userIds: string[]) {
+  const lastSent = new Map<string, number>();
+
+  for (let i = 0; i < userIds.length; i += LAST_SENT_BATCH) {
+    const { data, error } = await adminClient.rpc("last_weekly_email_weeks", {
+      user_ids: userIds.slice(i, i + LAST_SENT_BATCH)
+    });
+
+    if (error) throw new Error(error.message);
+
+    for (const row of (data ?? []) as { user_id: string; week: number }[]) {
+      lastSent.set(String(row.user_id), Number(row.week));
+    }
+  }
+
+  return lastSent;
+}
+
+/**
+ * Reserves the (user, start date, week) slot before anything is sent. Only one
+ * caller can hold a claim at a time; a slot that already went out is never
+ * claimed again.
+ */
+export async function claimWeeklyDelivery(
+  adminClient: AdminClient,
+  input: { userId: string; programStart: string; week: number; promptKey: string | null; provider: string }
+): Promise<DeliveryClaim> {
+  const { data: inserted, error: insertErr } = await adminClient
+    .from("email_deliveries")
+    .insert({
+      kind: "weekly",
+      user_id: input.userId,
+      program_start: input.programStart,
+      week: input.week,
+      prompt_key: input.promptKey,
+      provider: input.provider,
+      status: "pending"
+    })
+    .select("id")
+    .single();
+
+  if (!insertErr && inserted) {
+    return { claimed: true, deliveryId: String(inserted.id), attempt: 1 };
+  }
+
+  if (insertErr && insertErr.code !== UNIQUE_VIOLATION) {
+    throw new Error(insertErr.message);
+  }
+
+  const { data: existing, error: loadErr } = await adminClient
+    .from("email_deliveries")
+    .select("id, status, attempts, updated_at")
+    .eq("kind", "weekly")
+    .eq("user_id", input.userId)
+    .eq("program_start", input.programStart)
+    .eq("week", input.week)
+    .single();
+
+  if (loadErr) throw new Error(loadErr.message);
+
+  const row = existing as DeliveryRow;
+
+  if (row.status === "sent") return { claimed: false, reason: "already_sent" };
+
+  if (row.status === "pending") {
+    const age = Date.now() - new Date(row.updated_at).getTime();
+    if (age < STALE_PENDING_MS) return { claimed: false, reason: "in_flight" };
+  }
+
+  if (row.status === "failed" && row.attempts >= MAX_ATTEMPTS) {
+    return { claimed: false, reason: "gave_up" };
+  }
+
+  // A stale pending row may or may not have reached the provider, so it keeps
+  // its attempt number (and therefore its provider idempotency key).
+  const attempt = row.status === "failed" ? row.attempts + 1 : row.attempts;
+
+  // Conditional update so two concurrent retries cannot both win the slot
+  const { data: retried, error: retryErr } = await adminClient
+    .from("email_deliveries")
+    .update({
+      status: "pending",
+      error: null,
+      prompt_key: input.promptKey,
+      provider: input.provider,
+      attempts: attempt,
+      updated_at: new Date().toISOString()
+    })
+    .eq("id", row.id)
+    .eq("updated_at", row.updated_at)
+    .select("id")
+    .maybeSingle();
+
+  if (retryErr) throw new Error(retryErr.message);
+  if (!retried) return { claimed: false, reason: "in_flight" };
+
+  return { claimed: true, deliveryId: row.id, attempt };
+}
+
+/**
+ * Sent reminders per user, newest first, for the given users. Pending rows
+ * count too: one left over from an earlier run may well have gone out.
+ */
+export async function loadReminderHistory(adminClient: AdminClient, userIds: string[]) {
+  const rows: { user_id: string; created_at: string }[] = [];
+
+  for (let i = 0; i < userIds.length; i += REMINDER_HISTORY_BATCH) {
+    const batch = userIds.slice(i, i + REMINDER_HISTORY_BATCH);
+    rows.push(
+      ...(await selectAll<{ user_id: string; created_at: string }>((from, to) =>
+        adminClient
+          .from("email_deliveries")
+          .select("user_id, created_at")
+          .eq("kind", "reminder")
+          .in("status", ["sent", "pending"])
+          .in("user_id", batch)
+          .order("created_at", { ascending: false })
+          .order("id", { ascending: true })
+          .range(from, to)
+      ))
+    );
+  }
+
+  const history = new Map<string, string[]>();
+  for (const row of rows) {
+    const uid = String(row.user_id);
+    const list = history.get(uid) ?? [];
+    list.push(String(row.created_at));
+    history.set(uid, list);
+  }
+  return history;
+}
+
+/**
+ * Logs a reminder before it is sent. Returns null when this user already has
+ * a reminder logged today.
+ */
+export async function claimReminderDelivery(
+  adminClient: AdminClient,
+  input: { userId: string; week: number | null; provider: string }
+) {
+  const { data, error } = await adminClient
+    .from("email_deliveries")
+    .insert({
+      kind: "reminder",
+      user_id: input.userId,
+      week: input.week,
+      provider: input.provider,
+      status: "pending"
+    })
+    .select("id")
+    .single();
+
+  if (error?.code === UNIQUE_VIOLATION) return null;
+  if (error) throw new Error(error.message);
+
+  return String(data.id);
+}
+
+/**
+ * Logs one broadcast recipient before sending. Returns null when this user
+ * already has a row for the broadcast.
+ */
+export async function claimBroadcastDelivery(
+  adminClient: AdminClient,
+  input: { broadcastId: string; userId: string; provider: string }
+) {
+  const { data, error } = await adminClient
+    .from("email_deliveries")
+    .insert({
+      kind: "broadcast",
+      broadcast_id: input.broadcastId,
+      user_id: input.userId,
+      provider: input.provider,
+      status: "pending"
+    })
+    .select("id")
+    .single();
+
+  if (error?.code === UNIQUE_VIOLATION) return null;
+  if (error) throw new Error(error.message);
+
+  return String(data.id);
+}
+
+export async function markDeliverySent(
+  adminClient: AdminClient,
+  deliveryId: string,
+  providerMessageId: string | null
+) {
+  const { error } = await adminClient
+    .from("email_deliveries")
+    .update({
+      status: "sent",
+      provider_message_id: providerMessageId,
+      error: null,
+      updated_at: new Date().toISOString()
+    })
+    .eq("id", deliveryId);
+
+  if (error) throw new Error(error.message);
+}
+
+export async function markDeliveryFailed(adminClient: AdminClient, deliveryId: string, message: string) {
+  const { error } = await adminClient
+    .from("email_deliveries")
+    .update({
+      status: "failed",
+      error: message.slice(0, 1000),
+      updated_at: new Date().toISOString()
+    })
+    .eq("id", deliveryId);
+
+  if (error) throw new Error(error.message);
+}
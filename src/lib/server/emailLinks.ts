@@ -0,0 +1,78 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+
+export type EmailLinkAction = "pause" | "unsubscribe" | "resume";
+
+export type EmailLinkCheck =
+  | { ok: true; userId: string; action: EmailLinkAction }
+  | { ok: false; error: "invalid" | "expired" };
+
+type TokenPayload = {
+  u: string;
+  a: EmailLinkAction;
+  e: number; // expiry, unix seconds
+};
+
+const ACTIONS: EmailLinkAction[] = ["pause", "unsubscribe", "resume"];
+const DEFAULT_TTL_DAYS = 60;
+
+function mustEnv(name: string) {
+  const v = process.env[name];
+  if (!v) throw new Error(`Missing env var: ${name}`);
+  return v;
+}
+
+function sign(body: string) {
+  return createHmac("sha256", mustEnv("EMAIL_LINK_SECRET")).update(body).digest("base64url");
+}
+
+export function createEmailActionToken(userId: string, action: EmailLinkAction, now = new Date()) {
+  const ttlDays = Number(process.env.EMAIL_LINK_TTL_DAYS) || DEFAULT_TTL_DAYS;
+  const payload: TokenPayload = {
+    u: userId,
+    a: action,
+    e: Math.floor(now.getTime() / 1000) + ttlDays * 24 * 60 * 60
+  };
+  const body = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  return `${body}.${sign(body)}`;
+}
+
+export function verifyEmailActionToken(token: string | null, now = new Date()): EmailLinkCheck {
+  const [body, sig] = String(token ?? "").split(".");
+  if (!body || !sig) return { ok: false, error: "invalid" };
+
+  const expected = Buffer.from(sign(body));
+  const given = Buffer.from(sig);
+  if (expected.length !== given.length || !timingSafeEqual(expected, given)) {
+    return { ok: false, error: "invalid" };
+  }
+
+  let payload: TokenPayload;
+  try {
+    payload = JSON.parse(Buffer.from(body, "base64url").toString("utf8")) as TokenPayload;
+  } catch {
+    return { ok: false, error: "invalid" };
+  }
+
+  if (typeof payload?.u !== "string" || !ACTIONS.includes(payload.a) || typeof payload.e !== "number") {
+    return { ok: false, error: "invalid" };
+  }
+
+  if (payload.e * 1000 < now.getTime()) return { ok: false, error: "expired" };
+
+  return { ok: true, userId: payload.u, action: payload.a };
+}
+
+export function emailActionUrl(appUrl: string, userId: string, action: EmailLinkAction) {
+  return `${appUrl}/api/email/preferences?token=${createEmailActionToken(userId, action)}`;
+}
+
+/**
+ * RFC 8058 headers so mail clients can offer their own one-click unsubscribe,
+ * which POSTs to the given URL.
+ */
+export function listUnsubscribeHeaders(unsubscribeUrl: string): Record<string, string> {
+  return {
+    "List-Unsubscribe": `<${unsubscribeUrl}>`,
+    "List-Unsubscribe-Post": "List-Unsubscribe=One-Click"
+  };
+}
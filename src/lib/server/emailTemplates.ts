@@ -0,0 +1,292 @@
+import { escapeHtml } from "@/lib/escape";
+import { PROGRAM_WEEKS } from "@/lib/program";
+
+export type RenderedEmail = {
+  subject: string;
+  html: string;
+  text: string;
+};
+
+export type EmailPrompt = {
+  week: number;
+  title: string;
+  category: string;
+  coaching: string;
+  questions: string[];
+  helpful_followups: string[];
+};
+
+export type WeeklyPromptParams = {
+  preferredName: string | null;
+  prompt: EmailPrompt;
+  completed: number;
+  link: string;
+  preferenceLinks: {
+    pause: string;
+    unsubscribe: string;
+  };
+};
+
+export type ReminderWeek = {
+  week: number;
+  title: string;
+  link: string;
+};
+
+export type ReminderParams = {
+  preferredName: string | null;
+  inProgress: ReminderWeek[];
+  open: ReminderWeek[];
+  completed: number;
+  link: string;
+  preferenceLinks: {
+    pause: string;
+    unsubscribe: string;
+  };
+};
+
+export type BroadcastParams = {
+  preferredName: string | null;
+  subject: string;
+  // Plain text written by an admin; blank lines separate paragraphs
+  body: string;
+  link: string;
+  preferenceLinks: {
+    pause: string;
+    unsubscribe: string;
+  };
+};
+
+export type SignInLinkParams = {
+  actionLink: string;
+};
+
+export type PasswordResetParams = {
+  actionLink: string;
+};
+
+export type TestEmailParams = {
+  sentAt: Date;
+};
+
+export type EmailTemplateParams = {
+  weekly_prompt: WeeklyPromptParams;
+  reminder: ReminderParams;
+  broadcast: BroadcastParams;
+  sign_in_link: SignInLinkParams;
+  password_reset: PasswordResetParams;
+  test: TestEmailParams;
+};
+
+export type EmailTemplateName = keyof EmailTemplateParams;
+
+export function nonEmpty(items: string[] | null | undefined) {
+  return (items ?? []).map((s) => String(s ?? "").trim()).filter((s) => s.length > 0);
+}
+
+function htmlLayout(body: string, footer: string) {
+  return `<div style="font-family: Arial, sans-serif; line-height:1.5">
+${body}
+<p style="opacity:0.7;font-size:12px">${footer}</p>
+</div>`;
+}
+
+function htmlLink(href: string, label: string) {
+  return `<a href="${escapeHtml(href)}">${escapeHtml(label)}</a>`;
+}
+
+function htmlList(items: string[]) {
+  const lis = items.map((q) => `<li>${escapeHtml(q)}</li>`).join("");
+  return `<ul style="padding-left:20px;margin:4px 0 12px">${lis}</ul>`;
+}
+
+function textList(items: string[]) {
+  return items.map((q) => `- ${q}`).join("\n");
+}
+
+// Long lists are trimmed so a reminder never turns into a wall of links
+const REMINDER_LIST_LIMIT = 8;
+
+function htmlWeekList(items: ReminderWeek[]) {
+  const shown = items.slice(0, REMINDER_LIST_LIMIT);
+  const lis = shown
+    .map((w) => `<li>${htmlLink(w.link, `Week ${w.week}: ${w.title || `Week ${w.week}`}`)}</li>`)
+    .join("");
+  const more = items.length - shown.length;
+  return `<ul style="padding-left:20px;margin:4px 0 12px">${lis}${more > 0 ? `<li>and ${more} more</li>` : ""}</ul>`;
+}
+
+function textWeekList(items: ReminderWeek[]) {
+  const shown = items.slice(0, REMINDER_LIST_LIMIT);
+  const lines = shown.map((w) => `- Week ${w.week}: ${w.title || `Week ${w.week}`} (${w.link})`);
+  const more = items.length - shown.length;
+  if (more > 0) lines.push(`- and ${more} more`);
+  return lines.join("\n");
+}
+
+function greeting(preferredName: string | null) {
+  const name = (preferredName ?? "").trim();
+  return name ? `Hello ${name},` : "Hello,";
+}
+
+function renderWeeklyPrompt(params: WeeklyPromptParams): RenderedEmail {
+  const { prompt } = params;
+  const title = prompt.title || "Your autobiography prompt";
+  const questions = nonEmpty(prompt.questions);
+  const followups = nonEmpty(prompt.helpful_followups);
+  const progress = `You’ve completed ${params.completed} of ${PROGRAM_WEEKS} so far.`;
+  const { pause, unsubscribe } = params.preferenceLinks;
+
+  const htmlParts = [
+    `<p>${escapeHtml(greeting(params.preferredName))}</p>`,
+    `<p style="margin-bottom:0"><strong>Week ${prompt.week}: ${escapeHtml(title)}</strong></p>`,
+    prompt.category ? `<p style="margin-top:0;opacity:0.7">${escapeHtml(prompt.category)}</p>` : "",
+    prompt.coaching ? `<p>${escapeHtml(prompt.coaching)}</p>` : "",
+    questions.length ? `<p style="margin-bottom:0"><strong>Main questions</strong></p>${htmlList(questions)}` : "",
+    followups.length ? `<p style="margin-bottom:0"><strong>Helpful follow ups</strong></p>${htmlList(followups)}` : "",
+    `<p>${htmlLink(params.link, "Open this week’s question")}</p>`,
+    `<p>${escapeHtml(progress)}</p>`
+  ];
+
+  const textParts = [
+    greeting(params.preferredName),
+    `Week ${prompt.week}: ${title}` + (prompt.category ? `\n${prompt.category}` : ""),
+    prompt.coaching,
+    questions.length ? `Main questions\n${textList(questions)}` : "",
+    followups.length ? `Helpful follow ups\n${textList(followups)}` : "",
+    `Open this week’s question: ${params.link}`,
+    progress,
+    `Need a break? Pause weekly emails: ${pause}\nUnsubscribe: ${unsubscribe}`
+  ];
+
+  return {
+    subject: `Week ${prompt.week}: ${title}`,
+    html: htmlLayout(
+      htmlParts.filter(Boolean).join("\n"),
+      `Need a break? ${htmlLink(pause, "Pause weekly emails")} · ${htmlLink(unsubscribe, "Unsubscribe")}`
+    ),
+    text: textParts.filter(Boolean).join("\n\n")
+  };
+}
+
+function renderReminder(params: ReminderParams): RenderedEmail {
+  const intro = "It’s been a little while since you last wrote. There’s no rush. Pick up wherever feels right today, even a few sentences count.";
+  const progress = `You’ve completed ${params.completed} of ${PROGRAM_WEEKS} so far.`;
+  const { pause, unsubscribe } = params.preferenceLinks;
+
+  const htmlParts = [
+    `<p>${escapeHtml(greeting(params.preferredName))}</p>`,
+    `<p>${escapeHtml(intro)}</p>`,
+    params.inProgress.length
+      ? `<p style="margin-bottom:0"><strong>Stories you’ve started</strong></p>${htmlWeekList(params.inProgress)}`
+      : "",
+    params.open.length
+      ? `<p style="margin-bottom:0"><strong>Questions still open</strong></p>${htmlWeekList(params.open)}`
+      : "",
+    `<p>${htmlLink(params.link, "Open your dashboard")}</p>`,
+    `<p>${escapeHtml(progress)}</p>`
+  ];
+
+  const textParts = [
+    greeting(params.preferredName),
+    intro,
+    params.inProgress.length ? `Stories you’ve started\n${textWeekList(params.inProgress)}` : "",
+    params.open.length ? `Questions still open\n${textWeekList(params.open)}` : "",
+    `Open your dashboard: ${params.link}`,
+    progress,
+    `Need a break? Pause weekly emails: ${pause}\nUnsubscribe: ${unsubscribe}`
+  ];
+
+  return {
+    subject: "Your story is waiting for you",
+    html: htmlLayout(
+      htmlParts.filter(Boolean).join("\n"),
+      `Need a break? ${htmlLink(pause, "Pause emails")} · ${htmlLink(unsubscribe, "Unsubscribe")}`
+    ),
+    text: textParts.filter(Boolean).join("\n\n")
+  };
+}
+
+function renderBroadcast(params: BroadcastParams): RenderedEmail {
+  const paragraphs = params.body
+    .replace(/\r\n/g, "\n")
+    .split(/\n\s*\n/)
+    .map((p) => p.trim())
+    .filter((p) => p.length > 0);
+  const { pause, unsubscribe } = params.preferenceLinks;
+
+  const htmlParts = [
+    `<p>${escapeHtml(greeting(params.preferredName))}</p>`,
+    ...paragraphs.map((p) => `<p>${escapeHtml(p).replace(/\n/g, "<br>")}</p>`),
+    `<p>${htmlLink(params.link, "Open your dashboard")}</p>`
+  ];
+
+  const textParts = [
+    greeting(params.preferredName),
+    ...paragraphs,
+    `Open your dashboard: ${params.link}`,
+    `Need a break? Pause emails: ${pause}\nUnsubscribe: ${unsubscribe}`
+  ];
+
+  return {
+    subject: params.subject.trim(),
+    html: htmlLayout(
+      htmlParts.join("\n"),
+      `Need a break? ${htmlLink(pause, "Pause emails")} · ${htmlLink(unsubscribe, "Unsubscribe")}`
+    ),
+    text: textParts.join("\n\n")
+  };
+}
+
+function renderSignInLink(params: SignInLinkParams): RenderedEmail {
+  const footer = "If you did not request this, you can ignore this email.";
+  return {
+    subject: "Your MyAutobiography sign-in link",
+    html: htmlLayout(
+      [
+        "<p>Here is your secure sign-in link to MyAutobiography.</p>",
+        `<p>${htmlLink(params.actionLink, "Sign in")}</p>`
+      ].join("\n"),
+      footer
+    ),
+    text: ["Here is your secure sign-in link to MyAutobiography.", params.actionLink, footer].join("\n\n")
+  };
+}
+
+function renderPasswordReset(params: PasswordResetParams): RenderedEmail {
+  const footer = "If you did not request this, you can ignore this email.";
+  return {
+    subject: "Reset your MyAutobiography password",
+    html: htmlLayout(
+      [
+        "<p>Use the link below to reset your password.</p>",
+        `<p>${htmlLink(params.actionLink, "Reset password")}</p>`
+      ].join("\n"),
+      footer
+    ),
+    text: ["Use the link below to reset your password.", params.actionLink, footer].join("\n\n")
+  };
+}
+
+function renderTest(params: TestEmailParams): RenderedEmail {
+  const line = "This is a test email. If you received this, email delivery is working.";
+  const stamp = `Sent at ${params.sentAt.toISOString()}.`;
+  return {
+    subject: "Test email from Autobiography app",
+    html: htmlLayout(`<p>${escapeHtml(line)}</p>`, escapeHtml(stamp)),
+    text: [line, stamp].join("\n\n")
+  };
+}
+
+const templates: { [K in EmailTemplateName]: (params: EmailTemplateParams[K]) => RenderedEmail } = {
+  weekly_prompt: renderWeeklyPrompt,
+  reminder: renderReminder,
+  broadcast: renderBroadcast,
+  sign_in_link: renderSignInLink,
+  password_reset: renderPasswordReset,
+  test: renderTest
+};
+
+export function renderEmail<K extends EmailTemplateName>(name: K, params: EmailTemplateParams[K]) {
+  return templates[name](params);
+}
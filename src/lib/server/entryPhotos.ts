@@ -0,0 +1,99 @@
+import { getAdminClient } from "@/lib/server/supabaseAdmin";
+import { getFileStorage } from "@/lib/server/fileStorage";
+import type { PhotoSize } from "@/lib/entryPhotos";
+import type { ManuscriptPhoto } from "@/lib/manuscript";
+
+type AdminClient = ReturnType<typeof getAdminClient>;
+
+export function photoKey(photo: { id: string; user_id: string }, size: PhotoSize) {
+  return `${photo.user_id}/${photo.id}${size === "thumb" ? "_thumb" : ""}.jpg`;
+}
+
+// Start-of-frame markers carry the image size; the others are skipped
+const SOF_MARKERS = new Set([0xc0, 0xc1, 0xc2, 0xc3, 0xc5, 0xc6, 0xc7, 0xc9, 0xca, 0xcb, 0xcd, 0xce, 0xcf]);
+
+/**
+ * Pixel size of a JPEG, or null when the bytes aren't one. Used to check
+ * uploads are what the browser said they are.
+ */
+export function jpegSize(bytes: Uint8Array): { width: number; height: number } | null {
+  if (bytes.length < 4 || bytes[0] !== 0xff || bytes[1] !== 0xd8) return null;
+
+  let i = 2;
+  while (i + 9 < bytes.length) {
+    if (bytes[i] !== 0xff) return null;
+    const marker = bytes[i + 1];
+    if (marker === 0xff) {
+      i += 1;
+      continue;
+    }
+    if (SOF_MARKERS.has(marker)) {
+      const height = (bytes[i + 5] << 8) | bytes[i + 6];
+      const width = (bytes[i + 7] << 8) | bytes[i + 8];
+      return width && height ? { width, height } : null;
+    }
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      i += 2;
+      continue;
+    }
+    i += 2 + ((bytes[i + 2] << 8) | bytes[i + 3]);
+  }
+  return null;
+}
+
+/**
+ * Deletes the stored files for photos whose rows are going away. Rows are
+ * removed by the caller (or by the entry delete cascading to them).
+ */
+export async function removePhotoFiles(photos: { id: string; user_id: string }[]) {
+  if (!photos.length) return;
+  await getFileStorage("entry-photos").remove(photos.flatMap((p) => [photoKey(p, "full"), photoKey(p, "thumb")]));
+}
+
+/**
+ * Photo files for entries about to be deleted. Call before the delete, since
+ * the rows cascade away with the entries.
+ */
+export async function photoFilesForEntries(
+  adminClient: AdminClient,
+  filter: { userId: string; week?: number }
+) {
+  let query = adminClient.from("entry_photos").select("id, user_id, entries!inner(week)").eq("user_id", filter.userId);
+  if (filter.week !== undefined) query = query.eq("entries.week", filter.week);
+
+  const { data, error } = await query;
+  if (error) throw new Error(error.message);
+  return (data ?? []).map((p) => ({ id: String(p.id), user_id: String(p.user_id) }));
+}
+
+/**
+ * Every photo for a user's manuscript, with the image bytes. Photos whose
+ * file is missing from storage are left out rather than failing the export.
+ */
+export async function loadManuscriptPhotos(adminClient: AdminClient, userId: string): Promise<ManuscriptPhoto[]> {
+  const { data, error } = await adminClient
+    .from("entry_photos")
+    .select("id, user_id, entry_id, caption, position, width, height")
+    .eq("user_id", userId)
+    .order("position", { ascending: true });
+
+  if (error) throw new Error(error.message);
+
+  const storage = getFileStorage("entry-photos");
+  const photos: ManuscriptPhoto[] = [];
+
+  for (const p of data ?? []) {
+    const jpeg = await storage.get(photoKey({ id: String(p.id), user_id: String(p.user_id) }, "full"));
+    if (!jpeg) continue;
+    photos.push({
+      entry_id: String(p.entry_id),
+      caption: p.caption ?? null,
+      position: Number(p.position),
+      width: Number(p.width),
+      height: Number(p.height),
+      jpeg
+    });
+  }
+
+  return photos;
+}
@@ -0,0 +1,86 @@
+import { getAdminClient } from "@/lib/server/supabaseAdmin";
+import { getFileStorage } from "@/lib/server/fileStorage";
+import { getTranscriptionEngine } from "@/lib/server/transcription";
+import { RECORDING_COLUMNS, recordingExtension, type EntryRecording } from "@/lib/entryRecordings";
+
+type AdminClient = ReturnType<typeof getAdminClient>;
+
+type RecordingRef = { id: string; user_id: string; content_type: string };
+
+export function recordingKey(recording: RecordingRef) {
+  return `${recording.user_id}/${recording.id}.${recordingExtension(recording.content_type) ?? "bin"}`;
+}
+
+/**
+ * Deletes the stored audio for recordings whose rows are going away. Rows are
+ * removed by the caller (or by the entry delete cascading to them).
+ */
+export async function removeRecordingFiles(recordings: RecordingRef[]) {
+  if (!recordings.length) return;
+  await getFileStorage("entry-recordings").remove(recordings.map(recordingKey));
+}
+
+/**
+ * Recording files for entries about to be deleted. Call before the delete,
+ * since the rows cascade away with the entries.
+ */
+export async function recordingFilesForEntries(
+  adminClient: AdminClient,
+  filter: { userId: string; week?: number }
+) {
+  let query = adminClient
+    .from("entry_recordings")
+    .select("id, user_id, content_type, entries!inner(week)")
+    .eq("user_id", filter.userId);
+  if (filter.week !== undefined) query = query.eq("entries.week", filter.week);
+
+  const { data, error } = await query;
+  if (error) throw new Error(error.message);
+  return (data ?? []).map((r) => ({
+    id: String(r.id),
+    user_id: String(r.user_id),
+    content_type: String(r.content_type)
+  }));
+}
+
+/**
+ * Runs the configured engine over a recording and stores the outcome on its
+ * row. An engine failure is recorded (so the user can retry) rather than thrown.
+ */
+export async function transcribeRecording(
+  adminClient: AdminClient,
+  recording: RecordingRef,
+  audio: Uint8Array
+): Promise<EntryRecording> {
+  let update: Partial<EntryRecording>;
+
+  try {
+    const engine = getTranscriptionEngine();
+    const transcript = await engine.transcribe({
+      body: audio,
+      contentType: recording.content_type,
+      extension: recordingExtension(recording.content_type) ?? "bin"
+    });
+    update = {
+      transcript: transcript || null,
+      transcript_status: transcript ? "done" : "failed",
+      transcript_error: transcript ? null : "No speech was heard in the recording",
+      transcribed_by: engine.name
+    };
+  } catch (err: unknown) {
+    update = {
+      transcript_status: "failed",
+      transcript_error: err instanceof Error ? err.message : "Transcription failed"
+    };
+  }
+
+  const { data, error } = await adminClient
+    .from("entry_recordings")
+    .update(update)
+    .eq("id", recording.id)
+    .select(RECORDING_COLUMNS)
+    .single();
+
+  if (error) throw new Error(error.message);
+  return data as EntryRecording;
+}
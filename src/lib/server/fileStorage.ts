@@ -0,0 +1,83 @@
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { getAdminClient } from "@/lib/server/supabaseAdmin";
+
+// Private buckets for files users attach to entries. Clients never read them
+// directly; API routes check access and serve the files.
+export type StorageBucket = "entry-photos" | "entry-recordings";
+
+export type FileStorageName = "supabase" | "file";
+
+export type FileStorage = {
+  name: FileStorageName;
+  put(key: string, body: Uint8Array, contentType: string): Promise<void>;
+  // null when nothing is stored under the key
+  get(key: string): Promise<Uint8Array | null>;
+  remove(keys: string[]): Promise<void>;
+};
+
+function createSupabaseStorage(bucketName: StorageBucket): FileStorage {
+  const bucket = getAdminClient().storage.from(bucketName);
+
+  return {
+    name: "supabase",
+    async put(key, body, contentType) {
+      const { error } = await bucket.upload(key, body, { contentType, upsert: true });
+      if (error) throw new Error(error.message);
+    },
+    async get(key) {
+      const { data, error } = await bucket.download(key);
+      if (error || !data) return null;
+      return new Uint8Array(await data.arrayBuffer());
+    },
+    async remove(keys) {
+      if (!keys.length) return;
+      const { error } = await bucket.remove(keys);
+      if (error) throw new Error(error.message);
+    }
+  };
+}
+
+function createLocalStorage(bucketName: StorageBucket): FileStorage {
+  const dir = path.resolve(process.env.FILE_STORAGE_DIR || ".file-storage", bucketName);
+
+  // Keys are built by the feature modules, but never let one point outside the folder
+  function fileFor(key: string) {
+    const file = path.resolve(dir, key);
+    if (!file.startsWith(dir + path.sep)) throw new Error(`Invalid storage key: ${key}`);
+    return file;
+  }
+
+  return {
+    name: "file",
+    async put(key, body) {
+      const file = fileFor(key);
+      await mkdir(path.dirname(file), { recursive: true });
+      await writeFile(file, body);
+    },
+    async get(key) {
+      try {
+        return new Uint8Array(await readFile(fileFor(key)));
+      } catch {
+        return null;
+      }
+    },
+    async remove(keys) {
+      await Promise.all(keys.map((key) => rm(fileFor(key), { force: true })));
+    }
+  };
+}
+
+/**
+ * Storage chosen by FILE_STORAGE: "supabase" (default, a private Storage
+ * bucket) or "file" (a folder per bucket under FILE_STORAGE_DIR, default
+ * .file-storage).
+ */
+export function getFileStorage(bucket: StorageBucket): FileStorage {
+  const name = (process.env.FILE_STORAGE || "supabase").toLowerCase();
+
+  if (name === "supabase") return createSupabaseStorage(bucket);
+  if (name === "file") return createLocalStorage(bucket);
+
+  throw new Error(`Unknown FILE_STORAGE: ${name}`);
+}
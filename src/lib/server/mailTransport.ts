@@ -0,0 +1,149 @@
+import { randomUUID } from "node:crypto";
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { Resend } from "resend";
+
+export type MailMessage = {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  headers?: Record<string, string>;
+  // Same key within a short window means the provider sends at most once
+  idempotencyKey?: string;
+};
+
+export type MailSendResult = {
+  id: string | null;
+  // Where the file transport wrote the message
+  path?: string;
+};
+
+export type MailTransportName = "resend" | "file" | "memory";
+
+export type MailTransport = {
+  name: MailTransportName;
+  send(message: MailMessage): Promise<MailSendResult>;
+};
+
+export type OutboxMessage = MailMessage & {
+  id: string;
+  from: string;
+  sent_at: string;
+};
+
+function mustEnv(name: string) {
+  const v = process.env[name];
+  if (!v) throw new Error(`Missing env var: ${name}`);
+  return v;
+}
+
+function localFrom() {
+  return process.env.RESEND_FROM_EMAIL || "MyAutobiography <noreply@localhost>";
+}
+
+function createResendTransport(): MailTransport {
+  const resend = new Resend(mustEnv("RESEND_API_KEY"));
+  const from = mustEnv("RESEND_FROM_EMAIL"); // ex: "MyAutobiography <noreply@autobiography.iconpublishingllc.com>"
+
+  return {
+    name: "resend",
+    async send(message) {
+      const { data, error } = await resend.emails.send(
+        {
+          from,
+          to: message.to,
+          subject: message.subject,
+          html: message.html,
+          text: message.text,
+          headers: message.headers
+        },
+        message.idempotencyKey ? { idempotencyKey: message.idempotencyKey } : undefined
+      );
+
+      if (error) throw new Error(error.message);
+      return { id: data?.id ?? null };
+    }
+  };
+}
+
+// Local transports remember idempotency keys for the life of the process,
+// which is enough to mirror the provider's dedupe in dev and tests.
+const seenKeys = new Map<string, MailSendResult>();
+const memoryOutbox: OutboxMessage[] = [];
+
+function toOutboxMessage(message: MailMessage): OutboxMessage {
+  return {
+    ...message,
+    id: `local_${randomUUID()}`,
+    from: localFrom(),
+    sent_at: new Date().toISOString()
+  };
+}
+
+function dedupe(message: MailMessage) {
+  return message.idempotencyKey ? seenKeys.get(message.idempotencyKey) ?? null : null;
+}
+
+function remember(message: MailMessage, result: MailSendResult) {
+  if (message.idempotencyKey) seenKeys.set(message.idempotencyKey, result);
+  return result;
+}
+
+function createMemoryTransport(): MailTransport {
+  return {
+    name: "memory",
+    async send(message) {
+      const existing = dedupe(message);
+      if (existing) return existing;
+
+      const stored = toOutboxMessage(message);
+      memoryOutbox.push(stored);
+      return remember(message, { id: stored.id });
+    }
+  };
+}
+
+function createFileTransport(): MailTransport {
+  const dir = path.resolve(process.env.MAIL_OUTBOX_DIR || ".mail-outbox");
+
+  return {
+    name: "file",
+    async send(message) {
+      const existing = dedupe(message);
+      if (existing) return existing;
+
+      const stored = toOutboxMessage(message);
+      const base = path.join(dir, `${stored.sent_at.replace(/[:.]/g, "-")}_${stored.id}`);
+
+      await mkdir(dir, { recursive: true });
+      await writeFile(`${base}.json`, JSON.stringify(stored, null, 2));
+      await writeFile(`${base}.html`, stored.html);
+
+      return remember(message, { id: stored.id, path: `${base}.json` });
+    }
+  };
+}
+
+/**
+ * Transport chosen by MAIL_TRANSPORT: "resend" (default), "file" (writes each
+ * message to MAIL_OUTBOX_DIR, default .mail-outbox) or "memory" (in-process outbox).
+ */
+export function getMailTransport(): MailTransport {
+  const name = (process.env.MAIL_TRANSPORT || "resend").toLowerCase();
+
+  if (name === "resend") return createResendTransport();
+  if (name === "file") return createFileTransport();
+  if (name === "memory") return createMemoryTransport();
+
+  throw new Error(`Unknown MAIL_TRANSPORT: ${name}`);
+}
+
+export function getMemoryOutbox(): readonly OutboxMessage[] {
+  return memoryOutbox;
+}
+
+export function clearMemoryOutbox() {
+  memoryOutbox.length = 0;
+  seenKeys.clear();
+}
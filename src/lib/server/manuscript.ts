@@ -0,0 +1,46 @@
+import { getAdminClient } from "@/lib/server/supabaseAdmin";
+import { loadManuscriptPhotos } from "@/lib/server/entryPhotos";
+import {
+  buildManuscript,
+  readBookOrder,
+  type ManuscriptEntry,
+  type ManuscriptPrompt
+} from "@/lib/manuscript";
+
+type AdminClient = ReturnType<typeof getAdminClient>;
+
+/**
+ * Loads everything the manuscript needs for one user and builds it in the
+ * chapter order saved on their profile.
+ */
+export async function loadManuscript(adminClient: AdminClient, userId: string) {
+  const { data: profile, error: profileErr } = await adminClient
+    .from("profiles")
+    .select("preferred_name, book_order, book_chapter_order")
+    .eq("id", userId)
+    .single();
+
+  if (profileErr) throw new Error(profileErr.message);
+
+  const { data: promptRows, error: promptErr } = await adminClient
+    .from("prompts")
+    .select("week, title")
+    .eq("active", true);
+
+  if (promptErr) throw new Error(promptErr.message);
+
+  const { data: entryRows, error: entryErr } = await adminClient
+    .from("entries")
+    .select("id, week, title, content, content_doc, status, life_stage")
+    .eq("user_id", userId);
+
+  if (entryErr) throw new Error(entryErr.message);
+
+  return buildManuscript({
+    preferredName: profile?.preferred_name ?? null,
+    prompts: (promptRows ?? []) as ManuscriptPrompt[],
+    entries: (entryRows ?? []) as ManuscriptEntry[],
+    photos: await loadManuscriptPhotos(adminClient, userId),
+    order: readBookOrder(profile?.book_order, profile?.book_chapter_order)
+  });
+}
@@ -0,0 +1,224 @@
+import { strToU8, zipSync, type Zippable } from "fflate";
+import type { Manuscript, ManuscriptPhoto } from "@/lib/manuscript";
+import { isListBlock, type RichTextBlock, type RichTextRun } from "@/lib/richText";
+import { escapeXml } from "@/lib/escape";
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Default Extension="jpeg" ContentType="image/jpeg"/>
+<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>
+<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>
+</Types>`;
+
+const ROOT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>
+</Relationships>`;
+
+// Photo n (from 1) is word/media/image{n}.jpeg, related as rId{n + 1}
+function imageRelId(n: number) {
+  return `rId${n + 1}`;
+}
+
+function documentRels(imageCount: number) {
+  const images = Array.from(
+    { length: imageCount },
+    (_, i) =>
+      `<Relationship Id="${imageRelId(i + 1)}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/image" Target="media/image${i + 1}.jpeg"/>`
+  );
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+${images.join("\n")}
+</Relationships>`;
+}
+
+// Only the styles the manuscript uses; Word fills in the rest from Normal
+const STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
+<w:docDefaults>
+<w:rPrDefault><w:rPr><w:rFonts w:ascii="Georgia" w:hAnsi="Georgia" w:cs="Georgia"/><w:sz w:val="24"/></w:rPr></w:rPrDefault>
+<w:pPrDefault><w:pPr><w:spacing w:after="160" w:line="360" w:lineRule="auto"/></w:pPr></w:pPrDefault>
+</w:docDefaults>
+<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>
+<w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:qFormat/>
+<w:pPr><w:jc w:val="center"/><w:spacing w:before="2400" w:after="240"/></w:pPr><w:rPr><w:sz w:val="56"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Subtitle"><w:name w:val="Subtitle"/><w:basedOn w:val="Normal"/><w:qFormat/>
+<w:pPr><w:jc w:val="center"/></w:pPr><w:rPr><w:i/><w:sz w:val="28"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/>
+<w:pPr><w:keepNext/><w:pageBreakBefore/><w:spacing w:before="480" w:after="240"/><w:outlineLvl w:val="0"/></w:pPr><w:rPr><w:b/><w:sz w:val="36"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="PartTitle"><w:name w:val="Part Title"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/>
+<w:pPr><w:keepNext/><w:pageBreakBefore/><w:jc w:val="center"/><w:spacing w:before="2400" w:after="480"/><w:outlineLvl w:val="0"/></w:pPr><w:rPr><w:sz w:val="44"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="PromptTitle"><w:name w:val="Prompt Title"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/>
+<w:pPr><w:keepNext/></w:pPr><w:rPr><w:i/><w:color w:val="666666"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="TOCHeading"><w:name w:val="TOC Heading"/><w:basedOn w:val="Heading1"/><w:next w:val="Normal"/>
+<w:pPr><w:outlineLvl w:val="9"/></w:pPr></w:style>
+<w:style w:type="paragraph" w:styleId="TOCPart"><w:name w:val="TOC Part"/><w:basedOn w:val="Normal"/><w:pPr><w:keepNext/><w:spacing w:before="200" w:after="80"/></w:pPr><w:rPr><w:b/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="TOC1"><w:name w:val="toc 1"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:after="80"/></w:pPr></w:style>
+<w:style w:type="paragraph" w:styleId="Heading2"><w:name w:val="heading 2"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/>
+<w:pPr><w:keepNext/><w:spacing w:before="240" w:after="120"/><w:outlineLvl w:val="1"/></w:pPr><w:rPr><w:b/><w:sz w:val="28"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Quote"><w:name w:val="Quote"/><w:basedOn w:val="Normal"/><w:qFormat/>
+<w:pPr><w:ind w:left="720" w:right="720"/></w:pPr><w:rPr><w:i/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="ListItem"><w:name w:val="List Item"/><w:basedOn w:val="Normal"/>
+<w:pPr><w:spacing w:after="60"/><w:ind w:left="720" w:hanging="360"/></w:pPr></w:style>
+<w:style w:type="paragraph" w:styleId="Photo"><w:name w:val="Photo"/><w:basedOn w:val="Normal"/><w:next w:val="Caption"/>
+<w:pPr><w:keepNext/><w:jc w:val="center"/><w:spacing w:before="240" w:after="60" w:line="240" w:lineRule="auto"/></w:pPr></w:style>
+<w:style w:type="paragraph" w:styleId="Caption"><w:name w:val="caption"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/>
+<w:pPr><w:jc w:val="center"/><w:spacing w:after="240"/></w:pPr><w:rPr><w:i/><w:sz w:val="20"/></w:rPr></w:style>
+<w:style w:type="character" w:styleId="Hyperlink"><w:name w:val="Hyperlink"/><w:rPr><w:color w:val="1F3864"/></w:rPr></w:style>
+</w:styles>`;
+
+function coreProps(m: Manuscript) {
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">
+<dc:title>${escapeXml(m.title)}</dc:title>
+${m.author ? `<dc:creator>${escapeXml(m.author)}</dc:creator>` : ""}
+<dcterms:created xsi:type="dcterms:W3CDTF">${new Date().toISOString().replace(/\.\d+Z$/, "Z")}</dcterms:created>
+</cp:coreProperties>`;
+}
+
+// Lines within a paragraph become soft line breaks
+function runs(text: string) {
+  return text
+    .split("\n")
+    .map((line) => `<w:r><w:t xml:space="preserve">${escapeXml(line)}</w:t></w:r>`)
+    .join("<w:r><w:br/></w:r>");
+}
+
+function paragraph(text: string, style?: string) {
+  const pPr = style ? `<w:pPr><w:pStyle w:val="${style}"/></w:pPr>` : "";
+  return `<w:p>${pPr}${runs(text)}</w:p>`;
+}
+
+function formattedRuns(textRuns: RichTextRun[]) {
+  return textRuns
+    .map((r) => {
+      const marks = (r.bold ? "<w:b/>" : "") + (r.italic ? "<w:i/>" : "");
+      const rPr = marks ? `<w:rPr>${marks}</w:rPr>` : "";
+      return r.text
+        .split("\n")
+        .map((line) => `<w:r>${rPr}<w:t xml:space="preserve">${escapeXml(line)}</w:t></w:r>`)
+        .join("<w:r><w:br/></w:r>");
+    })
+    .join("");
+}
+
+function formattedParagraph(textRuns: RichTextRun[], style?: string) {
+  const pPr = style ? `<w:pPr><w:pStyle w:val="${style}"/></w:pPr>` : "";
+  return `<w:p>${pPr}${formattedRuns(textRuns)}</w:p>`;
+}
+
+// Lists are written with their markers as text so they need no numbering part
+function blockParagraphs(b: RichTextBlock) {
+  if (isListBlock(b)) {
+    return b.items.map((item, i) => {
+      const marker = b.type === "bulleted_list" ? "\u2022" : `${i + 1}.`;
+      return (
+        `<w:p><w:pPr><w:pStyle w:val="ListItem"/></w:pPr>` +
+        `<w:r><w:t>${marker}</w:t><w:tab/></w:r>${formattedRuns(item)}</w:p>`
+      );
+    });
+  }
+  if (b.type === "heading") return [formattedParagraph(b.runs, "Heading2")];
+  if (b.type === "quote") return [formattedParagraph(b.runs, "Quote")];
+  return [formattedParagraph(b.runs)];
+}
+
+// Largest photo size on a Letter page with 1" margins, in EMU (914400 per inch)
+const PHOTO_MAX_WIDTH = 5943600;
+const PHOTO_MAX_HEIGHT = 4572000;
+
+function photoParagraph(p: ManuscriptPhoto, n: number) {
+  const scale = Math.min(PHOTO_MAX_WIDTH / p.width, PHOTO_MAX_HEIGHT / p.height);
+  const cx = Math.round(p.width * scale);
+  const cy = Math.round(p.height * scale);
+  const name = `image${n}.jpeg`;
+  const alt = escapeXml((p.caption ?? "").trim() || "Photo");
+
+  return (
+    `<w:p><w:pPr><w:pStyle w:val="Photo"/></w:pPr><w:r><w:drawing>` +
+    `<wp:inline distT="0" distB="0" distL="0" distR="0"><wp:extent cx="${cx}" cy="${cy}"/>` +
+    `<wp:docPr id="${n}" name="${name}" descr="${alt}"/>` +
+    `<a:graphic xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main">` +
+    `<a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/picture">` +
+    `<pic:pic xmlns:pic="http://schemas.openxmlformats.org/drawingml/2006/picture">` +
+    `<pic:nvPicPr><pic:cNvPr id="0" name="${name}"/><pic:cNvPicPr/></pic:nvPicPr>` +
+    `<pic:blipFill><a:blip r:embed="${imageRelId(n)}"/><a:stretch><a:fillRect/></a:stretch></pic:blipFill>` +
+    `<pic:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${cx}" cy="${cy}"/></a:xfrm>` +
+    `<a:prstGeom prst="rect"><a:avLst/></a:prstGeom></pic:spPr>` +
+    `</pic:pic></a:graphicData></a:graphic></wp:inline></w:drawing></w:r></w:p>`
+  );
+}
+
+function documentXml(m: Manuscript) {
+  let imageCount = 0;
+  const body: string[] = [paragraph(m.title, "Title")];
+  if (m.author) body.push(paragraph(`by ${m.author}`, "Subtitle"));
+
+  if (m.chapters.length) {
+    body.push(paragraph("Contents", "TOCHeading"));
+    for (const c of m.chapters) {
+      if (c.partTitle) body.push(paragraph(c.partTitle, "TOCPart"));
+      body.push(
+        `<w:p><w:pPr><w:pStyle w:val="TOC1"/></w:pPr><w:hyperlink w:anchor="week_${c.week}">` +
+          `<w:r><w:rPr><w:rStyle w:val="Hyperlink"/></w:rPr><w:t xml:space="preserve">${escapeXml(
+            `Chapter ${c.number}: ${c.title}`
+          )}</w:t></w:r></w:hyperlink></w:p>`
+      );
+    }
+  } else {
+    body.push(paragraph("Nothing written yet.", "Subtitle"));
+  }
+
+  for (const c of m.chapters) {
+    // The part page already broke the page, so the chapter follows it directly
+    if (c.partTitle) body.push(paragraph(c.partTitle, "PartTitle"));
+    const pageBreak = c.partTitle ? `<w:pageBreakBefore w:val="0"/>` : "";
+    body.push(
+      `<w:p><w:pPr><w:pStyle w:val="Heading1"/>${pageBreak}</w:pPr>` +
+        `<w:bookmarkStart w:id="${c.number}" w:name="week_${c.week}"/>` +
+        runs(`Chapter ${c.number}: ${c.title}`) +
+        `<w:bookmarkEnd w:id="${c.number}"/></w:p>`
+    );
+    if (c.title !== c.promptTitle) body.push(paragraph(c.promptTitle, "PromptTitle"));
+    for (const b of c.blocks) body.push(...blockParagraphs(b));
+    for (const p of c.photos) {
+      imageCount += 1;
+      body.push(photoParagraph(p, imageCount));
+      if ((p.caption ?? "").trim()) body.push(paragraph(p.caption!.trim(), "Caption"));
+    }
+  }
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships" xmlns:wp="http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing">
+<w:body>
+${body.join("\n")}
+<w:sectPr><w:pgSz w:w="12240" w:h="15840"/><w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="720" w:footer="720" w:gutter="0"/></w:sectPr>
+</w:body>
+</w:document>`;
+}
+
+/**
+ * Builds a Word (.docx) file: title page, linked contents, one chapter per
+ * entry with its photos.
+ */
+export function renderDocx(m: Manuscript): Uint8Array<ArrayBuffer> {
+  // Same order documentXml numbers them in
+  const photos = m.chapters.flatMap((c) => c.photos);
+  const files: Zippable = {
+    "[Content_Types].xml": strToU8(CONTENT_TYPES),
+    "_rels/.rels": strToU8(ROOT_RELS),
+    "docProps/core.xml": strToU8(coreProps(m)),
+    "word/document.xml": strToU8(documentXml(m)),
+    "word/styles.xml": strToU8(STYLES),
+    "word/_rels/document.xml.rels": strToU8(documentRels(photos.length))
+  };
+  photos.forEach((p, i) => {
+    files[`word/media/image${i + 1}.jpeg`] = [p.jpeg, { level: 0 }];
+  });
+  return new Uint8Array(zipSync(files));
+}
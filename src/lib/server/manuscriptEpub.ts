@@ -0,0 +1,207 @@
+import { randomUUID } from "crypto";
+import { strToU8, zipSync, type Zippable } from "fflate";
+import type { Manuscript, ManuscriptChapter } from "@/lib/manuscript";
+import { blocksToHtml } from "@/lib/richText";
+import { escapeXml } from "@/lib/escape";
+
+const CONTAINER = `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+<rootfiles>
+<rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+</rootfiles>
+</container>`;
+
+const STYLESHEET = `body { font-family: Georgia, serif; line-height: 1.5; margin: 0 5%; }
+.title-page { text-align: center; margin-top: 30%; }
+.title-page h1 { font-size: 2em; }
+.author { font-style: italic; }
+.prompt { font-style: italic; color: #666; margin-bottom: 0; }
+.part { text-align: center; font-weight: normal; margin: 2em 0; }
+h2 { margin-top: 0.3em; }
+p { text-indent: 0; margin: 0 0 0.8em; }
+h3 { margin: 1em 0 0.4em; }
+figure { margin: 1em 0; text-align: center; page-break-inside: avoid; }
+figure img { max-width: 100%; max-height: 80vh; }
+figcaption { font-style: italic; font-size: 0.9em; }
+blockquote { margin: 0 0 0.8em 1.5em; font-style: italic; }
+nav ol { list-style: none; padding-left: 0; }
+`;
+
+function chapterFile(c: ManuscriptChapter) {
+  return `chapter-${c.number}.xhtml`;
+}
+
+function photoFile(c: ManuscriptChapter, index: number) {
+  return `images/chapter-${c.number}-${index + 1}.jpg`;
+}
+
+function chapterHeading(c: ManuscriptChapter) {
+  return `Chapter ${c.number}: ${c.title}`;
+}
+
+function xhtmlPage(title: string, body: string, epubType?: string) {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" lang="en" xml:lang="en">
+<head>
+<meta charset="utf-8"/>
+<title>${escapeXml(title)}</title>
+<link rel="stylesheet" type="text/css" href="style.css"/>
+</head>
+<body${epubType ? ` epub:type="${epubType}"` : ""}>
+${body}
+</body>
+</html>`;
+}
+
+function titlePage(m: Manuscript) {
+  return xhtmlPage(
+    m.title,
+    `<section class="title-page" epub:type="titlepage">
+<h1>${escapeXml(m.title)}</h1>
+${m.author ? `<p class="author">by ${escapeXml(m.author)}</p>` : ""}
+${m.chapters.length ? "" : "<p>Nothing written yet.</p>"}
+</section>`,
+    "frontmatter"
+  );
+}
+
+function chapterPage(c: ManuscriptChapter) {
+  const figures = c.photos.map((p, i) => {
+    const caption = (p.caption ?? "").trim();
+    return `<figure><img src="${photoFile(c, i)}" alt="${escapeXml(caption || "Photo")}"/>${
+      caption ? `<figcaption>${escapeXml(caption)}</figcaption>` : ""
+    }</figure>`;
+  });
+  const paragraphs = [blocksToHtml(c.blocks, true), ...figures].filter(Boolean).join("\n");
+  const part = c.partTitle ? `<h1 class="part" epub:type="part">${escapeXml(c.partTitle)}</h1>\n` : "";
+  return xhtmlPage(
+    chapterHeading(c),
+    `${part}<section epub:type="chapter">
+${c.title !== c.promptTitle ? `<p class="prompt">${escapeXml(c.promptTitle)}</p>\n` : ""}<h2>${escapeXml(chapterHeading(c))}</h2>
+${paragraphs}
+</section>`,
+    "bodymatter"
+  );
+}
+
+function navPage(m: Manuscript) {
+  const link = (c: ManuscriptChapter) =>
+    `<li><a href="${chapterFile(c)}">${escapeXml(chapterHeading(c))}</a></li>`;
+
+  // Life-stage parts become nested lists; a heading-only entry must wrap a list
+  const groups: { title: string | null; chapters: ManuscriptChapter[] }[] = [];
+  for (const c of m.chapters) {
+    if (c.partTitle || !groups.length) groups.push({ title: c.partTitle, chapters: [] });
+    groups[groups.length - 1].chapters.push(c);
+  }
+
+  const items = groups
+    .map((g) =>
+      g.title
+        ? `<li><span>${escapeXml(g.title)}</span>\n<ol>\n${g.chapters.map(link).join("\n")}\n</ol></li>`
+        : g.chapters.map(link).join("\n")
+    )
+    .join("\n");
+  return xhtmlPage(
+    "Contents",
+    `<nav epub:type="toc" id="toc">
+<h2>Contents</h2>
+<ol>
+<li><a href="title.xhtml">${escapeXml(m.title)}</a></li>
+${items}
+</ol>
+</nav>`
+  );
+}
+
+// EPUB 2 table of contents, still read by older e-readers
+function ncx(m: Manuscript, id: string) {
+  const points = [
+    { label: m.title, src: "title.xhtml" },
+    ...m.chapters.map((c) => ({ label: chapterHeading(c), src: chapterFile(c) }))
+  ]
+    .map(
+      (p, i) => `<navPoint id="nav-${i + 1}" playOrder="${i + 1}">
+<navLabel><text>${escapeXml(p.label)}</text></navLabel>
+<content src="${p.src}"/>
+</navPoint>`
+    )
+    .join("\n");
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<ncx xmlns="http://www.daisy.org/z3986/2005/ncx/" version="2005-1">
+<head><meta name="dtb:uid" content="urn:uuid:${id}"/></head>
+<docTitle><text>${escapeXml(m.title)}</text></docTitle>
+<navMap>
+${points}
+</navMap>
+</ncx>`;
+}
+
+function packageDocument(m: Manuscript, id: string) {
+  const modified = new Date().toISOString().replace(/\.\d+Z$/, "Z");
+  const chapterItems = m.chapters
+    .map((c) => `<item id="ch${c.number}" href="${chapterFile(c)}" media-type="application/xhtml+xml"/>`)
+    .join("\n");
+  const photoItems = m.chapters
+    .flatMap((c) =>
+      c.photos.map(
+        (_, i) => `<item id="img${c.number}-${i + 1}" href="${photoFile(c, i)}" media-type="image/jpeg"/>`
+      )
+    )
+    .join("\n");
+  const chapterRefs = m.chapters.map((c) => `<itemref idref="ch${c.number}"/>`).join("\n");
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="en">
+<metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+<dc:identifier id="book-id">urn:uuid:${id}</dc:identifier>
+<dc:title>${escapeXml(m.title)}</dc:title>
+${m.author ? `<dc:creator>${escapeXml(m.author)}</dc:creator>` : ""}
+<dc:language>en</dc:language>
+<meta property="dcterms:modified">${modified}</meta>
+</metadata>
+<manifest>
+<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>
+<item id="ncx" href="toc.ncx" media-type="application/x-dtbncx+xml"/>
+<item id="css" href="style.css" media-type="text/css"/>
+<item id="title" href="title.xhtml" media-type="application/xhtml+xml"/>
+${chapterItems}
+${photoItems}
+</manifest>
+<spine toc="ncx">
+<itemref idref="title"/>
+<itemref idref="nav"/>
+${chapterRefs}
+</spine>
+</package>`;
+}
+
+/**
+ * Builds an EPUB 3 file: title page, navigation document, one chapter per entry.
+ */
+export function renderEpub(m: Manuscript): Uint8Array<ArrayBuffer> {
+  const id = randomUUID();
+
+  // The mimetype entry must come first and be stored uncompressed
+  const files: Zippable = {
+    mimetype: [strToU8("application/epub+zip"), { level: 0 }],
+    "META-INF/container.xml": strToU8(CONTAINER),
+    "OEBPS/content.opf": strToU8(packageDocument(m, id)),
+    "OEBPS/nav.xhtml": strToU8(navPage(m)),
+    "OEBPS/toc.ncx": strToU8(ncx(m, id)),
+    "OEBPS/style.css": strToU8(STYLESHEET),
+    "OEBPS/title.xhtml": strToU8(titlePage(m))
+  };
+
+  for (const c of m.chapters) {
+    files[`OEBPS/${chapterFile(c)}`] = strToU8(chapterPage(c));
+    // JPEGs are already compressed
+    c.photos.forEach((p, i) => {
+      files[`OEBPS/${photoFile(c, i)}`] = [p.jpeg, { level: 0 }];
+    });
+  }
+
+  return new Uint8Array(zipSync(files));
+}
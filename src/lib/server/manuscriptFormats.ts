@@ -0,0 +1,199 @@
+import { manuscriptFileName, type Manuscript, type ManuscriptPhoto } from "@/lib/manuscript";
+import { blocksToHtml, isListBlock, type RichTextBlock, type RichTextRun } from "@/lib/richText";
+import { renderDocx } from "@/lib/server/manuscriptDocx";
+import { renderEpub } from "@/lib/server/manuscriptEpub";
+import { isPdfTrimSize, renderPdf, type PdfOptions } from "@/lib/server/manuscriptPdf";
+import { escapeHtml } from "@/lib/escape";
+
+type ManuscriptBody = string | Uint8Array<ArrayBuffer>;
+
+export type ManuscriptFile = {
+  fileName: string;
+  contentType: string;
+  body: ManuscriptBody;
+};
+
+// Layout options; formats that reflow (everything but PDF) ignore them
+export type ManuscriptRenderOptions = Partial<PdfOptions>;
+
+type ManuscriptFormat = {
+  extension: string;
+  contentType: string;
+  render: (
+    manuscript: Manuscript,
+    options: ManuscriptRenderOptions
+  ) => ManuscriptBody | Promise<ManuscriptBody>;
+};
+
+// Keeps user text from being read as Markdown headings, lists or emphasis
+function escapeMarkdownLine(line: string) {
+  return line
+    .replace(/([\\`*_[\]<])/g, "\\$1")
+    .replace(/^(\s*)([#>]|[-+]\s)/, "$1\\$2")
+    .replace(/^(\s*\d+)([.)]\s)/, "$1\\$2");
+}
+
+// Emphasis markers go inside any spaces at the edges of a run, or Markdown
+// won't read them as emphasis
+function markdownRuns(runs: RichTextRun[]) {
+  return runs
+    .map((r) => {
+      const text = r.text.split("\n").map(escapeMarkdownLine).join("  \n");
+      const marker = (r.bold ? "**" : "") + (r.italic ? "*" : "");
+      if (!marker || !text.trim()) return text;
+      const [, lead, core, trail] = text.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+      return `${lead}${marker}${core}${[...marker].reverse().join("")}${trail}`;
+    })
+    .join("");
+}
+
+function markdownBlock(b: RichTextBlock) {
+  if (isListBlock(b)) {
+    return b.items
+      .map((item, i) => {
+        const prefix = b.type === "bulleted_list" ? "- " : `${i + 1}. `;
+        return prefix + markdownRuns(item).replace(/\n/g, "\n   ");
+      })
+      .join("\n");
+  }
+  if (b.type === "heading") return `### ${markdownRuns(b.runs).replace(/ {2}\n/g, " ")}`;
+  if (b.type === "quote") return markdownRuns(b.runs).split("\n").map((line) => `> ${line}`).join("\n");
+  return markdownRuns(b.runs);
+}
+
+// Single-file formats carry their photos inline
+function photoDataUri(p: ManuscriptPhoto) {
+  return `data:image/jpeg;base64,${Buffer.from(p.jpeg).toString("base64")}`;
+}
+
+function markdownPhoto(p: ManuscriptPhoto) {
+  const caption = (p.caption ?? "").replace(/\s+/g, " ").trim();
+  const image = `![${escapeMarkdownLine(caption || "Photo")}](${photoDataUri(p)})`;
+  return caption ? `${image}\n\n*${escapeMarkdownLine(caption)}*` : image;
+}
+
+function htmlPhoto(p: ManuscriptPhoto) {
+  const caption = (p.caption ?? "").trim();
+  return `<figure><img src="${photoDataUri(p)}" alt="${escapeHtml(caption || "Photo")}" width="${p.width}" height="${p.height}">${
+    caption ? `<figcaption>${escapeHtml(caption)}</figcaption>` : ""
+  }</figure>`;
+}
+
+function chapterHeading(c: Manuscript["chapters"][number]) {
+  return `Chapter ${c.number}: ${c.title}`;
+}
+
+function renderMarkdown(m: Manuscript) {
+  const out: string[] = [`# ${escapeMarkdownLine(m.title)}`];
+  if (m.author) out.push(`*by ${escapeMarkdownLine(m.author)}*`);
+
+  if (!m.chapters.length) {
+    out.push("*Nothing written yet.*");
+  }
+
+  for (const c of m.chapters) {
+    if (c.partTitle) out.push(`# ${escapeMarkdownLine(c.partTitle)}`);
+    out.push(`## ${escapeMarkdownLine(chapterHeading(c))}`);
+    if (c.title !== c.promptTitle) out.push(`*${escapeMarkdownLine(c.promptTitle)}*`);
+    for (const b of c.blocks) out.push(markdownBlock(b));
+    for (const p of c.photos) out.push(markdownPhoto(p));
+  }
+
+  return out.join("\n\n") + "\n";
+}
+
+function renderHtml(m: Manuscript) {
+  const chapters = m.chapters
+    .map((c) => {
+      const paragraphs = [blocksToHtml(c.blocks), ...c.photos.map(htmlPhoto)].filter(Boolean).join("\n");
+      const part = c.partTitle ? `<h1 class="part">${escapeHtml(c.partTitle)}</h1>\n` : "";
+      return `${part}<section class="chapter" id="week-${c.week}">
+${c.title !== c.promptTitle ? `<p class="prompt">${escapeHtml(c.promptTitle)}</p>\n` : ""}<h2>${escapeHtml(chapterHeading(c))}</h2>
+${paragraphs}
+</section>`;
+    })
+    .join("\n");
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(m.title)}</title>
+<style>
+body { font-family: Georgia, "Times New Roman", serif; line-height: 1.6; max-width: 40em; margin: 2em auto; padding: 0 1em; color: #111; }
+.title-page { text-align: center; margin: 4em 0; }
+.chapter { margin-top: 3em; }
+.prompt { font-style: italic; opacity: 0.7; margin-bottom: 0; }
+h2 { margin-top: 0.2em; }
+h3 { margin-bottom: 0.3em; }
+blockquote { margin: 1em 0 1em 1.5em; font-style: italic; }
+figure { margin: 1.5em 0; text-align: center; }
+figure img { max-width: 100%; height: auto; }
+figcaption { font-style: italic; font-size: 0.9em; margin-top: 0.4em; }
+.part { text-align: center; margin-top: 3em; font-weight: normal; }
+@media print { .chapter, .part { page-break-before: always; } .part + .chapter { page-break-before: auto; } }
+</style>
+</head>
+<body>
+<div class="title-page">
+<h1>${escapeHtml(m.title)}</h1>
+${m.author ? `<p>by ${escapeHtml(m.author)}</p>` : ""}
+</div>
+${chapters || "<p><em>Nothing written yet.</em></p>"}
+</body>
+</html>
+`;
+}
+
+const formats = {
+  md: { extension: "md", contentType: "text/markdown; charset=utf-8", render: renderMarkdown },
+  html: { extension: "html", contentType: "text/html; charset=utf-8", render: renderHtml },
+  docx: {
+    extension: "docx",
+    contentType: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+    render: renderDocx
+  },
+  epub: { extension: "epub", contentType: "application/epub+zip", render: renderEpub },
+  pdf: {
+    extension: "pdf",
+    contentType: "application/pdf",
+    render: (m: Manuscript, options: ManuscriptRenderOptions) =>
+      renderPdf(m, { trim: options.trim ?? "6x9", dedication: options.dedication ?? null })
+  }
+} satisfies Record<string, ManuscriptFormat>;
+
+export type ManuscriptFormatName = keyof typeof formats;
+
+export const MANUSCRIPT_FORMATS = Object.keys(formats) as ManuscriptFormatName[];
+
+export function isManuscriptFormat(v: unknown): v is ManuscriptFormatName {
+  return typeof v === "string" && v in formats;
+}
+
+const MAX_DEDICATION_LENGTH = 500;
+
+/**
+ * Reads layout options from a download URL. Unknown values fall back to the
+ * defaults rather than failing the download.
+ */
+export function readRenderOptions(params: URLSearchParams): ManuscriptRenderOptions {
+  const trim = params.get("trim");
+  const dedication = (params.get("dedication") ?? "").trim().slice(0, MAX_DEDICATION_LENGTH);
+  return {
+    trim: isPdfTrimSize(trim) ? trim : undefined,
+    dedication: dedication || null
+  };
+}
+
+export async function renderManuscript(
+  manuscript: Manuscript,
+  format: ManuscriptFormatName,
+  options: ManuscriptRenderOptions = {}
+): Promise<ManuscriptFile> {
+  const f: ManuscriptFormat = formats[format];
+  return {
+    fileName: manuscriptFileName(manuscript, f.extension),
+    contentType: f.contentType,
+    body: await f.render(manuscript, options)
+  };
+}
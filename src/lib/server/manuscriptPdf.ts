@@ -0,0 +1,559 @@
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFImage } from "pdf-lib";
+import type { Manuscript, ManuscriptChapter } from "@/lib/manuscript";
+import { isListBlock, type RichTextBlock, type RichTextRun } from "@/lib/richText";
+
+export type PdfTrimSize = "6x9" | "5.5x8.5" | "a5";
+
+export type PdfOptions = {
+  trim: PdfTrimSize;
+  dedication: string | null;
+};
+
+// Page sizes in points (72 per inch)
+export const PDF_TRIM_SIZES: Record<PdfTrimSize, { label: string; width: number; height: number }> = {
+  "6x9": { label: "6 × 9 in", width: 432, height: 648 },
+  "5.5x8.5": { label: "5.5 × 8.5 in", width: 396, height: 612 },
+  a5: { label: "A5", width: 419.53, height: 595.28 }
+};
+
+export function isPdfTrimSize(v: unknown): v is PdfTrimSize {
+  return typeof v === "string" && v in PDF_TRIM_SIZES;
+}
+
+// Mirrored margins: the inner (gutter) side is wider so text clears the binding
+const MARGIN_TOP = 54;
+const MARGIN_BOTTOM = 54;
+const MARGIN_INNER = 63;
+const MARGIN_OUTER = 45;
+
+const BODY_SIZE = 11;
+const BODY_LEADING = 15;
+const PARAGRAPH_INDENT = 18;
+// Space around headings, quotes and lists, and their left indent
+const BLOCK_GAP = 6;
+const BLOCK_INDENT = 18;
+// Photos take at most this share of the text block's height
+const PHOTO_MAX_HEIGHT_SHARE = 0.6;
+const CAPTION_SIZE = 9.5;
+const CAPTION_LEADING = 13;
+const HEADER_SIZE = 8.5;
+
+type FontKey = "regular" | "italic" | "bold" | "boldItalic";
+type Fonts = Record<FontKey, PDFFont>;
+
+type DrawText = {
+  text: string;
+  // Relative to the left edge of the text block
+  x: number;
+  // Distance from the top of the text block to the baseline
+  y: number;
+  font: FontKey;
+  size: number;
+};
+
+type DrawImage = {
+  image: PDFImage;
+  x: number;
+  // Distance from the top of the text block to the top of the image
+  y: number;
+  width: number;
+  height: number;
+};
+
+type PageSpec = {
+  items: DrawText[];
+  images: DrawImage[];
+  runningHead: string | null;
+  folio: boolean;
+};
+
+// Letters with no Unicode decomposition to a base letter
+const LETTER_FALLBACKS: Record<string, string> = {
+  Ł: "L",
+  ł: "l",
+  Đ: "D",
+  đ: "d",
+  ı: "i",
+  Ħ: "H",
+  ħ: "h"
+};
+
+/**
+ * The standard PDF fonts only cover Windows-1252. Accented letters outside it
+ * fall back to their base letter; anything else becomes "?".
+ */
+function makeSanitizer(font: PDFFont) {
+  const cache = new Map<string, string>();
+
+  function encodable(ch: string) {
+    try {
+      font.encodeText(ch);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  return (text: string) =>
+    Array.from(text.normalize("NFC").replace(/\t/g, "    "))
+      .map((ch) => {
+        const hit = cache.get(ch);
+        if (hit !== undefined) return hit;
+
+        let out = ch;
+        if (!encodable(ch)) {
+          const base = LETTER_FALLBACKS[ch] ?? ch.normalize("NFKD").replace(/[\u0300-\u036f]/g, "");
+          out = base && Array.from(base).every(encodable) ? base : "?";
+        }
+        cache.set(ch, out);
+        return out;
+      })
+      .join("");
+}
+
+function wrapLine(text: string, font: PDFFont, size: number, width: number, firstIndent = 0) {
+  const words = text.split(/ +/).filter((w) => w.length > 0);
+  const lines: string[] = [];
+  let line = "";
+
+  for (const word of words) {
+    const limit = lines.length === 0 ? width - firstIndent : width;
+    const candidate = line ? `${line} ${word}` : word;
+
+    if (font.widthOfTextAtSize(candidate, size) <= limit) {
+      line = candidate;
+      continue;
+    }
+
+    if (line) lines.push(line);
+
+    // A single word wider than the column is split by characters
+    let rest = word;
+    while (font.widthOfTextAtSize(rest, size) > width) {
+      let cut = rest.length - 1;
+      while (cut > 1 && font.widthOfTextAtSize(rest.slice(0, cut), size) > width) cut--;
+      lines.push(rest.slice(0, cut));
+      rest = rest.slice(cut);
+    }
+    line = rest;
+  }
+
+  if (line || !lines.length) lines.push(line);
+  return lines;
+}
+
+// A stretch of text in one font, placed relative to the start of its line
+type Piece = { text: string; font: FontKey };
+type PlacedPiece = Piece & { x: number };
+
+function runFont(r: { bold?: boolean; italic?: boolean }): FontKey {
+  if (r.bold && r.italic) return "boldItalic";
+  if (r.bold) return "bold";
+  if (r.italic) return "italic";
+  return "regular";
+}
+
+// Runs split at their "\n" line breaks
+function hardLines(runs: RichTextRun[]) {
+  const lines: RichTextRun[][] = [[]];
+  for (const r of runs) {
+    r.text.split("\n").forEach((text, i) => {
+      if (i > 0) lines.push([]);
+      if (text) lines[lines.length - 1].push({ ...r, text });
+    });
+  }
+  return lines;
+}
+
+function mergePieces(pieces: Piece[]) {
+  const out: Piece[] = [];
+  for (const p of pieces) {
+    const last = out[out.length - 1];
+    if (last && last.font === p.font) last.text += p.text;
+    else out.push({ ...p });
+  }
+  return out;
+}
+
+/**
+ * wrapLine for formatted text: one hard line of runs, where a word may change
+ * font part way through (e.g. only its ending in bold).
+ */
+function wrapRuns(runs: RichTextRun[], fonts: Fonts, size: number, width: number, firstIndent = 0) {
+  const words: Piece[][] = [];
+  let word: Piece[] = [];
+  for (const r of runs) {
+    for (const [, space, text] of r.text.matchAll(/( +)|([^ ]+)/g)) {
+      if (space) {
+        if (word.length) words.push(word);
+        word = [];
+      } else {
+        word.push({ text, font: runFont(r) });
+      }
+    }
+  }
+  if (word.length) words.push(word);
+
+  const widthOf = (pieces: Piece[]) =>
+    pieces.reduce((sum, p) => sum + fonts[p.font].widthOfTextAtSize(p.text, size), 0);
+  const spaceWidth = fonts.regular.widthOfTextAtSize(" ", size);
+
+  const lines: PlacedPiece[][] = [];
+  let line: PlacedPiece[] = [];
+  let x = 0;
+
+  function place(pieces: Piece[], start: number) {
+    let at = start;
+    for (const p of pieces) {
+      line.push({ ...p, x: at });
+      at += fonts[p.font].widthOfTextAtSize(p.text, size);
+    }
+    x = at;
+  }
+
+  for (const w of words) {
+    const limit = lines.length === 0 ? width - firstIndent : width;
+    const start = line.length ? x + spaceWidth : 0;
+
+    if (start + widthOf(w) <= limit) {
+      place(w, start);
+      continue;
+    }
+
+    if (line.length) lines.push(line);
+    line = [];
+
+    // A single word wider than the column is split by characters
+    let rest = w;
+    while (widthOf(rest) > width) {
+      const chars = rest.flatMap((p) => Array.from(p.text).map((ch) => ({ text: ch, font: p.font })));
+      let cut = chars.length - 1;
+      while (cut > 1 && widthOf(chars.slice(0, cut)) > width) cut--;
+      place(mergePieces(chars.slice(0, cut)), 0);
+      lines.push(line);
+      line = [];
+      rest = mergePieces(chars.slice(cut));
+    }
+    place(rest, 0);
+  }
+
+  if (line.length || !lines.length) lines.push(line);
+  return lines;
+}
+
+function centered(text: string, font: PDFFont, fontKey: FontKey, size: number, y: number, width: number) {
+  return { text, x: (width - font.widthOfTextAtSize(text, size)) / 2, y, font: fontKey, size };
+}
+
+/**
+ * Builds a print-ready book: title page, optional dedication, contents, then
+ * one chapter per entry (text, then photos) with running headers and page
+ * numbers.
+ */
+export async function renderPdf(m: Manuscript, options: PdfOptions): Promise<Uint8Array<ArrayBuffer>> {
+  const trim = PDF_TRIM_SIZES[options.trim];
+  const blockWidth = trim.width - MARGIN_INNER - MARGIN_OUTER;
+  const blockHeight = trim.height - MARGIN_TOP - MARGIN_BOTTOM;
+
+  const doc = await PDFDocument.create();
+  const fonts: Fonts = {
+    regular: await doc.embedFont(StandardFonts.TimesRoman),
+    italic: await doc.embedFont(StandardFonts.TimesRomanItalic),
+    bold: await doc.embedFont(StandardFonts.TimesRomanBold),
+    boldItalic: await doc.embedFont(StandardFonts.TimesRomanBoldItalic)
+  };
+  const clean = makeSanitizer(fonts.regular);
+
+  const bookTitle = clean(m.title);
+  const pages: PageSpec[] = [];
+
+  function newPage(runningHead: string | null, folio: boolean) {
+    const page: PageSpec = { items: [], images: [], runningHead, folio };
+    pages.push(page);
+    return page;
+  }
+
+  // Next page lands on a right-hand (odd) page
+  function padToRecto() {
+    if (pages.length % 2 === 1) newPage(null, false);
+  }
+
+  // ---- Title page
+  {
+    const page = newPage(null, false);
+    let y = blockHeight * 0.3;
+    for (const line of wrapLine(bookTitle, fonts.bold, 24, blockWidth)) {
+      page.items.push(centered(line, fonts.bold, "bold", 24, y, blockWidth));
+      y += 30;
+    }
+    if (m.author) {
+      page.items.push(centered(clean(`by ${m.author}`), fonts.italic, "italic", 13, y + 18, blockWidth));
+    }
+    newPage(null, false);
+  }
+
+  // ---- Dedication
+  const dedication = (options.dedication ?? "").trim();
+  if (dedication) {
+    const page = newPage(null, false);
+    let y = blockHeight * 0.3;
+    for (const para of clean(dedication).split("\n")) {
+      for (const line of wrapLine(para, fonts.italic, 12, blockWidth * 0.8)) {
+        page.items.push(centered(line, fonts.italic, "italic", 12, y, blockWidth));
+        y += 17;
+      }
+    }
+    newPage(null, false);
+  }
+
+  // ---- Contents. Laid out before the chapters so its length is known, then
+  // page numbers are filled in once the chapters have been placed.
+  const numberColumn = fonts.regular.widthOfTextAtSize("000", BODY_SIZE) + 8;
+  const contentsRows: { chapter: ManuscriptChapter; page: PageSpec; y: number }[] = [];
+
+  if (m.chapters.length) {
+    let page = newPage(null, true);
+    page.items.push(centered("Contents", fonts.bold, "bold", 16, 40, blockWidth));
+    let y = 80;
+
+    for (const c of m.chapters) {
+      const label = clean(`${c.number}. ${c.title}`);
+      const lines = wrapLine(label, fonts.regular, BODY_SIZE, blockWidth - numberColumn);
+      // A part heading stays on the same page as its first chapter
+      const partSpace = c.partTitle ? BODY_LEADING + 10 : 0;
+      if (y + partSpace + lines.length * BODY_LEADING > blockHeight) {
+        page = newPage("Contents", true);
+        y = BODY_LEADING;
+      }
+      if (c.partTitle) {
+        y += 10;
+        page.items.push({ text: clean(c.partTitle), x: 0, y, font: "bold", size: BODY_SIZE });
+        y += BODY_LEADING;
+      }
+      lines.forEach((line, i) => {
+        const x = i === 0 ? 0 : 12;
+        page.items.push({ text: line, x, y: y + i * BODY_LEADING, font: "regular", size: BODY_SIZE });
+      });
+      contentsRows.push({ chapter: c, page, y: y + (lines.length - 1) * BODY_LEADING });
+      y += lines.length * BODY_LEADING + 4;
+    }
+  }
+
+  padToRecto();
+
+  // ---- Chapters
+  const chapterStart = new Map<number, number>();
+
+  for (const c of m.chapters) {
+    // Life-stage parts get their own right-hand page with a blank back
+    if (c.partTitle) {
+      padToRecto();
+      const partPage = newPage(null, false);
+      let partY = blockHeight * 0.35;
+      for (const line of wrapLine(clean(c.partTitle), fonts.regular, 22, blockWidth)) {
+        partPage.items.push(centered(line, fonts.regular, "regular", 22, partY, blockWidth));
+        partY += 28;
+      }
+      newPage(null, false);
+    }
+
+    const chapterTitle = clean(c.title);
+    let page = newPage(null, true);
+    chapterStart.set(c.number, pages.length);
+
+    // Chapter openers start a quarter of the way down and carry no running head
+    let y = blockHeight * 0.25;
+    page.items.push(centered(`Chapter ${c.number}`, fonts.regular, "regular", 10, y, blockWidth));
+    y += 26;
+
+    for (const line of wrapLine(chapterTitle, fonts.bold, 18, blockWidth)) {
+      page.items.push(centered(line, fonts.bold, "bold", 18, y, blockWidth));
+      y += 23;
+    }
+
+    if (c.title !== c.promptTitle) {
+      for (const line of wrapLine(clean(c.promptTitle), fonts.italic, 11, blockWidth)) {
+        page.items.push(centered(line, fonts.italic, "italic", 11, y, blockWidth));
+        y += 15;
+      }
+    }
+
+    y += 24;
+
+    function placeLine(pieces: PlacedPiece[], left: number) {
+      if (y + BODY_LEADING > blockHeight) {
+        page = newPage(chapterTitle, true);
+        y = BODY_LEADING;
+      } else {
+        y += BODY_LEADING;
+      }
+      for (const p of pieces) {
+        page.items.push({ text: p.text, x: left + p.x, y, font: p.font, size: BODY_SIZE });
+      }
+    }
+
+    // Lays out one block's runs; `firstIndent` and `marker` (a list bullet
+    // or number) apply to its first line only
+    function placeRuns(
+      runs: RichTextRun[],
+      left: number,
+      width: number,
+      firstIndent = 0,
+      marker?: { text: string; x: number }
+    ) {
+      const cleaned = runs.map((r) => ({ ...r, text: clean(r.text) }));
+      hardLines(cleaned).forEach((hardLine, li) => {
+        const indent = li === 0 ? firstIndent : 0;
+        wrapRuns(hardLine, fonts, BODY_SIZE, width, indent).forEach((line, i) => {
+          placeLine(line, left + (i === 0 ? indent : 0));
+          if (marker && li === 0 && i === 0) {
+            page.items.push({ text: marker.text, x: marker.x, y, font: "regular", size: BODY_SIZE });
+          }
+        });
+      });
+    }
+
+    let previous: RichTextBlock["type"] | null = null;
+
+    for (const b of c.blocks) {
+      if (isListBlock(b)) {
+        y += BLOCK_GAP;
+        const hang = fonts.regular.widthOfTextAtSize(`${b.items.length}.`, BODY_SIZE) + 6;
+        b.items.forEach((item, i) => {
+          const marker = b.type === "bulleted_list" ? "\u2022" : `${i + 1}.`;
+          placeRuns(item, BLOCK_INDENT + hang, blockWidth - BLOCK_INDENT - hang, 0, { text: marker, x: BLOCK_INDENT });
+        });
+        y += BLOCK_GAP;
+      } else if (b.type === "heading") {
+        // Keep a heading with at least two lines of what follows it
+        if (y + BLOCK_GAP + BODY_LEADING * 3 > blockHeight) {
+          page = newPage(chapterTitle, true);
+          y = 0;
+        } else if (previous) {
+          y += BLOCK_GAP;
+        }
+        placeRuns(b.runs.map((r) => ({ ...r, bold: true })), 0, blockWidth);
+      } else if (b.type === "quote") {
+        y += BLOCK_GAP;
+        placeRuns(
+          b.runs.map((r) => ({ ...r, italic: !r.italic })),
+          BLOCK_INDENT,
+          blockWidth - BLOCK_INDENT * 2
+        );
+        y += BLOCK_GAP;
+      } else {
+        // Book convention: a paragraph is indented only when it follows
+        // another paragraph, not at the start of a chapter or after a heading
+        placeRuns(b.runs, 0, blockWidth, previous === "paragraph" ? PARAGRAPH_INDENT : 0);
+      }
+      previous = b.type;
+    }
+
+    // Photos follow the text, each kept on one page with its caption
+    for (const p of c.photos) {
+      let image: PDFImage;
+      try {
+        image = await doc.embedJpg(p.jpeg);
+      } catch {
+        continue;
+      }
+
+      const scale = Math.min(blockWidth / image.width, (blockHeight * PHOTO_MAX_HEIGHT_SHARE) / image.height);
+      const width = image.width * scale;
+      const height = image.height * scale;
+      const caption = (p.caption ?? "").trim();
+      const captionLines = caption ? wrapLine(clean(caption), fonts.italic, CAPTION_SIZE, blockWidth) : [];
+      const needed = BLOCK_GAP * 2 + height + captionLines.length * CAPTION_LEADING;
+
+      if (y + needed > blockHeight) {
+        page = newPage(chapterTitle, true);
+        y = 0;
+      }
+
+      y += BLOCK_GAP * 2;
+      page.images.push({ image, x: (blockWidth - width) / 2, y, width, height });
+      y += height;
+      for (const line of captionLines) {
+        y += CAPTION_LEADING;
+        page.items.push(centered(line, fonts.italic, "italic", CAPTION_SIZE, y, blockWidth));
+      }
+      y += BLOCK_GAP;
+    }
+  }
+
+  for (const row of contentsRows) {
+    const n = String(chapterStart.get(row.chapter.number) ?? "");
+    const w = fonts.regular.widthOfTextAtSize(n, BODY_SIZE);
+    row.page.items.push({ text: n, x: blockWidth - w, y: row.y, font: "regular", size: BODY_SIZE });
+  }
+
+  if (!m.chapters.length) {
+    const page = newPage(null, false);
+    page.items.push(centered("Nothing written yet.", fonts.italic, "italic", 12, blockHeight * 0.3, blockWidth));
+  }
+
+  // ---- Draw
+  const ink = rgb(0, 0, 0);
+  const grey = rgb(0.35, 0.35, 0.35);
+
+  pages.forEach((spec, i) => {
+    const pageNumber = i + 1;
+    const recto = pageNumber % 2 === 1;
+    const left = recto ? MARGIN_INNER : MARGIN_OUTER;
+    const top = trim.height - MARGIN_TOP;
+
+    const page = doc.addPage([trim.width, trim.height]);
+
+    for (const img of spec.images) {
+      page.drawImage(img.image, {
+        x: left + img.x,
+        y: top - img.y - img.height,
+        width: img.width,
+        height: img.height
+      });
+    }
+
+    for (const item of spec.items) {
+      page.drawText(item.text, {
+        x: left + item.x,
+        y: top - item.y,
+        size: item.size,
+        font: fonts[item.font],
+        color: ink
+      });
+    }
+
+    // Versos carry the book title, rectos the chapter title, both on the outside edge
+    if (spec.runningHead) {
+      const head = recto ? spec.runningHead : bookTitle;
+      const [text] = wrapLine(head, fonts.italic, HEADER_SIZE, blockWidth * 0.8);
+      const w = fonts.italic.widthOfTextAtSize(text, HEADER_SIZE);
+      page.drawText(text, {
+        x: recto ? left + blockWidth - w : left,
+        y: top + 22,
+        size: HEADER_SIZE,
+        font: fonts.italic,
+        color: grey
+      });
+    }
+
+    if (spec.folio) {
+      const n = String(pageNumber);
+      const w = fonts.regular.widthOfTextAtSize(n, 9);
+      page.drawText(n, {
+        x: left + (blockWidth - w) / 2,
+        y: MARGIN_BOTTOM - 28,
+        size: 9,
+        font: fonts.regular,
+        color: grey
+      });
+    }
+  });
+
+  // Document metadata is Unicode, so it keeps the original spelling
+  doc.setTitle(m.title);
+  if (m.author) doc.setAuthor(m.author);
+  doc.setCreator("MyAutobiography");
+
+  return new Uint8Array(await doc.save());
+}
@@ -0,0 +1,57 @@
+import type { ReminderWeek } from "@/lib/server/emailTemplates";
+import { deriveDisplayStatus } from "@/lib/program";
+
+export type ReminderSettings = {
+  // Days without writing before someone gets a nudge
+  inactiveDays: number;
+  // Minimum days between two reminders to the same person
+  intervalDays: number;
+  // Reminders per stretch of inactivity; resets once the user writes again
+  maxPerUser: number;
+};
+
+type PromptRow = {
+  week: number;
+  title: string;
+};
+
+type EntryRow = {
+  week: number;
+  content: string | null;
+  status: string | null;
+};
+
+function positiveInt(raw: string | undefined, fallback: number) {
+  const n = Number(raw);
+  return Number.isInteger(n) && n > 0 ? n : fallback;
+}
+
+export function getReminderSettings(): ReminderSettings {
+  return {
+    inactiveDays: positiveInt(process.env.REMINDER_INACTIVE_DAYS, 14),
+    intervalDays: positiveInt(process.env.REMINDER_INTERVAL_DAYS, 7),
+    maxPerUser: positiveInt(process.env.REMINDER_MAX_PER_USER, 3)
+  };
+}
+
+/**
+ * Splits the program into started-but-unfinished weeks and untouched weeks,
+ * using the same display rules as the dashboard.
+ */
+export function splitUnfinishedWeeks(prompts: PromptRow[], entries: EntryRow[], appUrl: string) {
+  const entryByWeek = new Map<number, EntryRow>();
+  for (const e of entries) entryByWeek.set(Number(e.week), e);
+
+  const inProgress: ReminderWeek[] = [];
+  const open: ReminderWeek[] = [];
+
+  for (const p of [...prompts].sort((a, b) => a.week - b.week)) {
+    const status = deriveDisplayStatus(entryByWeek.get(p.week));
+    const item = { week: p.week, title: p.title, link: `${appUrl}/week?week=${p.week}` };
+
+    if (status === "Open") open.push(item);
+    else if (status === "In Progress") inProgress.push(item);
+  }
+
+  return { inProgress, open };
+}
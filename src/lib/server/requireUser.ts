@@ -0,0 +1,64 @@
+import { createClient } from "@supabase/supabase-js";
+
+type UserCheck =
+  | { ok: true; userId: string }
+  | { ok: false; status: number; error: string };
+
+function mustEnv(name: string) {
+  const v = process.env[name];
+  if (!v) throw new Error(`Missing env var: ${name}`);
+  return v;
+}
+
+function getBearerToken(req: Request) {
+  const h = req.headers.get("authorization") || req.headers.get("Authorization") || "";
+  const m = h.match(/^Bearer\s+(.+)$/i);
+  return m?.[1] ?? null;
+}
+
+/**
+ * Resolves the signed-in user from the bearer token. Disabled accounts are
+ * rejected the same way the app redirects them to /disabled.
+ */
+export async function requireUser(req: Request): Promise<UserCheck> {
+  const token = getBearerToken(req);
+  if (!token) {
+    return { ok: false, status: 401, error: "Missing bearer token" };
+  }
+
+  const url = mustEnv("NEXT_PUBLIC_SUPABASE_URL");
+  const anon = mustEnv("NEXT_PUBLIC_SUPABASE_ANON_KEY");
+
+  const supabase = createClient(url, anon, {
+    auth: { persistSession: false, autoRefreshToken: false }
+  });
+
+  const { data: userRes, error: userErr } = await supabase.auth.getUser(token);
+
+  if (userErr || !userRes?.user?.id) {
+    return { ok: false, status: 401, error: "Invalid session" };
+  }
+
+  const userId = userRes.user.id;
+
+  const service = mustEnv("SUPABASE_SERVICE_ROLE_KEY");
+  const adminDb = createClient(url, service, {
+    auth: { persistSession: false, autoRefreshToken: false }
+  });
+
+  const { data: profile, error: profileErr } = await adminDb
+    .from("profiles")
+    .select("disabled")
+    .eq("id", userId)
+    .maybeSingle();
+
+  if (profileErr) {
+    return { ok: false, status: 500, error: profileErr.message };
+  }
+
+  if (profile?.disabled) {
+    return { ok: false, status: 403, error: "Account disabled" };
+  }
+
+  return { ok: true, userId };
+}
@@ -0,0 +1,23 @@
+// PostgREST caps how many rows one select returns (1000 by default), and a
+// longer result is cut off without an error. Anything that can grow past
+// that reads it a page at a time.
+
+// Rows per request
+export const PAGE_SIZE = 1000;
+
+type PageResult<T> = { data: T[] | null; error: { message: string } | null };
+
+/**
+ * Reads every page of a select. `page` runs the query for one range of rows,
+ * which needs a stable order so pages don't overlap.
+ */
+export async function selectAll<T>(page: (from: number, to: number) => PromiseLike<PageResult<T>>) {
+  const rows: T[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await page(from, from + PAGE_SIZE - 1);
+    if (error) throw new Error(error.message);
+    rows.push(...(data ?? []));
+    if ((data ?? []).length < PAGE_SIZE) return rows;
+  }
+}
@@ -0,0 +1,63 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { FIXED_TRANSCRIPT, getTranscriptionEngine } from "@/lib/server/transcription";
+
+const audio = { body: new Uint8Array([1, 2, 3]), contentType: "audio/webm", extension: "webm" };
+
+describe("getTranscriptionEngine", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("uses the fixed engine in tests", async () => {
+    vi.stubEnv("TRANSCRIPTION_ENGINE", "");
+    vi.stubEnv("NODE_ENV", "test");
+
+    const engine = getTranscriptionEngine();
+    expect(engine.name).toBe("fixed");
+    expect(await engine.transcribe(audio)).toBe(FIXED_TRANSCRIPT);
+  });
+
+  it("needs an engine chosen outside tests", () => {
+    vi.stubEnv("TRANSCRIPTION_ENGINE", "");
+
+    for (const env of ["production", "development"]) {
+      vi.stubEnv("NODE_ENV", env);
+      expect(() => getTranscriptionEngine()).toThrow("Missing env var: TRANSCRIPTION_ENGINE");
+    }
+  });
+
+  it("won't write canned text outside tests", () => {
+    vi.stubEnv("TRANSCRIPTION_ENGINE", "fixed");
+    vi.stubEnv("NODE_ENV", "development");
+
+    expect(() => getTranscriptionEngine()).toThrow("TRANSCRIPTION_ENGINE=fixed is only for tests");
+  });
+
+  it("uses the configured engine in production", () => {
+    vi.stubEnv("TRANSCRIPTION_ENGINE", "OpenAI");
+    vi.stubEnv("NODE_ENV", "production");
+    vi.stubEnv("OPENAI_API_KEY", "test-key");
+
+    expect(getTranscriptionEngine().name).toBe("openai");
+  });
+
+  it("returns TRANSCRIPTION_FIXED_TEXT as one paragraph", async () => {
+    vi.stubEnv("TRANSCRIPTION_ENGINE", "fixed");
+    vi.stubEnv("TRANSCRIPTION_FIXED_TEXT", "I grew up by the sea.\n  We had a dog.\n");
+
+    expect(await getTranscriptionEngine().transcribe(audio)).toBe("I grew up by the sea. We had a dog.");
+  });
+
+  it("fails on an empty recording", async () => {
+    vi.stubEnv("TRANSCRIPTION_ENGINE", "fixed");
+
+    await expect(getTranscriptionEngine().transcribe({ ...audio, body: new Uint8Array() })).rejects.toThrow(
+      "The recording is empty"
+    );
+  });
+
+  it("rejects an unknown engine", () => {
+    vi.stubEnv("TRANSCRIPTION_ENGINE", "carrier-pigeon");
+    expect(() => getTranscriptionEngine()).toThrow("Unknown TRANSCRIPTION_ENGINE: carrier-pigeon");
+  });
+});
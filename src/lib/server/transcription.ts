@@ -0,0 +1,139 @@
+import { execFile } from "node:child_process";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { promisify } from "node:util";
+
+const run = promisify(execFile);
+
+export type TranscriptionAudio = {
+  body: Uint8Array;
+  contentType: string;
+  // File extension matching contentType, e.g. "webm"
+  extension: string;
+};
+
+export type TranscriptionEngineName = "openai" | "whisper" | "fixed";
+
+export type TranscriptionEngine = {
+  name: TranscriptionEngineName;
+  transcribe(audio: TranscriptionAudio): Promise<string>;
+};
+
+// Long recordings on a slow machine still finish well inside this
+const WHISPER_TIMEOUT_MS = 5 * 60 * 1000;
+
+function mustEnv(name: string) {
+  const v = process.env[name];
+  if (!v) throw new Error(`Missing env var: ${name}`);
+  return v;
+}
+
+// Engines return one line per segment; the entry gets them as one paragraph
+function joinSegments(text: string) {
+  return text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .join(" ");
+}
+
+function createOpenAiEngine(): TranscriptionEngine {
+  const apiKey = mustEnv("OPENAI_API_KEY");
+  const model = process.env.OPENAI_TRANSCRIPTION_MODEL || "whisper-1";
+
+  return {
+    name: "openai",
+    async transcribe(audio) {
+      const form = new FormData();
+      form.append("model", model);
+      form.append("response_format", "json");
+      form.append(
+        "file",
+        new Blob([new Uint8Array(audio.body)], { type: audio.contentType }),
+        `recording.${audio.extension}`
+      );
+
+      const res = await fetch("https://api.openai.com/v1/audio/transcriptions", {
+        method: "POST",
+        headers: { Authorization: `Bearer ${apiKey}` },
+        body: form
+      });
+
+      const json = (await res.json().catch(() => null)) as { text?: string; error?: { message?: string } } | null;
+      if (!res.ok) throw new Error(json?.error?.message ?? `Transcription failed (HTTP ${res.status})`);
+      return joinSegments(json?.text ?? "");
+    }
+  };
+}
+
+// whisper.cpp only reads 16 kHz mono WAV, so ffmpeg converts the upload first.
+// Both run on this machine; nothing leaves it.
+function createWhisperEngine(): TranscriptionEngine {
+  const whisper = process.env.WHISPER_CPP_BIN || "whisper-cli";
+  const model = mustEnv("WHISPER_CPP_MODEL"); // ex: "models/ggml-base.en.bin"
+  const ffmpeg = process.env.FFMPEG_BIN || "ffmpeg";
+
+  return {
+    name: "whisper",
+    async transcribe(audio) {
+      const dir = await mkdtemp(path.join(os.tmpdir(), "transcribe-"));
+
+      try {
+        const input = path.join(dir, `input.${audio.extension}`);
+        const wav = path.join(dir, "audio.wav");
+        const out = path.join(dir, "transcript");
+
+        await writeFile(input, audio.body);
+        await run(
+          ffmpeg,
+          ["-nostdin", "-loglevel", "error", "-i", input, "-ar", "16000", "-ac", "1", "-c:a", "pcm_s16le", wav],
+          { timeout: WHISPER_TIMEOUT_MS }
+        );
+        await run(whisper, ["-m", model, "-f", wav, "-nt", "-otxt", "-of", out], {
+          timeout: WHISPER_TIMEOUT_MS,
+          maxBuffer: 16 * 1024 * 1024
+        });
+
+        return joinSegments(await readFile(`${out}.txt`, "utf8"));
+      } finally {
+        await rm(dir, { recursive: true, force: true });
+      }
+    }
+  };
+}
+
+export const FIXED_TRANSCRIPT = "This is a sample transcript from the fixed transcription engine.";
+
+// Needs nothing installed and never calls out, so tests always have a working
+// engine. Returns TRANSCRIPTION_FIXED_TEXT, or a sample sentence. Only for
+// tests: anywhere else the canned text would end up in real entries.
+function createFixedEngine(): TranscriptionEngine {
+  return {
+    name: "fixed",
+    async transcribe(audio) {
+      if (!audio.body.length) throw new Error("The recording is empty");
+      return joinSegments(process.env.TRANSCRIPTION_FIXED_TEXT || FIXED_TRANSCRIPT);
+    }
+  };
+}
+
+/**
+ * Engine chosen by TRANSCRIPTION_ENGINE: "openai" (the hosted Whisper API),
+ * "whisper" (offline whisper.cpp with WHISPER_CPP_MODEL) or, in tests, "fixed"
+ * (a canned transcript). There is no default outside tests: sending users'
+ * voices to a third party has to be a deliberate choice.
+ */
+export function getTranscriptionEngine(): TranscriptionEngine {
+  const isTest = process.env.NODE_ENV === "test";
+  const name = (process.env.TRANSCRIPTION_ENGINE || (isTest ? "fixed" : mustEnv("TRANSCRIPTION_ENGINE"))).toLowerCase();
+
+  if (name === "openai") return createOpenAiEngine();
+  if (name === "whisper") return createWhisperEngine();
+  if (name === "fixed") {
+    if (!isTest) throw new Error("TRANSCRIPTION_ENGINE=fixed is only for tests");
+    return createFixedEngine();
+  }
+
+  throw new Error(`Unknown TRANSCRIPTION_ENGINE: ${name}`);
+}
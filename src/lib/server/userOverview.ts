@@ -0,0 +1,124 @@
+import { getAdminClient } from "@/lib/server/supabaseAdmin";
+import { selectAll } from "@/lib/server/selectAll";
+import { parseStartDate, progressStats, weekFromStartDate } from "@/lib/program";
+
+type AdminClient = ReturnType<typeof getAdminClient>;
+
+type ProfileRow = {
+  id: string;
+  email: string | null;
+  preferred_name: string | null;
+  start_date: string | null;
+  email_paused: boolean | null;
+  disabled: boolean | null;
+};
+
+// From the entry_progress view: enough to count progress without the text
+type EntryRow = {
+  id: string;
+  user_id: string;
+  week: number;
+  has_text: boolean;
+  status: string | null;
+  updated_at: string | null;
+};
+
+export type UserOverviewRow = {
+  id: string;
+  email: string | null;
+  preferred_name: string | null;
+  start_date: string | null;
+  current_week: number | null;
+  email_paused: boolean;
+  disabled: boolean;
+  open_count: number;
+  in_progress_count: number;
+  complete_count: number;
+  percent_complete: number;
+  last_activity: string | null;
+};
+
+function computeCurrentWeek(startDate: string | null) {
+  if (!startDate || !parseStartDate(startDate)) return null;
+  return weekFromStartDate(startDate);
+}
+
+/**
+ * Per-user progress stats for every non-admin profile.
+ */
+export async function loadUserOverview(adminClient: AdminClient): Promise<UserOverviewRow[]> {
+  // 1) Get admin user ids so we can exclude them from the admin list
+  const { data: adminUsers, error: adminUsersErr } = await adminClient
+    .from("admin_users")
+    .select("user_id");
+
+  if (adminUsersErr) throw new Error(adminUsersErr.message);
+
+  const adminIds = new Set<string>((adminUsers ?? []).map((r) => String(r.user_id)));
+
+  // 2) Load all profiles (single tenant, fine). Exclude admin accounts in memory.
+  const profiles = await selectAll<ProfileRow>((from, to) =>
+    adminClient
+      .from("profiles")
+      .select("id, email, preferred_name, start_date, email_paused, disabled")
+      .order("id", { ascending: true })
+      .range(from, to)
+  );
+
+  const nonAdminProfiles = profiles.filter((p) => p?.id && !adminIds.has(String(p.id)));
+
+  const userIds = nonAdminProfiles.map((p) => p.id);
+
+  // 3) Load every entry's progress fields and compute stats. Admins' entries
+  // come along too and are skipped below.
+  const entries = userIds.length
+    ? await selectAll<EntryRow>((from, to) =>
+        adminClient
+          .from("entry_progress")
+          .select("id, user_id, week, has_text, status, updated_at")
+          .order("id", { ascending: true })
+          .range(from, to)
+      )
+    : [];
+
+  const byUser = new Map<string, { entries: EntryRow[]; last_activity: string | null }>();
+
+  for (const id of userIds) {
+    byUser.set(id, { entries: [], last_activity: null });
+  }
+
+  for (const e of entries) {
+    const uid = String(e.user_id);
+    const s = byUser.get(uid);
+    if (!s) continue;
+
+    s.entries.push(e);
+
+    const t = e.updated_at ? new Date(e.updated_at).getTime() : NaN;
+    if (!Number.isNaN(t)) {
+      const prev = s.last_activity ? new Date(s.last_activity).getTime() : NaN;
+      if (Number.isNaN(prev) || t > prev) s.last_activity = e.updated_at!;
+    }
+  }
+
+  return nonAdminProfiles.map((p) => {
+    const s = byUser.get(p.id) ?? { entries: [], last_activity: null };
+    // Same counting as the user's dashboard: weeks without text are open
+    const stats = progressStats(s.entries);
+
+    return {
+      id: p.id,
+      email: p.email,
+      preferred_name: p.preferred_name,
+      start_date: p.start_date,
+      current_week: computeCurrentWeek(p.start_date),
+      email_paused: Boolean(p.email_paused),
+      disabled: Boolean(p.disabled),
+      open_count: stats.open,
+      in_progress_count: stats.inProgress,
+      complete_count: stats.complete,
+      percent_complete: stats.percentComplete,
+      last_activity: s.last_activity
+    };
+  });
+}
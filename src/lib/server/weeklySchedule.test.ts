@@ -0,0 +1,118 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { PROGRAM_WEEKS } from "@/lib/program";
+import { currentProgramWeek, decideWeeklySend } from "@/lib/server/weeklySchedule";
+
+// 2026-01-05 is a Monday
+const base = { startDate: "2026-01-05", emailDay: "Monday", timeZone: "UTC", lastSentWeek: null };
+
+describe("decideWeeklySend", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("sends week 1 on the start date and nothing the day before", () => {
+    expect(decideWeeklySend({ ...base, now: new Date("2026-01-04T12:00:00Z") })).toEqual({
+      send: false,
+      reason: "not_started"
+    });
+    expect(decideWeeklySend({ ...base, now: new Date("2026-01-05T08:00:00Z") })).toEqual({
+      send: true,
+      week: 1,
+      catchUp: false
+    });
+  });
+
+  it("goes by the date on the user's own clock", () => {
+    // Still Sunday evening in Los Angeles, already Monday in UTC
+    const sundayInLa = new Date("2026-01-05T06:00:00Z");
+    expect(decideWeeklySend({ ...base, timeZone: "America/Los_Angeles", now: sundayInLa })).toEqual({
+      send: false,
+      reason: "not_started"
+    });
+
+    // Already Monday morning in Tokyo, still Sunday in UTC
+    const mondayInTokyo = new Date("2026-01-04T23:00:00Z");
+    expect(decideWeeklySend({ ...base, timeZone: "Asia/Tokyo", now: mondayInTokyo })).toEqual({
+      send: true,
+      week: 1,
+      catchUp: false
+    });
+  });
+
+  it("falls back to DEFAULT_EMAIL_TIME_ZONE for a zone it doesn't know", () => {
+    vi.stubEnv("DEFAULT_EMAIL_TIME_ZONE", "Asia/Tokyo");
+    const mondayInTokyo = new Date("2026-01-04T23:00:00Z");
+    expect(decideWeeklySend({ ...base, timeZone: "Mars/Olympus", now: mondayInTokyo }).send).toBe(true);
+  });
+
+  it("waits for the preferred day, then catches up later the same week", () => {
+    const thursday = { ...base, emailDay: "Thursday" };
+    expect(decideWeeklySend({ ...thursday, now: new Date("2026-01-14T12:00:00Z") })).toEqual({
+      send: false,
+      reason: "not_due"
+    });
+    expect(decideWeeklySend({ ...thursday, lastSentWeek: 1, now: new Date("2026-01-15T12:00:00Z") })).toEqual({
+      send: true,
+      week: 2,
+      catchUp: false
+    });
+    expect(decideWeeklySend({ ...thursday, lastSentWeek: 1, now: new Date("2026-01-17T12:00:00Z") })).toEqual({
+      send: true,
+      week: 2,
+      catchUp: true
+    });
+  });
+
+  it("never sends a week twice", () => {
+    expect(decideWeeklySend({ ...base, lastSentWeek: 2, now: new Date("2026-01-15T12:00:00Z") })).toEqual({
+      send: false,
+      reason: "already_sent"
+    });
+  });
+
+  it("sends a week that was missed entirely before the current one", () => {
+    // Week 2 never went out and it is now week 3, before the preferred day
+    const now = new Date("2026-01-19T12:00:00Z");
+    expect(decideWeeklySend({ ...base, emailDay: "Friday", lastSentWeek: 1, now })).toEqual({
+      send: true,
+      week: 2,
+      catchUp: true
+    });
+  });
+
+  it("starts someone with no emails yet at the current week", () => {
+    expect(decideWeeklySend({ ...base, now: new Date("2026-02-02T12:00:00Z") })).toEqual({
+      send: true,
+      week: 5,
+      catchUp: false
+    });
+  });
+
+  it("sends the last week late and then stops after the program ends", () => {
+    const afterEnd = new Date("2027-06-01T12:00:00Z");
+    expect(decideWeeklySend({ ...base, emailDay: "Sunday", lastSentWeek: PROGRAM_WEEKS - 1, now: afterEnd })).toEqual({
+      send: true,
+      week: PROGRAM_WEEKS,
+      catchUp: true
+    });
+    expect(decideWeeklySend({ ...base, lastSentWeek: PROGRAM_WEEKS, now: afterEnd })).toEqual({
+      send: false,
+      reason: "already_sent"
+    });
+  });
+
+  it("treats a start date it can't read as not started", () => {
+    expect(decideWeeklySend({ ...base, startDate: "soon", now: new Date("2026-01-05T12:00:00Z") })).toEqual({
+      send: false,
+      reason: "not_started"
+    });
+  });
+});
+
+describe("currentProgramWeek", () => {
+  it("is null before the start date and stays on the last week after the end", () => {
+    expect(currentProgramWeek("2026-01-05", "UTC", new Date("2026-01-04T12:00:00Z"))).toBeNull();
+    expect(currentProgramWeek("2026-01-05", "UTC", new Date("2026-01-12T00:00:00Z"))).toBe(2);
+    expect(currentProgramWeek("2026-01-05", "UTC", new Date("2028-01-01T00:00:00Z"))).toBe(PROGRAM_WEEKS);
+  });
+});
@@ -0,0 +1,99 @@
+import { PROGRAM_WEEKS, daysSinceStart, parseStartDate, weekFromStartDate } from "@/lib/program";
+
+const EMAIL_DAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+export type WeeklySendDecision =
+  | { send: true; week: number; catchUp: boolean }
+  | { send: false; reason: "not_started" | "already_sent" | "not_due" };
+
+type ScheduleInput = {
+  startDate: string;
+  emailDay: string | null;
+  timeZone: string | null;
+  lastSentWeek: number | null;
+  now?: Date;
+};
+
+export function resolveTimeZone(tz: string | null | undefined) {
+  const fallback = process.env.DEFAULT_EMAIL_TIME_ZONE || "UTC";
+  if (!tz) return fallback;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: tz });
+    return tz;
+  } catch {
+    return fallback;
+  }
+}
+
+export function resolveEmailDay(day: string | null | undefined) {
+  const idx = EMAIL_DAYS.indexOf(String(day ?? ""));
+  return idx === -1 ? 1 : idx; // Monday
+}
+
+// Calendar date (YYYY-MM-DD) as seen on a wall clock in the given time zone.
+export function localDateInTimeZone(now: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit"
+  }).formatToParts(now);
+
+  const get = (type: string) => parts.find((p) => p.type === type)?.value ?? "";
+  return `${get("year")}-${get("month")}-${get("day")}`;
+}
+
+// The user's local calendar date, as UTC midnight like a start date
+function localToday(now: Date, timeZone: string | null) {
+  return parseStartDate(localDateInTimeZone(now, resolveTimeZone(timeZone))) ?? now;
+}
+
+/**
+ * Program week (1-52) for the user's local "today", or null before the start date.
+ */
+export function currentProgramWeek(startDate: string, timeZone: string | null, now = new Date()) {
+  const today = localToday(now, timeZone);
+  const days = daysSinceStart(startDate, today);
+  if (days === null || days < 0) return null;
+  return weekFromStartDate(startDate, today);
+}
+
+/**
+ * Decides whether a user's weekly prompt email should go out today.
+ *
+ * The email is due on the first run on or after the user's preferred weekday
+ * inside the current program week, so a run that was missed (or a day change
+ * mid-week) is caught up later in the same week. Once a user has had an
+ * email, weeks go out in order: a week missed entirely is sent late, one per
+ * run, before the current one. A week that has already been sent is never
+ * sent again.
+ */
+export function decideWeeklySend(input: ScheduleInput): WeeklySendDecision {
+  const today = localToday(input.now ?? new Date(), input.timeZone);
+  const start = parseStartDate(input.startDate);
+  const days = daysSinceStart(input.startDate, today);
+
+  if (!start || days === null || days < 0) return { send: false, reason: "not_started" };
+
+  const rawWeek = Math.floor(days / 7) + 1;
+  const week = weekFromStartDate(input.startDate, today);
+
+  if (input.lastSentWeek !== null && input.lastSentWeek >= week) {
+    return { send: false, reason: "already_sent" };
+  }
+
+  // Someone with no email yet starts at the current week rather than getting
+  // every week before it
+  const nextWeek = input.lastSentWeek === null ? week : input.lastSentWeek + 1;
+  if (nextWeek < week) return { send: true, week: nextWeek, catchUp: true };
+
+  // Past the end of the program, week 52 is simply overdue.
+  if (rawWeek > PROGRAM_WEEKS) return { send: true, week, catchUp: true };
+
+  const dayInWeek = days % 7;
+  const dueOffset = (resolveEmailDay(input.emailDay) - start.getUTCDay() + 7) % 7;
+
+  if (dayInWeek < dueOffset) return { send: false, reason: "not_due" };
+
+  return { send: true, week, catchUp: dayInWeek > dueOffset };
+}
@@ -0,0 +1,93 @@
+export type DiffPart = {
+  type: "same" | "add" | "remove";
+  text: string;
+};
+
+// Past this many line pairs the LCS table gets too big for the browser; the
+// diff then degrades to "everything removed, everything added".
+const MAX_CELLS = 4_000_000;
+
+function splitLines(s: string) {
+  const normalized = s.replace(/\r\n/g, "\n");
+  return normalized.length ? normalized.split("\n") : [];
+}
+
+/**
+ * Line-based diff from `before` to `after` (longest common subsequence).
+ * Consecutive lines of the same type are merged into one part.
+ */
+export function diffLines(before: string, after: string): DiffPart[] {
+  const a = splitLines(before);
+  const b = splitLines(after);
+  const raw: DiffPart[] = [];
+
+  // Trim the shared head and tail first; typical edits touch a few lines
+  let head = 0;
+  while (head < a.length && head < b.length && a[head] === b[head]) head++;
+  let tail = 0;
+  while (
+    tail < a.length - head &&
+    tail < b.length - head &&
+    a[a.length - 1 - tail] === b[b.length - 1 - tail]
+  ) {
+    tail++;
+  }
+
+  const midA = a.slice(head, a.length - tail);
+  const midB = b.slice(head, b.length - tail);
+
+  for (const line of a.slice(0, head)) raw.push({ type: "same", text: line });
+
+  if ((midA.length + 1) * (midB.length + 1) > MAX_CELLS) {
+    for (const line of midA) raw.push({ type: "remove", text: line });
+    for (const line of midB) raw.push({ type: "add", text: line });
+  } else {
+    const n = midA.length;
+    const m = midB.length;
+    // lcs[i][j] = LCS length of midA[i..] and midB[j..]
+    const lcs: Uint32Array[] = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i][j] =
+          midA[i] === midB[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+      if (midA[i] === midB[j]) {
+        raw.push({ type: "same", text: midA[i] });
+        i++;
+        j++;
+      } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+        raw.push({ type: "remove", text: midA[i++] });
+      } else {
+        raw.push({ type: "add", text: midB[j++] });
+      }
+    }
+    while (i < n) raw.push({ type: "remove", text: midA[i++] });
+    while (j < m) raw.push({ type: "add", text: midB[j++] });
+  }
+
+  for (const line of a.slice(a.length - tail)) raw.push({ type: "same", text: line });
+
+  const merged: DiffPart[] = [];
+  for (const part of raw) {
+    const last = merged[merged.length - 1];
+    if (last && last.type === part.type) last.text += `\n${part.text}`;
+    else merged.push({ ...part });
+  }
+  return merged;
+}
+
+export function diffStats(parts: DiffPart[]) {
+  let added = 0;
+  let removed = 0;
+  for (const p of parts) {
+    const lines = p.text.split("\n").length;
+    if (p.type === "add") added += lines;
+    if (p.type === "remove") removed += lines;
+  }
+  return { added, removed };
+}
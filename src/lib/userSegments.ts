@@ -0,0 +1,43 @@
+import { PROGRAM_WEEKS } from "@/lib/program";
+
+export type FilterKey = "all" | "needs_attention" | "ready" | "paused" | "disabled";
+
+export const FILTER_LABELS: Record<FilterKey, string> = {
+  all: "All",
+  needs_attention: "Needs attention",
+  ready: "Ready",
+  paused: "Paused",
+  disabled: "Disabled"
+};
+
+// The subset of the users-overview row that segment rules look at
+export type SegmentRow = {
+  email_paused: boolean;
+  disabled: boolean;
+  complete_count: number;
+  last_activity: string | null;
+};
+
+export function isFilterKey(v: unknown): v is FilterKey {
+  return typeof v === "string" && v in FILTER_LABELS;
+}
+
+export function daysSince(d: string | null, now = new Date()) {
+  if (!d) return null;
+  const t = new Date(d).getTime();
+  if (Number.isNaN(t)) return null;
+  return Math.floor((now.getTime() - t) / (1000 * 60 * 60 * 24));
+}
+
+export function isNeedsAttention(row: SegmentRow, inactiveDays = 14, now = new Date()) {
+  const d = daysSince(row.last_activity, now);
+  return d !== null && d >= inactiveDays && row.complete_count < PROGRAM_WEEKS && !row.disabled;
+}
+
+export function matchesFilter(row: SegmentRow, filter: FilterKey, now = new Date()) {
+  if (filter === "needs_attention") return isNeedsAttention(row, 14, now);
+  if (filter === "ready") return row.complete_count >= PROGRAM_WEEKS;
+  if (filter === "paused") return row.email_paused && !row.disabled;
+  if (filter === "disabled") return row.disabled;
+  return true;
+}
@@ -0,0 +1,6 @@
+// Ids of users, entries, photos and the like are Postgres UUIDs
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+export function isUuid(v: unknown): v is string {
+  return typeof v === "string" && UUID_PATTERN.test(v);
+}
@@ -0,0 +1,4 @@
+-- Per-user weekly email scheduling.
+-- timezone: IANA zone name used to decide which local day it is for the user.
+alter table public.profiles
+  add column if not exists timezone text;
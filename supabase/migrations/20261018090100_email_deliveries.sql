@@ -0,0 +1,46 @@
+-- Delivery log for weekly prompt emails. One row per user, start date and
+-- program week; the unique index is what makes the send-weekly cron job
+-- idempotent. Keying on the start date means that when an admin moves it the
+-- program restarts, and weeks emailed under the old date go out again.
+create table if not exists public.email_deliveries (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  program_start date not null,
+  week integer not null check (week between 1 and 52),
+  prompt_key text,
+  provider text not null default 'resend',
+  provider_message_id text,
+  status text not null default 'pending' check (status in ('pending', 'sent', 'failed')),
+  error text,
+  attempts integer not null default 1,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create unique index if not exists email_deliveries_user_start_week_key
+  on public.email_deliveries (user_id, program_start, week);
+
+alter table public.email_deliveries enable row level security;
+
+create policy "Admins can read email deliveries"
+  on public.email_deliveries for select
+  using (public.is_admin());
+
+-- Last week emailed under each user's current start date, one row per user,
+-- so the cron job doesn't page through every delivery ever logged.
+create or replace function public.last_weekly_email_weeks(user_ids uuid[])
+returns table (user_id uuid, week integer)
+language sql
+stable
+as $$
+  select d.user_id, max(d.week)
+  from public.email_deliveries d
+  join public.profiles p on p.id = d.user_id
+  where d.status = 'sent'
+    and d.program_start = p.start_date::date
+    and d.user_id = any(user_ids)
+  group by d.user_id;
+$$;
+
+-- Only the service role (the cron job) calls this
+revoke execute on function public.last_weekly_email_weeks(uuid[]) from public, anon, authenticated;
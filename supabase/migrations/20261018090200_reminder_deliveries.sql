@@ -0,0 +1,18 @@
+-- Reminder ("nudge") emails share the delivery log with weekly prompts.
+alter table public.email_deliveries
+  add column if not exists kind text not null default 'weekly'
+    check (kind in ('weekly', 'reminder'));
+
+alter table public.email_deliveries alter column week drop not null;
+alter table public.email_deliveries alter column program_start drop not null;
+
+-- Weekly prompts stay unique per user, start date and program week.
+drop index if exists public.email_deliveries_user_start_week_key;
+create unique index if not exists email_deliveries_weekly_user_start_week_key
+  on public.email_deliveries (user_id, program_start, week)
+  where kind = 'weekly';
+
+-- At most one reminder per user per (UTC) day, even if the job runs twice.
+create unique index if not exists email_deliveries_reminder_user_day_key
+  on public.email_deliveries (user_id, ((created_at at time zone 'utc')::date))
+  where kind = 'reminder';
@@ -0,0 +1,32 @@
+-- One row per admin broadcast; individual sends are logged in email_deliveries.
+create table if not exists public.broadcasts (
+  id uuid primary key default gen_random_uuid(),
+  created_by uuid references auth.users (id) on delete set null,
+  filter text not null,
+  subject text not null,
+  body text not null,
+  recipient_count integer not null default 0,
+  sent_count integer not null default 0,
+  failed_count integer not null default 0,
+  skipped_count integer not null default 0,
+  created_at timestamptz not null default now()
+);
+
+alter table public.broadcasts enable row level security;
+
+create policy "Admins can read broadcasts"
+  on public.broadcasts for select
+  using (public.is_admin());
+
+alter table public.email_deliveries
+  add column if not exists broadcast_id uuid references public.broadcasts (id) on delete cascade;
+
+alter table public.email_deliveries drop constraint if exists email_deliveries_kind_check;
+alter table public.email_deliveries
+  add constraint email_deliveries_kind_check
+    check (kind in ('weekly', 'reminder', 'broadcast'));
+
+-- A broadcast reaches each user at most once.
+create unique index if not exists email_deliveries_broadcast_user_key
+  on public.email_deliveries (broadcast_id, user_id)
+  where kind = 'broadcast';
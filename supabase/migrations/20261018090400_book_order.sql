@@ -0,0 +1,8 @@
+-- How chapters are ordered when the manuscript is compiled.
+alter table public.profiles
+  add column if not exists book_order text not null default 'week'
+    check (book_order in ('week', 'life_stage', 'custom'));
+
+-- Program weeks in reading order, saved when the user drags chapters around.
+alter table public.profiles
+  add column if not exists book_chapter_order integer[] not null default '{}';
@@ -0,0 +1,101 @@
+-- Snapshot of an entry after each save that changed its title or text.
+-- Rows are written only by the trigger below; restoring a version is an
+-- ordinary entry update, which records a new revision in turn.
+create table if not exists public.entry_revisions (
+  id uuid primary key default gen_random_uuid(),
+  entry_id uuid not null references public.entries (id) on delete cascade,
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  week integer not null,
+  title text,
+  content text not null default '',
+  status text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists entry_revisions_entry_created_idx
+  on public.entry_revisions (entry_id, created_at desc);
+
+alter table public.entry_revisions enable row level security;
+
+create policy "Users can read their own entry revisions"
+  on public.entry_revisions for select
+  using (user_id = auth.uid());
+
+create policy "Admins can read entry revisions"
+  on public.entry_revisions for select
+  using (public.is_admin());
+
+-- Autosave runs every 30 seconds, so history is thinned as it ages: the
+-- newest revision per 10 minutes for the last day, per hour for 30 days and
+-- per day after that. Only the newest in each bucket is kept; nothing is
+-- removed just for being old, so an entry written over years keeps a version
+-- from every day it was edited.
+create or replace function public.entry_revision_bucket(created_at timestamptz, at_time timestamptz)
+returns text
+language sql
+immutable
+as $$
+  select case
+    when created_at > at_time - interval '1 day'
+      then 'minutes ' || (floor(extract(epoch from created_at) / 600) * 600)::bigint::text
+    when created_at > at_time - interval '30 days'
+      then 'hour ' || date_trunc('hour', created_at at time zone 'utc')::text
+    else 'day ' || date_trunc('day', created_at at time zone 'utc')::text
+  end;
+$$;
+
+create or replace function public.prune_entry_revisions(target_entry_id uuid)
+returns void
+language sql
+as $$
+  delete from public.entry_revisions r
+  using (
+    select
+      id,
+      row_number() over (
+        partition by public.entry_revision_bucket(created_at, now())
+        order by created_at desc, id
+      ) as bucket_rank
+    from public.entry_revisions
+    where entry_id = target_entry_id
+  ) ranked
+  where r.id = ranked.id
+    and ranked.bucket_rank > 1;
+$$;
+
+-- Only the revision trigger calls this
+revoke execute on function public.prune_entry_revisions(uuid) from public, anon, authenticated;
+
+create or replace function public.record_entry_revision()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'UPDATE'
+    and new.content is not distinct from old.content
+    and new.title is not distinct from old.title then
+    return new;
+  end if;
+
+  insert into public.entry_revisions (entry_id, user_id, week, title, content, status)
+  values (new.id, new.user_id, new.week, new.title, coalesce(new.content, ''), new.status);
+
+  perform public.prune_entry_revisions(new.id);
+
+  return new;
+end;
+$$;
+
+drop trigger if exists entries_record_revision on public.entries;
+create trigger entries_record_revision
+  after insert or update of title, content on public.entries
+  for each row execute function public.record_entry_revision();
+
+-- Existing writing becomes the first revision of each entry.
+insert into public.entry_revisions (entry_id, user_id, week, title, content, status, created_at)
+select e.id, e.user_id, e.week, e.title, coalesce(e.content, ''), e.status, coalesce(e.updated_at, e.created_at, now())
+from public.entries e
+where coalesce(e.content, '') <> ''
+  and not exists (select 1 from public.entry_revisions r where r.entry_id = e.id);
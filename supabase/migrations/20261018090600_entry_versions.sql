@@ -0,0 +1,20 @@
+-- Optimistic concurrency for entry edits. Every update bumps the version, and
+-- editors save with "where version = <the version they loaded>", so a save
+-- based on stale text matches no row instead of overwriting newer writing.
+alter table public.entries
+  add column if not exists version integer not null default 1;
+
+create or replace function public.bump_entry_version()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.version := old.version + 1;
+  return new;
+end;
+$$;
+
+drop trigger if exists entries_bump_version on public.entries;
+create trigger entries_bump_version
+  before update on public.entries
+  for each row execute function public.bump_entry_version();
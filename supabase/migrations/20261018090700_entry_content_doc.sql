@@ -0,0 +1,39 @@
+-- Formatted entry text (headings, quotes, lists, bold and italic) as a JSON
+-- document. `content` keeps the plain-text rendering of the same writing.
+-- Existing entries stay as they are: a null document means `content` is the
+-- whole entry, and the editor reads it without changing a character.
+alter table public.entries
+  add column if not exists content_doc jsonb;
+
+alter table public.entry_revisions
+  add column if not exists content_doc jsonb;
+
+-- Same as before, but a formatting-only change is also a new revision and
+-- the document is kept with it so restoring brings the formatting back.
+create or replace function public.record_entry_revision()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'UPDATE'
+    and new.content is not distinct from old.content
+    and new.content_doc is not distinct from old.content_doc
+    and new.title is not distinct from old.title then
+    return new;
+  end if;
+
+  insert into public.entry_revisions (entry_id, user_id, week, title, content, content_doc, status)
+  values (new.id, new.user_id, new.week, new.title, coalesce(new.content, ''), new.content_doc, new.status);
+
+  perform public.prune_entry_revisions(new.id);
+
+  return new;
+end;
+$$;
+
+drop trigger if exists entries_record_revision on public.entries;
+create trigger entries_record_revision
+  after insert or update of title, content, content_doc on public.entries
+  for each row execute function public.record_entry_revision();
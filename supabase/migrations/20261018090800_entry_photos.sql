@@ -0,0 +1,32 @@
+-- Photos attached to an entry. The image files live in storage (the private
+-- entry-photos bucket, or a local folder in dev) under keys derived from the
+-- owner and photo id; this table holds what the app shows and orders.
+create table if not exists public.entry_photos (
+  id uuid primary key default gen_random_uuid(),
+  entry_id uuid not null references public.entries (id) on delete cascade,
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  caption text,
+  position integer not null default 0,
+  width integer not null,
+  height integer not null,
+  byte_size integer not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists entry_photos_entry_position_idx
+  on public.entry_photos (entry_id, position);
+
+alter table public.entry_photos enable row level security;
+
+-- Uploads, edits and deletes go through the API, which writes the files too
+create policy "Users can read their own entry photos"
+  on public.entry_photos for select
+  using (user_id = auth.uid());
+
+create policy "Admins can read entry photos"
+  on public.entry_photos for select
+  using (public.is_admin());
+
+insert into storage.buckets (id, name, public)
+values ('entry-photos', 'entry-photos', false)
+on conflict (id) do nothing;
@@ -0,0 +1,36 @@
+-- Spoken answers recorded in the browser. The audio lives in the private
+-- entry-recordings bucket (or a local folder in dev); the transcript is kept
+-- here and copied into the entry's text for the user to edit.
+create table if not exists public.entry_recordings (
+  id uuid primary key default gen_random_uuid(),
+  entry_id uuid not null references public.entries (id) on delete cascade,
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  content_type text not null,
+  duration_ms integer,
+  byte_size integer not null,
+  transcript text,
+  transcript_status text not null default 'pending'
+    check (transcript_status in ('pending', 'done', 'failed')),
+  transcript_error text,
+  -- Engine that produced the transcript: "openai" or "whisper" ("fixed" in tests)
+  transcribed_by text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists entry_recordings_entry_created_idx
+  on public.entry_recordings (entry_id, created_at);
+
+alter table public.entry_recordings enable row level security;
+
+-- Uploads, transcription and deletes go through the API, which writes the files too
+create policy "Users can read their own entry recordings"
+  on public.entry_recordings for select
+  using (user_id = auth.uid());
+
+create policy "Admins can read entry recordings"
+  on public.entry_recordings for select
+  using (public.is_admin());
+
+insert into storage.buckets (id, name, public)
+values ('entry-recordings', 'entry-recordings', false)
+on conflict (id) do nothing;
@@ -0,0 +1,14 @@
+-- What progress counting needs from each entry, without the text itself:
+-- the admin overview, broadcasts and the reminder job read it for every
+-- user. `has_text` matches hasEntryText in src/lib/program.ts.
+create or replace view public.entry_progress
+with (security_invoker = true)
+as
+select
+  e.id,
+  e.user_id,
+  e.week,
+  e.status,
+  e.updated_at,
+  coalesce(e.content, '') ~ '\S' as has_text
+from public.entries e;
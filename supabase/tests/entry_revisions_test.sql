@@ -0,0 +1,61 @@
+-- Run with `supabase test db`. Checks the thinning rule behind
+-- prune_entry_revisions: a busy day of autosaving must not cost any of the
+-- hourly or daily versions kept from before it.
+begin;
+create extension if not exists pgtap with schema extensions;
+
+select plan(4);
+
+create temporary table saves (created_at timestamptz, kind text) on commit drop;
+
+-- 100 minutes of autosave every 30 seconds
+insert into saves
+select now() - make_interval(secs => 30 * i), 'recent' from generate_series(0, 199) i;
+
+-- One save per hour for the rest of the month
+insert into saves
+select date_trunc('hour', now()) - make_interval(hours => i), 'hourly' from generate_series(25, 29 * 24) i;
+
+-- One save per day for the year before that
+insert into saves
+select date_trunc('day', now()) - make_interval(days => i), 'daily' from generate_series(31, 395) i;
+
+-- What prune_entry_revisions keeps: the newest save in each bucket
+create temporary view kept as
+select created_at, kind
+from (
+  select
+    created_at,
+    kind,
+    row_number() over (
+      partition by public.entry_revision_bucket(created_at, now())
+      order by created_at desc
+    ) as bucket_rank
+  from saves
+) ranked
+where bucket_rank = 1;
+
+select ok(
+  exists (select 1 from kept where created_at = now()),
+  'the newest save is kept'
+);
+
+select ok(
+  (select count(*) from kept where kind = 'recent') between 10 and 11,
+  'a busy day is thinned to one save per 10 minutes'
+);
+
+select is(
+  (select count(*) from kept where kind = 'hourly'),
+  (select count(*) from saves where kind = 'hourly'),
+  'every hourly save from the last month survives'
+);
+
+select is(
+  (select count(*) from kept where kind = 'daily'),
+  (select count(*) from saves where kind = 'daily'),
+  'every daily save from before that survives'
+);
+
+select * from finish();
+rollback;